@@ -0,0 +1,257 @@
+/// <reference types="node" />
+import { getDetector, getDetectors } from "../office/detectorRegistry";
+import { AUTO_REDACT_MIN_CONFIDENCE } from "../office/runRedactionWorkflow";
+import {
+  findSensitiveMatches,
+  renderReplacement,
+  type Detector,
+  type SensitiveMatch,
+  type SensitiveType,
+} from "../office/sensitivePatterns";
+import { dropOverlaps } from "../office/wordRanges";
+import { readZip, writeZip } from "./zip";
+
+// Package parts that hold document text: the same stories the taskpane visits (text boxes live
+// inside the paragraphs of whichever part contains them). Their relationship parts hold hyperlink
+// targets ("mailto:…").
+const TEXT_PART_RE = /^word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/;
+const RELS_PART_RE = /^word\/_rels\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml\.rels$/;
+
+export type PartReport = {
+  part: string;
+  counts: Record<SensitiveType, number>;
+  redacted: number;
+  heldForReview: number;
+  // Tracked insertions and deletions accepted before scanning.
+  revisionsAccepted: number;
+};
+
+export type DocxOptions = {
+  // Scan only: no package is produced.
+  dryRun?: boolean;
+  // Detectors to run, e.g. a policy profile's (see profileDetectors); defaults to all of them.
+  detectors?: Detector[];
+};
+
+export type DocxReport = {
+  counts: Record<SensitiveType, number>;
+  redactionsTotal: number;
+  heldForReview: number;
+  revisionsAccepted: number;
+  parts: PartReport[];
+};
+
+/**
+ * Redact a .docx package without Word: accept tracked changes, run the detectors over the text and
+ * field codes of every story part and its hyperlink targets, and rewrite what matches.
+ * Low-confidence matches are counted but left in place, as in the taskpane's one-click run.
+ * Returns the rewritten package, or null for `dryRun`.
+ */
+export function redactDocx(input: Buffer, options: DocxOptions = {}): { output: Buffer | null; report: DocxReport } {
+  const detectors = options.detectors ?? getDetectors();
+  const entries = readZip(input);
+  if (!entries.some((e) => e.name === "word/document.xml")) throw new Error("Not a Word document (no word/document.xml).");
+
+  const report: DocxReport = { counts: {}, redactionsTotal: 0, heldForReview: 0, revisionsAccepted: 0, parts: [] };
+  for (const entry of entries) {
+    const redact = TEXT_PART_RE.test(entry.name) ? redactPartXml : RELS_PART_RE.test(entry.name) ? redactRelsXml : null;
+    if (!redact) continue;
+    const { xml, part } = redact(entry.data.toString("utf8"), detectors);
+    part.part = entry.name;
+    entry.data = Buffer.from(xml, "utf8");
+
+    report.parts.push(part);
+    report.redactionsTotal += part.redacted;
+    report.heldForReview += part.heldForReview;
+    report.revisionsAccepted += part.revisionsAccepted;
+    for (const [type, n] of Object.entries(part.counts)) report.counts[type] = (report.counts[type] ?? 0) + n;
+  }
+
+  return { output: options.dryRun ? null : writeZip(entries), report };
+}
+
+// One <w:t>, field code (<w:instrText>), tab or break inside a paragraph, with its offset in the
+// part's joined text (visible text and field codes are joined separately).
+type Segment = {
+  value: string;
+  offset: number;
+  field: boolean;
+  // Position of the whole element in the XML; only set for the text elements, the only kind rewritten.
+  xmlStart?: number;
+  xmlEnd?: number;
+  tag?: string;
+  edits: Array<{ from: number; to: number; insert: string }>;
+};
+
+const TOKEN_RE =
+  /<w:p\b[^>]*\/>|<w:p\b[^>]*>|<\/w:p>|<w:(t|instrText)\b[^>]*>([^<]*)<\/w:\1>|<w:tab\b[^>]*\/>|<w:(?:br|cr)\b[^>]*\/>/g;
+
+// Tracked changes: deleted (or moved-away) content with its wrapper, and the wrappers of inserted
+// (or moved-in) content. Self-closing marks only flag paragraph marks and table rows.
+const DELETED_RE = /<w:(del|moveFrom)\b[^>]*(?<!\/)>[\s\S]*?<\/w:\1>/g;
+const INSERTED_TAG_RE = /<w:(?:ins|moveTo)\b[^>]*(?<!\/)>|<\/w:(?:ins|moveTo)>/g;
+
+/**
+ * Word splits text into runs wherever formatting, spell-check or revision marks change, so one
+ * value can span several <w:t> elements. Paragraph texts are rebuilt from the runs (joined with
+ * "\n", as in the taskpane) and each match is written back into the runs it covers: the first run
+ * gets the replacement, the rest lose their share of the value.
+ *
+ * Tracked changes are accepted first, as finalize does in the taskpane: deleted text would
+ * otherwise stay in the file as <w:delText>, where no one sees it until the revision is rejected.
+ * Field codes (a HYPERLINK's "mailto:…") are scanned as text of their own.
+ */
+export function redactPartXml(xml: string, detectors: Detector[] = getDetectors()): { xml: string; part: PartReport } {
+  const { xml: flat, revisionsAccepted } = acceptRevisions(xml);
+  const paragraphs: Segment[][] = [];
+  const open: Segment[][] = [];
+
+  for (const m of flat.matchAll(TOKEN_RE)) {
+    const token = m[0];
+    if (token.startsWith("<w:p")) {
+      const segments: Segment[] = [];
+      paragraphs.push(segments);
+      if (!token.endsWith("/>")) open.push(segments);
+      continue;
+    }
+    if (token === "</w:p>") {
+      open.pop();
+      continue;
+    }
+    // Paragraphs nest (a text box inside a run): text belongs to the innermost open one.
+    const current = open[open.length - 1];
+    if (!current) continue;
+    if (m[1] !== undefined) {
+      current.push({
+        value: decodeXml(m[2]),
+        offset: 0,
+        field: m[1] === "instrText",
+        xmlStart: m.index,
+        xmlEnd: m.index! + token.length,
+        tag: m[1],
+        edits: [],
+      });
+    } else {
+      current.push({ value: token.startsWith("<w:tab") ? "\t" : "\v", offset: 0, field: false, edits: [] });
+    }
+  }
+
+  const counts: Record<SensitiveType, number> = {};
+  const part: PartReport = { part: "", counts, redacted: 0, heldForReview: 0, revisionsAccepted };
+  for (const field of [false, true]) {
+    let text = "";
+    paragraphs.forEach((all, i) => {
+      if (i > 0) text += "\n";
+      for (const s of all.filter((s) => s.field === field)) {
+        s.offset = text.length;
+        text += s.value;
+      }
+    });
+
+    const { matches, held } = detect(text, detectors);
+    const segments = paragraphs.flat().filter((s) => s.field === field && s.xmlStart !== undefined);
+    for (const m of matches) {
+      applyMatch(segments, m, detectors.find((d) => d.id === m.type) ?? getDetector(m.type));
+      counts[m.type] = (counts[m.type] ?? 0) + 1;
+    }
+    part.redacted += matches.length;
+    part.heldForReview += held;
+  }
+
+  let out = flat;
+  // Rewrite back to front; nested paragraphs mean segment order isn't document order.
+  const edited = paragraphs.flat().filter((s) => s.xmlStart !== undefined && s.edits.length > 0);
+  for (const s of edited.sort((a, b) => b.xmlStart! - a.xmlStart!)) {
+    let value = s.value;
+    for (const e of [...s.edits].sort((a, b) => b.from - a.from)) value = value.slice(0, e.from) + e.insert + value.slice(e.to);
+    out = out.slice(0, s.xmlStart) + `<w:${s.tag} xml:space="preserve">${encodeXml(value)}</w:${s.tag}>` + out.slice(s.xmlEnd);
+  }
+  return { xml: out, part };
+}
+
+/**
+ * Redact the targets of hyperlink relationships (`mailto:jane@…`, URLs with IDs in their query),
+ * which Word keeps in the part's .rels rather than in its text.
+ */
+export function redactRelsXml(xml: string, detectors: Detector[] = getDetectors()): { xml: string; part: PartReport } {
+  const counts: Record<SensitiveType, number> = {};
+  const part: PartReport = { part: "", counts, redacted: 0, heldForReview: 0, revisionsAccepted: 0 };
+
+  const out = xml.replace(/<Relationship\b[^>]*\/?>/g, (element) => {
+    const target = /\bTarget="([^"]*)"/.exec(element);
+    if (!target || !/\bType="[^"]*\/hyperlink"/.test(element)) return element;
+
+    const text = decodeUri(decodeXml(target[1]));
+    const { matches, held } = detect(text, detectors);
+    part.heldForReview += held;
+    if (matches.length === 0) return element;
+
+    let value = text;
+    for (const m of [...matches].sort((a, b) => b.start - a.start)) {
+      const detector = detectors.find((d) => d.id === m.type) ?? getDetector(m.type);
+      value = value.slice(0, m.start) + (detector ? renderReplacement(detector, m.value) : "[REDACTED]") + value.slice(m.end);
+      counts[m.type] = (counts[m.type] ?? 0) + 1;
+    }
+    part.redacted += matches.length;
+    return element.replace(target[0], `Target="${encodeXml(encodeURI(value))}"`);
+  });
+  return { xml: out, part };
+}
+
+// Matches to redact, and how many were held back for low confidence.
+function detect(text: string, detectors: Detector[]): { matches: SensitiveMatch[]; held: number } {
+  const all = findSensitiveMatches(text, detectors);
+  return {
+    matches: dropOverlaps(all.filter((m) => m.confidence >= AUTO_REDACT_MIN_CONFIDENCE)),
+    held: all.filter((m) => m.confidence < AUTO_REDACT_MIN_CONFIDENCE).length,
+  };
+}
+
+function acceptRevisions(xml: string): { xml: string; revisionsAccepted: number } {
+  let revisionsAccepted = 0;
+  const out = xml
+    .replace(DELETED_RE, () => {
+      revisionsAccepted++;
+      return "";
+    })
+    .replace(INSERTED_TAG_RE, (tag) => {
+      if (!tag.startsWith("</")) revisionsAccepted++;
+      return "";
+    });
+  return { xml: out, revisionsAccepted };
+}
+
+function applyMatch(segments: Segment[], m: SensitiveMatch, detector: Detector | undefined) {
+  let replacement: string | null = detector ? renderReplacement(detector, m.value) : "[REDACTED]";
+  for (const s of segments) {
+    const from = Math.max(m.start, s.offset) - s.offset;
+    const to = Math.min(m.end, s.offset + s.value.length) - s.offset;
+    if (to <= from) continue;
+    s.edits.push({ from, to, insert: replacement ?? "" });
+    replacement = null;
+  }
+}
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Hyperlink targets are often percent-encoded ("jane%40example.com"); a stray "%" is kept as is.
+function decodeUri(s: string): string {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+}
+
+function encodeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,55 @@
+/// <reference types="node" />
+import { createProviderServer, MOCK_PROVIDER_TYPES, type ProviderServerOptions } from "./providerServer";
+
+const USAGE = `Usage: mock-provider [options]
+
+Serves the detection provider contract at http://localhost:<port>/detect for development.
+
+Options:
+  --port <n>      port to listen on (default 3100)
+  --delay <ms>    wait this long before each answer, to try the add-in's timeout
+  --fail <status> answer every request with this HTTP status, to try the fallback
+  -h, --help      show this help
+`;
+
+// Bounds beyond "a whole number": a TCP port, and a status Node will write on a response.
+const RANGES: Record<string, [number, number]> = { "--port": [0, 65535], "--fail": [100, 599] };
+
+function main(argv: string[]) {
+  let port = 3100;
+  const options: ProviderServerOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") {
+      process.stdout.write(USAGE);
+      return;
+    }
+    if (arg !== "--port" && arg !== "--delay" && arg !== "--fail") {
+      process.stderr.write(`Unknown option: ${arg}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    const value = Number(argv[++i]);
+    if (!Number.isInteger(value) || value < 0) {
+      process.stderr.write(`${arg} needs a whole number.\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    const [min, max] = RANGES[arg] ?? [0, Infinity];
+    if (value < min || value > max) {
+      process.stderr.write(`${arg} must be between ${min} and ${max}.\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    if (arg === "--port") port = value;
+    else if (arg === "--delay") options.delayMs = value;
+    else options.failStatus = value;
+  }
+
+  createProviderServer(options).listen(port, () => {
+    process.stderr.write(`Mock detection provider on http://localhost:${port}/detect\n`);
+    process.stderr.write(`Map its types in detection-providers.json: ${JSON.stringify(MOCK_PROVIDER_TYPES)}\n`);
+  });
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,110 @@
+/// <reference types="node" />
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import {
+  PROVIDER_PROTOCOL_VERSION,
+  type ProviderRequest,
+  type ProviderResponse,
+  type ProviderSpan,
+} from "../office/detectionProviders";
+import { ENTITY_DETECTORS } from "../office/entityDetectors";
+import { BUILT_IN_DETECTORS, findSensitiveMatches } from "../office/sensitivePatterns";
+
+// Local stand-in for an organization's DLP/NER service, implementing the provider contract of
+// detectionProviders so the integration can be developed and tested offline. It answers with
+// the built-in name, address, date-of-birth and email detectors' hits, under the type names an
+// NER service would use and with the higher confidence of a trained model.
+
+export type ProviderServerOptions = {
+  // Milliseconds to wait before answering, to exercise the add-in's timeout.
+  delayMs?: number;
+  // Answer every request with this HTTP status instead, to exercise the fallback.
+  failStatus?: number;
+};
+
+// Native type name → the detector id it corresponds to (what a provider's "types" map undoes).
+export const MOCK_PROVIDER_TYPES: Record<string, string> = {
+  PERSON: "personName",
+  LOCATION: "address",
+  DATE_OF_BIRTH: "dateOfBirth",
+  EMAIL_ADDRESS: "email",
+};
+
+const MOCK_CONFIDENCE = 0.9;
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const detectors = [...ENTITY_DETECTORS, ...BUILT_IN_DETECTORS].filter((d) =>
+  Object.values(MOCK_PROVIDER_TYPES).includes(d.id),
+);
+const nativeType = Object.fromEntries(Object.entries(MOCK_PROVIDER_TYPES).map(([name, id]) => [id, name]));
+
+/** The spans the stand-in reports for `request`. */
+export function detectSpans(request: ProviderRequest): ProviderResponse {
+  const wanted = new Set(request.types);
+  const spans: ProviderSpan[] = request.chunks.flatMap(({ id, text }) =>
+    findSensitiveMatches(text, detectors.filter((d) => wanted.has(d.id))).map((m) => ({
+      chunkId: id,
+      type: nativeType[m.type],
+      start: m.start,
+      end: m.end,
+      confidence: MOCK_CONFIDENCE,
+    })),
+  );
+  return { spans };
+}
+
+/** An HTTP server answering POST /detect; call listen() on it. */
+export function createProviderServer(options: ProviderServerOptions = {}): Server {
+  return createServer(async (req, res) => {
+    // The taskpane calls from its own origin (https://localhost:3000 in development).
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", req.headers["access-control-request-headers"] ?? "Content-Type");
+    if (req.method === "OPTIONS") return end(res, 204);
+    if (req.url?.split("?")[0] !== "/detect") return end(res, 404, { error: "Not found; POST to /detect." });
+    if (req.method !== "POST") return end(res, 405, { error: "Use POST." });
+
+    let request: ProviderRequest;
+    try {
+      request = validateRequest(JSON.parse(await readBody(req)));
+    } catch (e: any) {
+      return end(res, 400, { error: e?.message ?? String(e) });
+    }
+    if (options.delayMs) await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+    if (options.failStatus) return end(res, options.failStatus, { error: "Failing on purpose (--fail)." });
+    end(res, 200, detectSpans(request));
+  });
+}
+
+function validateRequest(data: any): ProviderRequest {
+  if (data?.version !== PROVIDER_PROTOCOL_VERSION) throw new Error(`Unsupported version; expected ${PROVIDER_PROTOCOL_VERSION}.`);
+  if (!Array.isArray(data.chunks) || data.chunks.some((c: any) => typeof c?.id !== "string" || typeof c?.text !== "string")) {
+    throw new Error('"chunks" must be a list of { id, text }.');
+  }
+  if (!Array.isArray(data.types)) throw new Error('"types" must be a list of detector ids.');
+  return data as ProviderRequest;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    let size = 0;
+    req.on("data", (part: Buffer) => {
+      size += part.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request too large."));
+        req.destroy();
+      } else {
+        parts.push(part);
+      }
+    });
+    req.on("end", () => resolve(Buffer.concat(parts).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function end(res: ServerResponse, status: number, body?: unknown) {
+  res.statusCode = status;
+  if (body === undefined) return void res.end();
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,261 @@
+/// <reference types="node" />
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, relative, sep } from "node:path";
+import { ALL_LOCALES, compileCustomPattern, setCustomPatterns, type CustomPatternDef } from "../office/detectorRegistry";
+import { BUILT_IN_PROFILES, parseProfiles, profileDetectors, type PolicyProfile } from "../office/policyProfiles";
+import { formatCounts } from "../office/runRedactionWorkflow";
+import type { Detector, DetectorLocale } from "../office/sensitivePatterns";
+import { parseTermLists, setTermLists } from "../office/termLists";
+import { redactDocx, type DocxReport } from "./docxRedactor";
+
+const USAGE = `Usage: redact <in> [<in>…] <out> [options]
+
+  <in>    .docx file, directory, or glob ("contracts/**/*.docx"; quote it so the shell doesn't expand it)
+  <out>   output file for a single input, otherwise an output directory (relative paths are kept)
+
+Options:
+  --report <file>     write a JSON report of what was (or would be) redacted
+  --dry-run           scan only; no output is written and <out> may be omitted
+  --patterns <file>   JSON array of custom patterns ({ id, label, pattern, keywords, replacement })
+  --terms <file>      allowlist and always-redact terms, as exported from the taskpane
+  --profile <id|file> policy profile: ${BUILT_IN_PROFILES.map((p) => p.id).join(", ")}, or an exported profile file
+  --locales <list>    regions whose national IDs are detected, comma-separated: ${ALL_LOCALES.join(", ")} (default: all)
+  -h, --help          show this help
+`;
+
+type CliOptions = {
+  inputs: string[];
+  out: string | null;
+  report: string | null;
+  dryRun: boolean;
+  patterns: string | null;
+  terms: string | null;
+  profile: string | null;
+  locales: DetectorLocale[] | null;
+};
+
+type Job = { input: string; output: string | null };
+
+type FileReport = DocxReport & { input: string; output: string | null; error?: string };
+
+function main(argv: string[]): number {
+  let options: CliOptions;
+  let detectors: Detector[] | undefined;
+  let jobs: Job[];
+  try {
+    options = parseArgs(argv);
+    detectors = loadSettings(options);
+    jobs = planJobs(options);
+  } catch (e: any) {
+    process.stderr.write(`${e?.message ?? String(e)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (jobs.length === 0) {
+    process.stderr.write("No .docx files matched.\n");
+    return 1;
+  }
+
+  const reports: FileReport[] = [];
+  for (const { input, output } of jobs) {
+    try {
+      const { output: bytes, report } = redactDocx(readFileSync(input), { dryRun: options.dryRun, detectors });
+      if (bytes && output) {
+        mkdirSync(dirname(output), { recursive: true });
+        writeFileSync(output, bytes);
+      }
+      reports.push({ input, output: bytes ? output : null, ...report });
+      const held = report.heldForReview ? `, ${report.heldForReview} held for review` : "";
+      const revisions = report.revisionsAccepted ? `, ${report.revisionsAccepted} tracked change(s) accepted` : "";
+      const target = options.dryRun ? " (dry run)" : ` → ${output}`;
+      process.stderr.write(
+        `${input}${target}: ${report.redactionsTotal} redacted${report.redactionsTotal ? ` (${formatCounts(report.counts)})` : ""}${held}${revisions}\n`,
+      );
+    } catch (e: any) {
+      reports.push({ input, output: null, counts: {}, redactionsTotal: 0, heldForReview: 0, revisionsAccepted: 0, parts: [], error: e?.message ?? String(e) });
+      process.stderr.write(`${input}: error: ${e?.message ?? String(e)}\n`);
+    }
+  }
+
+  if (options.report) {
+    writeFileSync(
+      options.report,
+      JSON.stringify({ createdAt: new Date().toISOString(), dryRun: options.dryRun, files: reports }, null, 2),
+    );
+  }
+  return reports.some((r) => r.error) ? 1 : 0;
+}
+
+// Apply --patterns and --terms and pick the detectors for --profile/--locales. Unreadable or
+// invalid files are usage errors, reported before any document is touched.
+function loadSettings(options: CliOptions): Detector[] | undefined {
+  if (options.patterns) {
+    const defs: unknown = parseFile(options.patterns, "--patterns", (text) => JSON.parse(text));
+    if (!Array.isArray(defs)) throw new Error(`--patterns ${options.patterns}: expected a JSON array of patterns.`);
+    // Fail loudly here; the taskpane silently skips invalid stored patterns instead.
+    for (const def of defs as CustomPatternDef[]) {
+      try {
+        compileCustomPattern(def);
+      } catch (e: any) {
+        throw new Error(`--patterns ${options.patterns}: ${e?.message ?? String(e)}`);
+      }
+    }
+    setCustomPatterns(defs);
+  }
+  if (options.terms) setTermLists(parseFile(options.terms, "--terms", parseTermLists));
+
+  let profile: PolicyProfile | undefined;
+  if (options.profile) {
+    profile =
+      BUILT_IN_PROFILES.find((p) => p.id === options.profile) ?? parseFile(options.profile, "--profile", parseProfiles)[0];
+    if (!profile) throw new Error(`--profile ${options.profile}: the file holds no profile.`);
+  }
+  return profile || options.locales
+    ? profileDetectors(profile ?? BUILT_IN_PROFILES[0], options.locales ?? undefined)
+    : undefined;
+}
+
+// Read and parse `path`, naming the option and file in any error.
+function parseFile<T>(path: string, option: string, parse: (text: string) => T): T {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (e: any) {
+    throw new Error(`${option} ${path}: cannot read the file (${e?.code ?? e?.message ?? String(e)}).`);
+  }
+  try {
+    return parse(text);
+  } catch (e: any) {
+    throw new Error(`${option} ${path}: ${e?.message ?? String(e)}`);
+  }
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const positional: string[] = [];
+  const options: CliOptions = {
+    inputs: [],
+    out: null,
+    report: null,
+    dryRun: false,
+    patterns: null,
+    terms: null,
+    profile: null,
+    locales: null,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    } else if (arg === "--dry-run") {
+      options.dryRun = true;
+    } else if (arg === "--report" || arg === "--patterns" || arg === "--terms" || arg === "--profile") {
+      const value = argv[++i];
+      if (!value) throw new Error(`${arg} needs a value.`);
+      options[arg.slice(2) as "report" | "patterns" | "terms" | "profile"] = value;
+    } else if (arg === "--locales") {
+      const value = argv[++i];
+      if (!value) throw new Error(`${arg} needs a value.`);
+      options.locales = parseLocales(value);
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (!options.dryRun && positional.length < 2) throw new Error("Missing <in> or <out>.");
+  if (options.dryRun && positional.length === 0) throw new Error("Missing <in>.");
+  options.out = !options.dryRun || positional.length > 1 ? positional.pop()! : null;
+  options.inputs = positional;
+  return options;
+}
+
+function parseLocales(value: string): DetectorLocale[] {
+  const locales = value.split(",").map((l) => l.trim().toLowerCase()).filter(Boolean);
+  const unknown = locales.filter((l) => !ALL_LOCALES.includes(l as DetectorLocale));
+  if (unknown.length) throw new Error(`Unknown locale(s): ${unknown.join(", ")}. Use ${ALL_LOCALES.join(", ")}.`);
+  return locales as DetectorLocale[];
+}
+
+// Expand inputs and pair each with its output path. A single plain file maps to <out> itself
+// (unless <out> is an existing directory); everything else keeps its path relative to its root.
+function planJobs({ inputs, out }: CliOptions): Job[] {
+  const expanded = inputs.flatMap((input) => expandInput(input));
+  const single = inputs.length === 1 && expanded.length === 1 && !isGlob(inputs[0]) && !isDirectory(inputs[0]);
+
+  return expanded.map(({ file, root }) => {
+    if (!out) return { input: file, output: null };
+    if (single && !isDirectory(out)) return { input: file, output: out };
+    const rel = root ? relative(root, file) : basename(file);
+    return { input: file, output: join(out, rel) };
+  });
+}
+
+function expandInput(input: string): Array<{ file: string; root: string | null }> {
+  if (isGlob(input)) {
+    const parts = input.split(/[\\/]/);
+    const firstGlob = parts.findIndex(isGlob);
+    const root = parts.slice(0, firstGlob).join(sep) || ".";
+    const re = globToRegExp(parts.slice(firstGlob).join("/"));
+    return walk(root)
+      .filter((file) => file.toLowerCase().endsWith(".docx") && re.test(relative(root, file).split(sep).join("/")))
+      .map((file) => ({ file, root }));
+  }
+  if (isDirectory(input)) {
+    return walk(input)
+      .filter((file) => file.toLowerCase().endsWith(".docx"))
+      .map((file) => ({ file, root: input }));
+  }
+  if (!existsSync(input)) throw new Error(`No such file: ${input}`);
+  return [{ file: input, root: null }];
+}
+
+function walk(dir: string): string[] {
+  if (!isDirectory(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return walk(path);
+    // Word's lock files ("~$report.docx") aren't documents.
+    return entry.isFile() && !entry.name.startsWith("~$") ? [path] : [];
+  });
+}
+
+function isGlob(s: string): boolean {
+  return /[*?[]/.test(s);
+}
+
+function isDirectory(path: string): boolean {
+  return existsSync(path) && statSync(path).isDirectory();
+}
+
+// "**" spans directories, "*" and "?" stay within one path segment, "[…]" is a character class.
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      re += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "[") {
+      const close = glob.indexOf("]", i);
+      if (close < 0) {
+        re += "\\[";
+      } else {
+        re += glob.slice(i, close + 1);
+        i = close;
+      }
+    } else {
+      re += c.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`, "i");
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,8 @@
+import { checkMessageOnSend } from "./office/outlookOnSend";
+
+declare const Office: any;
+
+// Entry point of the UI-less runtime Outlook starts for event-based activation (the LaunchEvent
+// extension point in manifest.outlook.xml). The function name must match the manifest's.
+Office.onReady(() => {});
+Office.actions.associate("onMessageSendHandler", checkMessageOnSend);
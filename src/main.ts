@@ -1,75 +1,617 @@
 import "./styles.css";
-import { runRedactionWorkflow } from "./office/runRedactionWorkflow";
-import { renderAppShell, setAppState, type AppState } from "./ui/appShell";
+import { auditCertificate, auditToCsv, auditToJson, maskValue } from "./office/auditRecord";
+import { DetectionCancelledError } from "./office/backgroundDetection";
+import { isCheckOnOpen, setCheckOnOpen } from "./office/complianceCheck";
+import { loadDetectionProviders } from "./office/detectionProviders";
+import {
+  ALL_LOCALES,
+  detectorLabel,
+  loadActiveLocales,
+  loadCustomPatterns,
+  saveActiveLocales,
+  saveCustomPatterns,
+} from "./office/detectorRegistry";
+import {
+  applyApprovedRedactions,
+  AUTO_REDACT_MIN_CONFIDENCE,
+  checkDocument,
+  formatCounts,
+  listUndoVaults,
+  removeUndoVault,
+  restoreRedactions,
+  runRedactionWorkflow,
+  scanForCandidates,
+  selectCandidate,
+  type RedactionOptions,
+  type RedactionResult,
+} from "./office/runRedactionWorkflow";
+import {
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILE_ID,
+  exportProfiles,
+  loadCustomProfiles,
+  parseProfiles,
+  resolveProfiles,
+  saveCustomProfiles,
+  saveSelectedProfileId,
+  type PolicyProfile,
+} from "./office/policyProfiles";
+import { exportMapping } from "./office/pseudonymizer";
+import { loadStyleOverrides, saveStyleOverrides } from "./office/redactionStyles";
+import { openVault, type StoredVault } from "./office/redactionVault";
+import {
+  EMPTY_TERM_LISTS,
+  exportTermLists,
+  loadTermLists,
+  parseTermLists,
+  saveTermLists,
+  setTermLists,
+  type TermLists,
+} from "./office/termLists";
+import { checkHost, runHostRedaction, type HostRedactionResult } from "./office/hostRedaction";
+import { HOST_ADAPTERS, HOST_NAMES, hostKind } from "./office/hosts";
+import { DEFAULT_SANITIZE_OPTIONS } from "./office/sanitizeMetadata";
+import type { DetectorLocale } from "./office/sensitivePatterns";
+import { appendLogLine, currentProfile, renderAppShell, setAppState, updateProgress, type AppState } from "./ui/appShell";
+import { resetPatternDraft } from "./ui/customPatternsPanel";
+import { clearVaultPassphrase } from "./ui/restorePanel";
+import { resetTermListsDrafts } from "./ui/termListsPanel";
+import { downloadFile } from "./ui/dom";
 
 declare const Office: any;
 declare const Word: any;
 
+// Aborted by the Cancel button; one per run started through runExclusive.
+let runController: AbortController | null = null;
+
 const initialState: AppState = {
   officeReady: false,
+  host: "word",
+  hostResult: null,
   running: false,
+  progress: null,
   lastResult: null,
+  candidates: null,
+  selectedCandidateId: null,
+  compliance: null,
+  stampWhenClean: false,
+  checkOnOpen: false,
+  view: "main",
+  customPatterns: [],
+  styleOverrides: {},
+  termLists: { user: EMPTY_TERM_LISTS, document: EMPTY_TERM_LISTS },
+  termListsScope: "user",
+  termListsError: null,
+  settingsError: null,
+  mode: "redact",
+  batchKey: "",
+  sanitizeEnabled: false,
+  sanitize: { ...DEFAULT_SANITIZE_OPTIONS },
+  images: "mask",
+  finalize: false,
+  revealValues: false,
+  profiles: [...BUILT_IN_PROFILES],
+  profileId: DEFAULT_PROFILE_ID,
+  profileLocked: false,
+  locales: [...ALL_LOCALES],
+  providers: [],
+  scope: "document",
+  vaultEnabled: false,
+  vaultPassphrase: "",
+  storedVaults: null,
+  openedVault: null,
   logs: ["Loading…"],
 };
 
 renderAppShell(initialState, {
   onRun: async () => {
-    if (!initialState.officeReady || initialState.running) return;
-    if (typeof Word === "undefined" || !Word?.run) {
-      initialState.logs = [
-        "Word JavaScript API not available yet.",
-        "If you're in Word, wait 1–2 seconds and try again.",
-        "If you're not in Word, sideload the manifest into Microsoft Word (web or desktop) and open the taskpane there.",
-      ];
+    await runExclusive(async (log) => {
+      if (initialState.host !== "word") {
+        const adapter = HOST_ADAPTERS[initialState.host];
+        initialState.hostResult = await runHostRedaction(adapter, log, redactionOptions(), AUTO_REDACT_MIN_CONFIDENCE);
+        summarizeHost(initialState.hostResult).forEach(log);
+        return;
+      }
+      requireVaultPassphrase();
+      initialState.candidates = null;
+      const result = await runRedactionWorkflow(log, redactionOptions());
+      initialState.lastResult = result;
+      summarize(result).forEach(log);
+    });
+  },
+  onCancel: () => {
+    if (!runController || runController.signal.aborted) return;
+    runController.abort();
+    appendLog("Cancelling after the current chunk…");
+  },
+  onScan: async () => {
+    await runExclusive(async (log) => {
+      initialState.candidates = await scanForCandidates(log, redactionOptions());
+      initialState.selectedCandidateId = null;
+    });
+  },
+  onCheck: () => runCheck(),
+  onStampWhenCleanChange: (enabled) => {
+    initialState.stampWhenClean = enabled;
+    setAppState(initialState);
+  },
+  onCheckOnOpenChange: async (enabled) => {
+    try {
+      await setCheckOnOpen(enabled);
+      initialState.checkOnOpen = enabled;
       setAppState(initialState);
+      appendLog(enabled ? "The check will run whenever this document is opened." : "The check no longer runs when this document is opened.");
+    } catch (e: any) {
+      appendLog(`Could not change the check-on-open setting: ${e?.message ?? String(e)}`);
+    }
+  },
+  onApply: async () => {
+    const candidates = initialState.candidates;
+    if (!candidates) return;
+    await runExclusive(async (log) => {
+      requireVaultPassphrase();
+      const result = await applyApprovedRedactions(candidates, log, redactionOptions());
+      initialState.lastResult = result;
+      initialState.candidates = null;
+      summarize(result).forEach(log);
+    });
+  },
+  onDecide: (id, decision) => {
+    const c = initialState.candidates?.find((x) => x.id === id);
+    if (!c) return;
+    c.decision = decision;
+    setAppState(initialState);
+  },
+  onReclassify: (id, type) => {
+    const c = initialState.candidates?.find((x) => x.id === id);
+    if (!c) return;
+    c.type = type;
+    setAppState(initialState);
+  },
+  onSelectCandidate: async (id) => {
+    const c = initialState.candidates?.find((x) => x.id === id);
+    if (!c || initialState.running) return;
+    initialState.selectedCandidateId = id;
+    setAppState(initialState);
+    if (initialState.scope === "selection") {
+      appendLog("Jumping to a candidate would move the selection the run applies to, so it is off in selection scope.");
       return;
     }
-    initialState.running = true;
-    initialState.lastResult = null;
-    initialState.logs = [];
+    try {
+      const found = await selectCandidate(c, redactionOptions());
+      const shown = initialState.revealValues ? c.value : maskValue(c.value);
+      if (!found) appendLog(`Could not locate "${shown}" in the document (it may have been edited).`);
+    } catch (e: any) {
+      appendLog(`Error: ${e?.message ?? String(e)}`);
+    }
+  },
+  onToggleSettings: () => {
+    initialState.view = initialState.view === "settings" ? "main" : "settings";
+    initialState.settingsError = null;
+    initialState.termListsError = null;
+    setAppState(initialState);
+  },
+  onSavePattern: async (def) => {
+    await updateCustomPatterns([...initialState.customPatterns, def]);
+    if (!initialState.settingsError) resetPatternDraft();
+    setAppState(initialState);
+  },
+  onDeletePattern: async (id) => {
+    await updateCustomPatterns(initialState.customPatterns.filter((p) => p.id !== id));
+    setAppState(initialState);
+  },
+  onStyleChange: async (type, style) => {
+    const next = { ...initialState.styleOverrides };
+    if (style) next[type] = style;
+    else delete next[type];
+    initialState.styleOverrides = next;
+    // Candidates are unaffected: the style only decides what an approved span is replaced with.
     setAppState(initialState);
-
     try {
-      const result = await runRedactionWorkflow((line) => {
-        initialState.logs = [...initialState.logs, line];
-        setAppState(initialState);
-      });
-      initialState.lastResult = result;
-      initialState.logs = [
-        ...initialState.logs,
-        `Done. Redacted: ${result.redactionsTotal} (emails ${result.emails}, phones ${result.phones}, ssns ${result.ssns}, cards ${result.cards}, bank ${result.bankAccounts}, insurance ${result.insurancePolicies}, employeeIds ${result.employeeIds}, mrns ${result.medicalRecordNumbers}). Header updated: ${result.headerUpdated ? "yes" : "no"}. Track Changes: ${result.trackChangesEnabled ? "enabled" : "not available"}.`,
-      ];
+      await saveStyleOverrides(next);
     } catch (e: any) {
-      initialState.logs = [
-        ...initialState.logs,
-        `Error: ${e?.message ?? String(e)}`,
-      ];
-    } finally {
-      initialState.running = false;
+      initialState.settingsError = e?.message ?? String(e);
+      setAppState(initialState);
+    }
+  },
+  onTermListsScopeChange: (scope) => {
+    initialState.termListsScope = scope;
+    initialState.termListsError = null;
+    setAppState(initialState);
+  },
+  onSaveTermLists: (lists) => updateTermLists(lists),
+  onImportTermLists: async (json) => {
+    try {
+      await updateTermLists(parseTermLists(json));
+    } catch (e: any) {
+      initialState.termListsError = `Import failed: ${e?.message ?? String(e)}`;
+      setAppState(initialState);
+    }
+  },
+  onExportTermLists: () => {
+    const scope = initialState.termListsScope;
+    downloadFile(`term-lists-${scope}.json`, exportTermLists(initialState.termLists[scope]));
+  },
+  onScopeChange: (scope) => {
+    initialState.scope = scope;
+    // Candidates refer to offsets in the scope they were scanned with.
+    initialState.candidates = null;
+    setAppState(initialState);
+  },
+  onModeChange: (mode) => {
+    initialState.mode = mode;
+    setAppState(initialState);
+  },
+  onBatchKeyChange: (key) => {
+    // No re-render: the input already shows the value.
+    initialState.batchKey = key;
+  },
+  onExportMapping: async (passphrase) => {
+    const entries = initialState.lastResult?.pseudonyms ?? [];
+    if (entries.length === 0) return;
+    if (passphrase.length < 8) {
+      appendLog("Mapping export: use a passphrase of at least 8 characters.");
+      return;
+    }
+    try {
+      const envelope = await exportMapping(entries, passphrase);
+      downloadFile(`pseudonym-map-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(envelope, null, 2));
+      appendLog(`Exported encrypted mapping (${entries.length} entries).`);
+    } catch (e: any) {
+      appendLog(`Error: ${e?.message ?? String(e)}`);
+    }
+  },
+  onSanitizeChange: (enabled, options) => {
+    initialState.sanitizeEnabled = enabled;
+    initialState.sanitize = options;
+    setAppState(initialState);
+  },
+  onImagesChange: (images) => {
+    initialState.images = images;
+    setAppState(initialState);
+  },
+  onFinalizeChange: (enabled) => {
+    initialState.finalize = enabled;
+    setAppState(initialState);
+  },
+  onRevealValuesChange: (reveal) => {
+    initialState.revealValues = reveal;
+    setAppState(initialState);
+  },
+  onExportAudit: async (format) => {
+    const record = initialState.lastResult?.audit;
+    if (!record) return;
+    const base = `redaction-audit-${record.createdAt.slice(0, 10)}-${record.runId.slice(0, 8)}`;
+    try {
+      if (format === "json") downloadFile(`${base}.json`, auditToJson(record));
+      if (format === "csv") downloadFile(`${base}.csv`, auditToCsv(record), "text/csv");
+      if (format === "certificate") downloadFile(`${base}-certificate.html`, await auditCertificate(record), "text/html");
+      appendLog(`Exported audit record (${format}).`);
+    } catch (e: any) {
+      appendLog(`Error: ${e?.message ?? String(e)}`);
+    }
+  },
+  onProfileChange: (id) => selectProfile(id),
+  onLocalesChange: (locales) => selectLocales(locales),
+  onImportProfiles: async (json) => {
+    if (initialState.profileLocked) return;
+    try {
+      const imported = parseProfiles(json);
+      const ids = new Set(imported.map((p) => p.id));
+      const custom = [...initialState.profiles.filter((p) => !p.builtIn && !ids.has(p.id)), ...imported];
+      await saveCustomProfiles(custom);
+      initialState.profiles = [...initialState.profiles.filter((p) => p.builtIn), ...custom];
       setAppState(initialState);
+      appendLog(`Imported ${imported.length} policy profile(s): ${imported.map((p) => p.name).join(", ")}.`);
+      if (imported[0]) await selectProfile(imported[0].id);
+    } catch (e: any) {
+      appendLog(`Profile import failed: ${e?.message ?? String(e)}`);
+    }
+  },
+  onExportProfile: () => {
+    const profile = currentProfile(initialState);
+    downloadFile(`policy-${profile.id}.json`, exportProfiles([profile]));
+    appendLog(`Exported policy profile "${profile.name}".`);
+  },
+  onVaultChange: (enabled, passphrase) => {
+    initialState.vaultEnabled = enabled;
+    initialState.vaultPassphrase = passphrase;
+    setAppState(initialState);
+  },
+  onExportVault: () => {
+    const vault = initialState.lastResult?.vault;
+    if (!vault) return;
+    downloadFile(`undo-vault-${vault.runId.slice(0, 8)}.json`, JSON.stringify(vault, null, 2));
+    appendLog("Exported the encrypted undo vault. Keep it with the passphrase; it holds the original values.");
+  },
+  onToggleRestore: async () => {
+    initialState.view = initialState.view === "restore" ? "main" : "restore";
+    initialState.settingsError = null;
+    initialState.openedVault = null;
+    initialState.storedVaults = null;
+    setAppState(initialState);
+    if (initialState.view === "restore") await refreshVaults();
+  },
+  onOpenVault: async (runId, passphrase) => {
+    const stored = initialState.storedVaults?.find((v) => v.runId === runId);
+    if (stored) await openStoredVault(stored, passphrase);
+  },
+  onImportVault: async (json, passphrase) => {
+    let stored: StoredVault;
+    try {
+      stored = JSON.parse(json);
+    } catch {
+      initialState.settingsError = "Not a JSON file.";
+      setAppState(initialState);
+      return;
+    }
+    await openStoredVault(stored, passphrase);
+  },
+  onDeleteVault: async (runId) => {
+    try {
+      await removeUndoVault(runId);
+      appendLog(`Removed undo vault ${runId.slice(0, 8)} from the document.`);
+    } catch (e: any) {
+      initialState.settingsError = e?.message ?? String(e);
     }
+    await refreshVaults();
+  },
+  onSelectVaultEntry: (id, selected) => {
+    const opened = initialState.openedVault;
+    if (!opened) return;
+    opened.selected = selected ? [...opened.selected, id] : opened.selected.filter((x) => x !== id);
+    setAppState(initialState);
+  },
+  onRestore: async (selectedOnly) => {
+    const opened = initialState.openedVault;
+    if (!opened) return;
+    const entries = opened.record.entries.filter((e) => !selectedOnly || opened.selected.includes(e.id));
+    await runExclusive(async (log) => {
+      const { restored, notFound } = await restoreRedactions(entries, log);
+      for (const e of notFound) {
+        log(`  Not found: ${initialState.revealValues ? e.original : maskValue(e.original)} (${e.story}, was ${e.replacement})`);
+      }
+      const done = new Set(restored.map((e) => e.id));
+      opened.selected = opened.selected.filter((id) => !done.has(id));
+    });
+  },
+  onCloseVault: () => {
+    initialState.openedVault = null;
+    initialState.settingsError = null;
+    setAppState(initialState);
   },
 });
 
+function redactionOptions(): RedactionOptions {
+  return {
+    profile: currentProfile(initialState),
+    locales: initialState.locales,
+    styles: initialState.profileLocked ? undefined : initialState.styleOverrides,
+    scope: initialState.scope,
+    mode: initialState.mode,
+    batchKey: initialState.batchKey,
+    sanitize: initialState.sanitizeEnabled ? initialState.sanitize : undefined,
+    images: initialState.images === "off" ? undefined : initialState.images,
+    finalize: initialState.finalize,
+    revealValues: initialState.revealValues,
+    vaultPassphrase: initialState.vaultEnabled ? initialState.vaultPassphrase : undefined,
+    providers: initialState.providers,
+    signal: runController?.signal,
+    onProgress: (progress) => {
+      initialState.progress = progress;
+      updateProgress(initialState);
+    },
+  };
+}
+
+async function selectProfile(id: string) {
+  if (initialState.profileLocked) return;
+  initialState.profileId = id;
+  // Candidates from an earlier scan were produced with the old detector set.
+  initialState.candidates = null;
+  setAppState(initialState);
+  try {
+    await saveSelectedProfileId(id);
+  } catch (e: any) {
+    appendLog(`Could not remember the selected policy: ${e?.message ?? String(e)}`);
+  }
+}
+
+async function selectLocales(locales: DetectorLocale[]) {
+  initialState.locales = ALL_LOCALES.filter((l) => locales.includes(l));
+  // As with a profile change, earlier candidates came from another detector set.
+  initialState.candidates = null;
+  setAppState(initialState);
+  try {
+    await saveActiveLocales(initialState.locales);
+  } catch (e: any) {
+    appendLog(`Could not save the document's regions: ${e?.message ?? String(e)}`);
+  }
+}
+
+function requireVaultPassphrase() {
+  if (initialState.vaultEnabled && !initialState.vaultPassphrase) {
+    throw new Error("Enter a passphrase for the undo vault, or turn the vault off.");
+  }
+}
+
+async function refreshVaults() {
+  try {
+    initialState.storedVaults = await listUndoVaults();
+  } catch (e: any) {
+    initialState.storedVaults = [];
+    initialState.settingsError = e?.message ?? String(e);
+  }
+  setAppState(initialState);
+}
+
+async function openStoredVault(stored: StoredVault, passphrase: string) {
+  try {
+    const record = await openVault(stored, passphrase);
+    initialState.openedVault = { stored, record, selected: record.entries.map((e) => e.id) };
+    initialState.settingsError = null;
+    clearVaultPassphrase();
+  } catch (e: any) {
+    initialState.settingsError = e?.message ?? String(e);
+  }
+  setAppState(initialState);
+}
+
+async function updateCustomPatterns(next: AppState["customPatterns"]) {
+  try {
+    await saveCustomPatterns(next);
+    initialState.customPatterns = next;
+    initialState.settingsError = null;
+    // Candidates from an earlier scan were produced with the old detector set.
+    initialState.candidates = null;
+  } catch (e: any) {
+    initialState.settingsError = e?.message ?? String(e);
+  }
+}
+
+// Saves the lists of the scope shown in the panel; both scopes stay active for detection.
+async function updateTermLists(lists: TermLists) {
+  const scope = initialState.termListsScope;
+  try {
+    await saveTermLists(lists, scope);
+    initialState.termLists = { ...initialState.termLists, [scope]: lists };
+    setTermLists(initialState.termLists.user, initialState.termLists.document);
+    initialState.termListsError = null;
+    resetTermListsDrafts();
+    // Candidates from an earlier scan were produced with the old lists.
+    initialState.candidates = null;
+  } catch (e: any) {
+    initialState.termListsError = e?.message ?? String(e);
+  }
+  setAppState(initialState);
+}
+
+// Shared guard for host operations: ensures the API is present, serializes runs and funnels logs/errors into state.
+async function runExclusive(task: (log: (line: string) => void) => Promise<void>) {
+  if (!initialState.officeReady || initialState.running) return;
+  const host = initialState.host;
+  const available = host === "word" ? typeof Word !== "undefined" && !!Word?.run : HOST_ADAPTERS[host].available();
+  if (!available) {
+    initialState.logs =
+      host === "outlook"
+        ? ["Open the add-in while writing a message: it redacts the subject and body of a draft."]
+        : [
+            `${HOST_NAMES[host]} JavaScript API not available yet.`,
+            `If you're in ${HOST_NAMES[host]}, wait 1–2 seconds and try again.`,
+          ];
+    setAppState(initialState);
+    return;
+  }
+  initialState.running = true;
+  initialState.progress = null;
+  runController = new AbortController();
+  initialState.lastResult = null;
+  initialState.hostResult = null;
+  initialState.compliance = null;
+  initialState.logs = [];
+  setAppState(initialState);
+
+  try {
+    await task(appendLog);
+  } catch (e: any) {
+    appendLog(e instanceof DetectionCancelledError ? e.message : `Error: ${e?.message ?? String(e)}`);
+  } finally {
+    initialState.running = false;
+    initialState.progress = null;
+    runController = null;
+    setAppState(initialState);
+  }
+}
+
+async function runCheck() {
+  await runExclusive(async (log) => {
+    const stamp = initialState.stampWhenClean;
+    initialState.compliance =
+      initialState.host === "word"
+        ? await checkDocument(log, redactionOptions(), stamp)
+        : await checkHost(HOST_ADAPTERS[initialState.host], log, redactionOptions(), AUTO_REDACT_MIN_CONFIDENCE, stamp);
+  });
+}
+
+// Log lines arrive many times per run, so they are added to the pane without rebuilding it.
+function appendLog(line: string) {
+  initialState.logs.push(line);
+  appendLogLine(line);
+}
+
+function summarizeHost(result: HostRedactionResult): string[] {
+  const lines = [
+    `Done. Redactions applied: ${result.redactionsTotal}${result.redactionsTotal ? ` (${formatCounts(result.counts)})` : ""}.${result.heldForReview ? ` Low-confidence hits left alone: ${result.heldForReview}.` : ""}`,
+  ];
+  if (result.flagged.length > 0) {
+    lines.push(`${result.flagged.length} hit(s) could not be changed, or item(s) read, and need a manual fix:`);
+    for (const f of result.flagged) lines.push(`  ${f.label}: ${f.type ? detectorLabel(f.type) : "not scanned"} (${f.reason})`);
+  }
+  return lines;
+}
+
+function summarize(result: RedactionResult): string[] {
+  const held = result.heldForReview ? ` Held for review: ${result.heldForReview}.` : "";
+  const sanitized = result.sanitization.length ? ` Metadata items cleaned: ${result.sanitization.length}.` : "";
+  const tracking = result.finalized ? "finalized (verified)" : result.trackChangesEnabled ? "enabled" : "not available";
+  const failed = result.failed ? ` Failed: ${result.failed} (left unredacted).` : "";
+  const unread = result.images.filter((i) => i.status === "failed" || i.status === "skipped");
+  const label = result.sensitivity ? ` Label: ${result.sensitivity.applied} (score ${result.sensitivity.score}).` : "";
+  return [
+    `${result.cancelled ? "Cancelled." : "Done."} Redacted: ${result.redactionsTotal} (${formatCounts(result.counts)}).${failed}${held}${sanitized} Header updated: ${result.headerUpdated ? "yes" : "no"}.${label} Track Changes: ${tracking}.`,
+    ...result.stories.map((s) => `  ${s.label}: ${s.redacted} (${formatCounts(s.counts)})`),
+    ...result.images
+      .filter((i) => i.status === "masked" || i.status === "removed")
+      .map((i) => `  ${i.label}: ${i.status} (${formatCounts(i.counts)})`),
+    ...(unread.length ? [`Check by hand – pictures not processed: ${unread.map((i) => i.label).join(", ")}.`] : []),
+  ];
+}
+
+async function loadProfiles() {
+  const { profiles, profileId, locked } = await resolveProfiles();
+  initialState.profiles = profiles;
+  initialState.profileId = profileId;
+  initialState.profileLocked = locked;
+  setAppState(initialState);
+}
+
+async function loadProviders() {
+  const providers = await loadDetectionProviders();
+  if (providers.length === 0) return;
+  initialState.providers = providers;
+  appendLog(`Detection providers: ${providers.map((p) => `${p.name} (${p.url})`).join(", ")}.`);
+  setAppState(initialState);
+}
+
 function bootInOffice(info?: { host?: string; platform?: string }) {
   const host = info?.host ?? Office?.context?.host;
   const platform = info?.platform ?? Office?.context?.platform;
 
-  const isWordHost =
-    host === Office?.HostType?.Word ||
-    host?.toString?.().toLowerCase?.() === "word";
+  const kind = hostKind(host);
+
+  initialState.customPatterns = loadCustomPatterns();
+  initialState.styleOverrides = loadStyleOverrides();
+  initialState.termLists = { user: loadTermLists("user"), document: loadTermLists("document") };
+  setTermLists(initialState.termLists.user, initialState.termLists.document);
+  initialState.locales = loadActiveLocales();
+  initialState.checkOnOpen = isCheckOnOpen();
+  // The ribbon's Check document button (and check-on-open) load the taskpane with ?command=check.
+  const launchedToCheck = new URLSearchParams(window.location.search).get("command") === "check";
+  void Promise.all([loadProfiles(), loadProviders()]).then(() => {
+    if (launchedToCheck && kind) void runCheck();
+  });
 
   // Don't require Word.run at boot time—Word can populate its globals slightly after onReady in some hosts.
-  initialState.officeReady = isWordHost;
-  initialState.logs = isWordHost
+  initialState.officeReady = kind !== null;
+  initialState.host = kind ?? "word";
+  initialState.logs = kind
     ? [
-        `Ready in Word${platform ? ` (${platform})` : ""}.`,
-        "Tip: If the button says Word API isn't available yet, wait a moment and retry.",
+        `Ready in ${HOST_NAMES[kind]}${platform ? ` (${platform})` : ""}.`,
+        `Tip: If the button says the ${HOST_NAMES[kind]} API isn't available yet, wait a moment and retry.`,
       ]
     : [
         `Loaded in Office host: ${host ?? "unknown"}.`,
-        "This challenge must run inside Microsoft Word.",
-        "Open Word (web or desktop), sideload the manifest, and open the taskpane there.",
+        "This add-in runs in Word, Excel, PowerPoint and Outlook (while writing a message).",
       ];
   setAppState(initialState);
 }
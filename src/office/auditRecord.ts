@@ -0,0 +1,292 @@
+import { detectorLabel, LOCALES } from "./detectorRegistry";
+import { randomHex, sha256Hex } from "./crypto";
+import type { ImageFinding, ImageStatus } from "./imageRedaction";
+import type { RedactionMode } from "./pseudonymizer";
+import type { RedactionScope } from "./redactionScope";
+import { alnumCount, describeStyle, maskChars, type RedactionStyle } from "./redactionStyles";
+import type { SanitizeFinding, SanitizeOptions } from "./sanitizeMetadata";
+import type { Detector, DetectorLocale, SensitiveMatch, SensitiveType } from "./sensitivePatterns";
+import { readSetting, writeSetting } from "./settingsStore";
+
+declare const Office: any;
+
+export const AUDIT_FORMAT = "redaction-audit";
+
+// What happened to one detected span. "held": below the auto-redact confidence in a one-click
+// run; "notApproved": rejected or left pending in the review flow; "failed": Word rejected the
+// chunk it was in; "cancelled": the run was stopped before reaching it.
+export type AuditAction = "redacted" | "pseudonymized" | "held" | "notApproved" | "failed" | "cancelled";
+
+export type AuditEntry = {
+  type: SensitiveType;
+  rule: string;
+  confidence: number;
+  action: AuditAction;
+  storyId: string;
+  story: string;
+  // Zero-based paragraph and character offset within the scanned text of the story: the whole
+  // story, the selection, or (incremental runs) only the new and changed paragraphs.
+  paragraph: number;
+  offset: number;
+  length: number;
+  // SHA-256 of the record's salt and the normalized value (see hashValue); never the value itself.
+  valueHash: string;
+  replacement?: string;
+  // Why this type won over overlapping hits of other detectors (see MatchResolution).
+  resolution?: string;
+};
+
+export type DetectorConfig = {
+  id: SensitiveType;
+  label: string;
+  builtIn: boolean;
+  confidence?: number;
+  keywords?: string[];
+  replacement: string;
+  // How replacements were written; the label template when absent.
+  style?: RedactionStyle;
+  // Regex source, for custom patterns (built-ins are identified by id and the app version).
+  pattern?: string;
+};
+
+// Structured evidence of one run, suitable for a case file. Contains no raw sensitive values.
+export type AuditRecord = {
+  format: typeof AUDIT_FORMAT;
+  version: 1;
+  runId: string;
+  documentId: string;
+  documentName: string;
+  createdAt: string;
+  policy: { id: string; name: string; classification: string };
+  workflow: "oneClick" | "reviewed";
+  scope: RedactionScope;
+  // Regions whose national identifiers were looked for.
+  locales: DetectorLocale[];
+  mode: RedactionMode;
+  finalized: boolean;
+  // Stopped by the user part-way; entries marked "cancelled" were left untouched.
+  cancelled: boolean;
+  trackChangesEnabled: boolean;
+  autoRedactMinConfidence: number;
+  detectors: DetectorConfig[];
+  sanitize: SanitizeOptions | null;
+  counts: Record<SensitiveType, number>;
+  redactionsTotal: number;
+  heldForReview: number;
+  hash: { algorithm: "SHA-256"; salt: string };
+  entries: AuditEntry[];
+  sanitization: SanitizeFinding[];
+  // Pictures the OCR pass looked at, including those it could not read; empty when it did not run.
+  // Entries for text found in a picture use the finding's id as their storyId.
+  images: ImageFinding[];
+};
+
+export type AuditInput = Omit<
+  AuditRecord,
+  "format" | "version" | "runId" | "documentId" | "documentName" | "createdAt" | "detectors" | "hash" | "entries"
+> & {
+  detectors: Detector[];
+  spans: Array<{ match: SensitiveMatch; action: AuditAction; storyId: string; story: string; text: string; replacement?: string }>;
+};
+
+const DOCUMENT_ID_KEY = "documentId";
+
+export async function buildAuditRecord(input: AuditInput): Promise<AuditRecord> {
+  const { spans, detectors, ...rest } = input;
+  const salt = randomHex(16);
+  const entries: AuditEntry[] = [];
+  for (const { match, action, storyId, story, text, replacement } of spans) {
+    const paragraphStart = text.lastIndexOf("\n", match.start - 1) + 1;
+    entries.push({
+      type: match.type,
+      rule: match.rule,
+      confidence: match.confidence,
+      action,
+      storyId,
+      story,
+      paragraph: text.slice(0, match.start).split("\n").length - 1,
+      offset: match.start - paragraphStart,
+      length: match.end - match.start,
+      valueHash: await hashValue(salt, match.value),
+      replacement,
+      resolution: match.resolution?.reason,
+    });
+  }
+
+  return {
+    format: AUDIT_FORMAT,
+    version: 1,
+    runId: crypto.randomUUID(),
+    ...(await documentIdentity()),
+    createdAt: new Date().toISOString(),
+    ...rest,
+    detectors: detectors.map((d) => ({
+      id: d.id,
+      label: d.label,
+      builtIn: d.builtIn === true,
+      confidence: d.confidence,
+      keywords: d.keywords?.length ? d.keywords : undefined,
+      replacement: d.replacement,
+      style: d.style,
+      pattern: d.builtIn ? undefined : d.pattern?.source,
+    })),
+    hash: { algorithm: "SHA-256", salt },
+    entries,
+  };
+}
+
+/** Lets an auditor holding a candidate value check it against an entry's `valueHash`. */
+export async function hashValue(salt: string, value: string): Promise<string> {
+  return await sha256Hex(`${salt}\u0000${value.trim().toLowerCase().replace(/\s+/g, " ")}`);
+}
+
+/** Hide all but the last four letters/digits (all of them for short values); separators stay. */
+export function maskValue(value: string): string {
+  return maskChars(value, alnumCount(value) >= 8 ? 4 : 0);
+}
+
+export function auditToJson(record: AuditRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+const CSV_COLUMNS = [
+  "runId",
+  "documentId",
+  "createdAt",
+  "type",
+  "label",
+  "rule",
+  "confidence",
+  "action",
+  "story",
+  "paragraph",
+  "offset",
+  "length",
+  "valueHash",
+  "replacement",
+  "resolution",
+] as const;
+
+/** One row per detected span, with the run's identifiers repeated so rows can be merged across runs. */
+export function auditToCsv(record: AuditRecord): string {
+  const rows = record.entries.map((e) =>
+    [
+      record.runId,
+      record.documentId,
+      record.createdAt,
+      e.type,
+      detectorLabel(e.type),
+      e.rule,
+      e.confidence,
+      e.action,
+      e.story,
+      e.paragraph,
+      e.offset,
+      e.length,
+      e.valueHash,
+      e.replacement ?? "",
+      e.resolution ?? "",
+    ].map(csvCell),
+  );
+  return [CSV_COLUMNS.join(","), ...rows.map((r) => r.join(","))].join("\r\n") + "\r\n";
+}
+
+/**
+ * Printable HTML certificate for the case file. Its digest is the SHA-256 of the JSON export, so
+ * the certificate can be matched to the exact record it summarizes.
+ */
+export async function auditCertificate(record: AuditRecord): Promise<string> {
+  const digest = await sha256Hex(auditToJson(record));
+  const byAction = (action: AuditAction) => record.entries.filter((e) => e.action === action).length;
+  const rows = (pairs: Array<[string, string | number]>) =>
+    pairs.map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(String(v))}</td></tr>`).join("");
+  const counts = Object.entries(record.counts).filter(([, n]) => n > 0);
+  const pictures = (statuses: ImageStatus[]) => record.images.filter((i) => statuses.includes(i.status));
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Redaction certificate – ${escapeHtml(record.documentName)}</title>
+<style>body{font:14px/1.5 system-ui,sans-serif;max-width:720px;margin:40px auto;color:#111}h1{font-size:22px}
+table{border-collapse:collapse;width:100%;margin:12px 0}th,td{border:1px solid #ccc;padding:6px 8px;text-align:left;vertical-align:top}
+th{width:40%;background:#f5f5f5;font-weight:600}code{font-size:12px;word-break:break-all}</style></head>
+<body>
+<h1>Redaction certificate</h1>
+<p>This certifies that the document below was processed by the Document Redaction add-in. Sensitive values are not
+reproduced here; each is recorded in the audit record only as a salted SHA-256 hash.</p>
+<table>${rows([
+    ["Document", record.documentName],
+    ["Document ID", record.documentId],
+    ["Run ID", record.runId],
+    ["Policy", record.policy.name],
+    ["Classification", record.policy.classification || "—"],
+    ["Date (UTC)", record.createdAt],
+    ["Workflow", record.workflow === "reviewed" ? "Reviewed and approved" : "One-click"],
+    ["Scope", { document: "Whole document", selection: "Selection only", incremental: "New or changed content" }[record.scope]],
+    ["Regions", LOCALES.filter((l) => record.locales.includes(l.id)).map((l) => l.label).join(", ") || "—"],
+    ["Mode", record.mode === "pseudonymize" ? "Pseudonymization" : "Redaction"],
+    ["Finalized (revisions accepted, verified)", record.finalized ? "Yes" : "No"],
+    ["Completed", record.cancelled ? "No – cancelled by the user" : "Yes"],
+    ["Track Changes", record.trackChangesEnabled ? "Enabled" : "Off"],
+    ["Auto-redact minimum confidence", record.autoRedactMinConfidence],
+  ])}</table>
+<h2>Results</h2>
+<table>${rows([
+    ["Spans replaced", record.redactionsTotal],
+    ["Held for review (low confidence)", byAction("held")],
+    ["Not approved by reviewer", byAction("notApproved")],
+    ["Failed in Word (left unredacted)", byAction("failed")],
+    ["Not processed (run cancelled)", byAction("cancelled")],
+    ["Metadata items cleaned", record.sanitization.length],
+    ["Pictures masked or removed (OCR)", pictures(["masked", "removed"]).length],
+    ["Pictures not processed (check by hand)", pictures(["failed", "skipped"]).map((i) => i.label).join(", ") || "—"],
+    ...counts.map(([id, n]): [string, number] => [detectorLabel(id), n]),
+  ])}</table>
+<h2>Detectors</h2>
+<p>${escapeHtml(record.detectors.map(detectorSummary).join(", "))}</p>
+<h2>Record digest</h2>
+<p><code>SHA-256 ${digest}</code><br>Computed over the JSON audit record exported from the same run.</p>
+</body></html>
+`;
+}
+
+function detectorSummary(d: DetectorConfig): string {
+  const notes: string[] = [];
+  if (!d.builtIn) notes.push("custom");
+  if (d.style && d.style.kind !== "label") notes.push(describeStyle(d.style).toLowerCase());
+  return notes.length ? `${d.label} (${notes.join(", ")})` : d.label;
+}
+
+// The id is stored in the document's own settings on first use, so it travels with the file and
+// stays stable across renames; the name comes from the file URL when the host exposes one.
+async function documentIdentity(): Promise<{ documentId: string; documentName: string }> {
+  const url: string = (typeof Office !== "undefined" && Office?.context?.document?.url) || "";
+  const documentName = decodeFileName(url.split(/[\\/]/).pop() || "") || "Untitled document";
+
+  let documentId = readSetting<string>(DOCUMENT_ID_KEY, "document", "");
+  if (!documentId) {
+    documentId = crypto.randomUUID();
+    try {
+      await writeSetting(DOCUMENT_ID_KEY, documentId, "document");
+    } catch {
+      // Read-only document: the id is still valid for this record.
+    }
+  }
+  return { documentId, documentName };
+}
+
+// A local path may hold a literal "%" ("100% final.docx") that is not an escape; keep it as is.
+function decodeFileName(name: string): string {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,109 @@
+import { activeCustomPatterns } from "./detectorRegistry";
+import { scanInChunks, type DetectionConfig, type DetectionText, type WorkerReply, type WorkerRequest } from "./detectionChunks";
+import { profileDetectors, type PolicyProfile } from "./policyProfiles";
+import type { RedactionStyle } from "./redactionStyles";
+import type { DetectorLocale, SensitiveMatch, SensitiveType } from "./sensitivePatterns";
+import { activeTermLists } from "./termLists";
+
+// Detection for the taskpane without blocking it. The scan runs in a worker (detectionWorker)
+// when the browser has module workers, and otherwise on this thread with a pause between
+// windows; either way matches stream in window by window and the scan stops when the signal fires.
+
+export type DetectedMatch = SensitiveMatch & { storyId: string };
+
+export type DetectionControl = {
+  signal?: AbortSignal;
+  // Each window's matches as it is scanned, with the characters scanned so far.
+  onMatches?: (matches: DetectedMatch[], done: number, total: number) => void;
+};
+
+export class DetectionCancelledError extends Error {
+  constructor() {
+    super("Cancelled while scanning; nothing was redacted.");
+    this.name = "DetectionCancelledError";
+  }
+}
+
+/** The detectors `profile` runs in this pane, with the current custom patterns and term lists. */
+export function detectionConfig(
+  profile: PolicyProfile,
+  locales?: DetectorLocale[],
+  styles?: Record<SensitiveType, RedactionStyle>,
+): DetectionConfig {
+  return { profile, locales, styles, customPatterns: activeCustomPatterns(), termLists: activeTermLists() };
+}
+
+/**
+ * Every match in `texts`, in text order. Throws DetectionCancelledError when `control.signal`
+ * fires first; matches already streamed through `onMatches` are then all there is.
+ */
+export async function detectMatches(
+  texts: DetectionText[],
+  config: DetectionConfig,
+  control: DetectionControl = {},
+): Promise<DetectedMatch[]> {
+  const found: DetectedMatch[] = [];
+  const collect = (storyId: string, matches: SensitiveMatch[], done: number, total: number) => {
+    const detected = matches.map((m) => ({ ...m, storyId }));
+    found.push(...detected);
+    control.onMatches?.(detected, done, total);
+  };
+
+  const worker = startWorker();
+  const ran = worker ? await inWorker(worker, { texts, config }, control.signal, collect) : false;
+  // A worker that failed before its first reply (blocked or unsupported) leaves the scan to this thread.
+  if (!ran) await inThread(texts, config, control.signal, collect);
+  return found;
+}
+
+function startWorker(): Worker | null {
+  if (typeof Worker === "undefined") return null;
+  try {
+    return new Worker(new URL("./detectionWorker.ts", import.meta.url), { type: "module" });
+  } catch {
+    return null;
+  }
+}
+
+type Collect = (storyId: string, matches: SensitiveMatch[], done: number, total: number) => void;
+
+// Resolves false when the worker failed before replying at all.
+function inWorker(worker: Worker, request: WorkerRequest, signal: AbortSignal | undefined, collect: Collect): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    let replied = false;
+    const finish = (error: Error | null, ran = true) => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+      if (error) reject(error);
+      else resolve(ran);
+    };
+    const abort = () => finish(new DetectionCancelledError());
+    if (signal?.aborted) return abort();
+    signal?.addEventListener("abort", abort);
+
+    worker.onmessage = ({ data }: MessageEvent<WorkerReply>) => {
+      replied = true;
+      if (data.type === "chunk") collect(data.chunk.storyId, data.chunk.matches, data.chunk.done, data.chunk.total);
+      else if (data.type === "done") finish(null);
+      else finish(new Error(`Detection failed: ${data.message}`));
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      if (replied) finish(new Error(`Detection failed: ${event.message || "the worker stopped"}`));
+      else finish(null, false);
+    };
+    worker.postMessage(request);
+  });
+}
+
+async function inThread(texts: DetectionText[], config: DetectionConfig, signal: AbortSignal | undefined, collect: Collect) {
+  // The pane's own custom patterns and term lists are already installed here.
+  const detectors = profileDetectors(config.profile, config.locales, config.styles);
+  for (const chunk of scanInChunks(texts, detectors)) {
+    if (signal?.aborted) throw new DetectionCancelledError();
+    collect(chunk.storyId, chunk.matches, chunk.done, chunk.total);
+    // Let the pane repaint and handle Cancel between windows.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  if (signal?.aborted) throw new DetectionCancelledError();
+}
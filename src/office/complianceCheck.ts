@@ -0,0 +1,186 @@
+import { sha256Hex } from "./crypto";
+import { detectorLabel } from "./detectorRegistry";
+import type { PolicyProfile } from "./policyProfiles";
+import type { SensitiveMatch, SensitiveType } from "./sensitivePatterns";
+import { readSetting, writeSetting } from "./settingsStore";
+
+declare const Office: any;
+
+// Pre-distribution check: the active profile's detectors run over every story without changing
+// anything. Findings at or above the auto-redact confidence fail the check; weaker ones (partial
+// names, bare street lines) are listed as warnings and don't.
+
+// A piece of text the check covers: a Word story, an Excel cell, a slide shape, a mail subject.
+export type CheckedText = { id: string; label: string; text: string };
+
+export type ComplianceFinding = {
+  type: SensitiveType;
+  value: string;
+  // Where the value is (CheckedText id and label).
+  storyId: string;
+  storyLabel: string;
+  context: string;
+  confidence: number;
+  blocking: boolean;
+};
+
+export type ComplianceReport = {
+  passed: boolean;
+  profileId: string;
+  profileName: string;
+  checkedAt: string;
+  // SHA-256 over every checked text; identifies the content the verdict is about.
+  documentHash: string;
+  // Blocking findings first, then warnings, each in document order.
+  findings: ComplianceFinding[];
+  blocking: number;
+  warnings: number;
+};
+
+// Written to the document's settings after a passing check. It is only evidence for the exact
+// content that was checked: any edit changes the hash and makes the stamp stale.
+export type CleanStamp = {
+  documentHash: string;
+  checkedAt: string;
+  profileId: string;
+  profileName: string;
+};
+
+export type StampStatus = "valid" | "stale" | "none";
+
+export type ComplianceCheck = {
+  report: ComplianceReport;
+  // The document's verified-clean stamp after the check, and whether it covered the checked content.
+  stamp: CleanStamp | null;
+  stampStatus: StampStatus;
+};
+
+const STAMP_KEY = "cleanStamp";
+// Host-defined document setting: when true, Word opens the taskpane whose TaskpaneId is
+// "Office.AutoShowTaskpaneWithDocument" (the manifest's Check document button) with the file.
+const AUTO_SHOW_KEY = "Office.AutoShowTaskpaneWithDocument";
+const CONTEXT_CHARS = 40;
+
+/** The verdict on `texts` given the `matches` detected in them (with the id of their text). */
+export async function evaluateCompliance(
+  texts: CheckedText[],
+  matches: Array<SensitiveMatch & { storyId: string }>,
+  profile: PolicyProfile,
+  minConfidence: number,
+): Promise<ComplianceReport> {
+  const byId = new Map(texts.map((t) => [t.id, t]));
+  const findings = matches.flatMap((m): ComplianceFinding[] => {
+    const checked = byId.get(m.storyId);
+    if (!checked) return [];
+    return [
+      {
+        type: m.type,
+        value: m.value,
+        storyId: m.storyId,
+        storyLabel: checked.label,
+        context: snippet(checked.text, m.start, m.end),
+        confidence: m.confidence,
+        blocking: m.confidence >= minConfidence,
+      },
+    ];
+  });
+  findings.sort((a, b) => Number(b.blocking) - Number(a.blocking));
+  const blocking = findings.filter((f) => f.blocking).length;
+  return {
+    passed: blocking === 0,
+    profileId: profile.id,
+    profileName: profile.name,
+    checkedAt: new Date().toISOString(),
+    documentHash: await documentHash(texts),
+    findings,
+    blocking,
+    warnings: findings.length - blocking,
+  };
+}
+
+/**
+ * Log the verdict and settle the verified-clean stamp: written when `stamp` is set and the check
+ * passed, otherwise compared with the checked content. Hosts without document settings (Outlook)
+ * have no stamp.
+ */
+export async function concludeCheck(
+  report: ComplianceReport,
+  stamp: boolean,
+  log: (line: string) => void,
+): Promise<ComplianceCheck> {
+  if (report.passed) {
+    log(`Check passed (${report.profileName}): nothing that must be redacted${report.warnings ? `; ${report.warnings} low-confidence hit(s) to look at` : ""}.`);
+  } else {
+    const counts = new Map<SensitiveType, number>();
+    for (const f of report.findings) if (f.blocking) counts.set(f.type, (counts.get(f.type) ?? 0) + 1);
+    const summary = [...counts].map(([type, n]) => `${n} ${detectorLabel(type)}`).join(", ");
+    log(`Check failed (${report.profileName}): ${report.blocking} finding(s) must be redacted first (${summary}).`);
+  }
+  if (!hasDocumentSettings()) return { report, stamp: null, stampStatus: "none" };
+
+  let current = readCleanStamp();
+  let status = stampStatus(current, report.documentHash);
+  if (stamp && report.passed) {
+    current = await writeCleanStamp(report);
+    status = "valid";
+    log("Verified-clean stamp written to the document's settings.");
+  } else if (status === "stale") {
+    log(`The document's verified-clean stamp (${current?.checkedAt}) no longer matches its content.`);
+  }
+  return { report, stamp: current, stampStatus: status };
+}
+
+export async function documentHash(texts: CheckedText[]): Promise<string> {
+  return sha256Hex(texts.map(({ id, text }) => `${id}\n${text}`).join("\n\u0000\n"));
+}
+
+export function readCleanStamp(): CleanStamp | null {
+  return readSetting<CleanStamp | null>(STAMP_KEY, "document", null);
+}
+
+/** Record a passing report as the document's verified-clean stamp. */
+export async function writeCleanStamp(report: ComplianceReport): Promise<CleanStamp> {
+  if (!report.passed) throw new Error("Only a passing check can be stamped.");
+  const stamp: CleanStamp = {
+    documentHash: report.documentHash,
+    checkedAt: report.checkedAt,
+    profileId: report.profileId,
+    profileName: report.profileName,
+  };
+  await writeSetting(STAMP_KEY, stamp, "document");
+  return stamp;
+}
+
+export function stampStatus(stamp: CleanStamp | null, currentHash: string): StampStatus {
+  if (!stamp) return "none";
+  return stamp.documentHash === currentHash ? "valid" : "stale";
+}
+
+export function hasDocumentSettings(): boolean {
+  return typeof Office !== "undefined" && !!Office?.context?.document?.settings;
+}
+
+export function isCheckOnOpen(): boolean {
+  return hasDocumentSettings() && Office.context?.document?.settings?.get(AUTO_SHOW_KEY) === true;
+}
+
+/** Have Word open the check with this document from now on (stored in the file). */
+export async function setCheckOnOpen(enabled: boolean): Promise<void> {
+  const settings = hasDocumentSettings() ? Office.context.document.settings : null;
+  if (!settings) throw new Error("This host can't store document settings.");
+  if (enabled) settings.set(AUTO_SHOW_KEY, true);
+  else settings.remove(AUTO_SHOW_KEY);
+  await new Promise<void>((resolve, reject) =>
+    settings.saveAsync((res: any) =>
+      res?.status === Office.AsyncResultStatus?.Failed
+        ? reject(new Error(res?.error?.message ?? "Could not save settings."))
+        : resolve(),
+    ),
+  );
+}
+
+function snippet(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - CONTEXT_CHARS);
+  const to = Math.min(text.length, end + CONTEXT_CHARS);
+  return `${from > 0 ? "…" : ""}${text.slice(from, to).replace(/\s+/g, " ").trim()}${to < text.length ? "…" : ""}`;
+}
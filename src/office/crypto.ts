@@ -0,0 +1,103 @@
+// WebCrypto helpers shared by the pseudonym mapping export and other encrypted artifacts.
+// Everything runs locally in the taskpane; nothing is sent anywhere.
+
+// Serialized form of an encrypted payload. Self-describing so it can be decrypted later by
+// anyone holding the passphrase, without knowing how it was produced.
+export type EncryptedEnvelope = {
+  format: string;
+  version: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  ciphertext: string;
+};
+
+const PBKDF2_ITERATIONS = 250_000;
+
+export async function encryptJson(format: string, value: unknown, passphrase: string): Promise<EncryptedEnvelope> {
+  if (!passphrase) throw new Error("A passphrase is required.");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+
+  return {
+    format,
+    version: 1,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+export async function decryptJson<T>(envelope: EncryptedEnvelope, passphrase: string, format: string): Promise<T> {
+  if (envelope?.format !== format || envelope.version !== 1) {
+    throw new Error(`Not a ${format} file (or an unsupported version).`);
+  }
+  const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(envelope.cipher.iv) },
+      key,
+      fromBase64(envelope.ciphertext),
+    );
+  } catch {
+    // AES-GCM authentication failure: wrong passphrase or tampered file.
+    throw new Error("Wrong passphrase, or the file has been modified.");
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+/** HMAC-SHA256 of `data` keyed with `secret`, as lowercase hex. */
+export async function hmacHex(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data));
+  return toHex(new Uint8Array(sig));
+}
+
+/** SHA-256 of the UTF-8 bytes of `data`, as lowercase hex. */
+export async function sha256Hex(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data));
+  return toHex(new Uint8Array(digest));
+}
+
+export function randomHex(bytes: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return await crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+function toHex(bytes: Uint8Array): string {
+  return [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
+
+function fromBase64(b64: string): Uint8Array {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
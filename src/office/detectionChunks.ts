@@ -0,0 +1,81 @@
+import { setCustomPatterns, type CustomPatternDef } from "./detectorRegistry";
+import { profileDetectors, type PolicyProfile } from "./policyProfiles";
+import type { RedactionStyle } from "./redactionStyles";
+import { findSensitiveMatches, type Detector, type DetectorLocale, type SensitiveMatch, type SensitiveType } from "./sensitivePatterns";
+import { setTermLists, type TermLists } from "./termLists";
+
+// Chunked detection, shared by the detection worker and its in-thread fallback (see
+// backgroundDetection). Each text is scanned in windows of CHUNK_SIZE characters of its own plus
+// CHUNK_OVERLAP on either side, and a window keeps only the matches that start in its own part:
+// a value straddling two windows is found whole by the first, and the lead-in gives keyword and
+// boundary checks the text before it. A value longer than the overlap may be cut short.
+
+export const CHUNK_SIZE = 20_000;
+export const CHUNK_OVERLAP = 400;
+
+export type DetectionText = { id: string; text: string };
+
+// Everything a worker needs to build the pane's detectors. Detectors hold functions, which can't
+// be posted, so they are rebuilt from the same settings on the other side.
+export type DetectionConfig = {
+  profile: PolicyProfile;
+  locales?: DetectorLocale[];
+  styles?: Record<SensitiveType, RedactionStyle>;
+  customPatterns: CustomPatternDef[];
+  termLists: TermLists[];
+};
+
+// The matches of one window, with offsets into the whole text, and the characters scanned so far.
+export type DetectionChunk = { storyId: string; matches: SensitiveMatch[]; done: number; total: number };
+
+export type WorkerRequest = { texts: DetectionText[]; config: DetectionConfig };
+
+export type WorkerReply =
+  | { type: "chunk"; chunk: DetectionChunk }
+  | { type: "done" }
+  | { type: "error"; message: string };
+
+export type ChunkWindow = {
+  // Matches starting in [start, end) belong to this window…
+  start: number;
+  end: number;
+  // …which scans [from, to).
+  from: number;
+  to: number;
+};
+
+export function chunkWindows(length: number, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): ChunkWindow[] {
+  const windows: ChunkWindow[] = [];
+  for (let start = 0; start < length; start += size) {
+    const end = Math.min(length, start + size);
+    windows.push({ start, end, from: Math.max(0, start - overlap), to: Math.min(length, end + overlap) });
+  }
+  return windows;
+}
+
+/** Install `config`'s custom patterns and term lists and return its profile's detectors. */
+export function configureDetectors(config: DetectionConfig): Detector[] {
+  setCustomPatterns(config.customPatterns);
+  setTermLists(...config.termLists);
+  return profileDetectors(config.profile, config.locales, config.styles);
+}
+
+/** Scan `texts` window by window, in order; each chunk's matches are sorted like findSensitiveMatches'. */
+export function* scanInChunks(
+  texts: DetectionText[],
+  detectors: Detector[],
+  size = CHUNK_SIZE,
+  overlap = CHUNK_OVERLAP,
+): Generator<DetectionChunk> {
+  const total = texts.reduce((n, t) => n + t.text.length, 0);
+  let done = 0;
+  for (const { id, text } of texts) {
+    for (const w of chunkWindows(text.length, size, overlap)) {
+      const matches = findSensitiveMatches(text.slice(w.from, w.to), detectors)
+        .map((m) => ({ ...m, start: m.start + w.from, end: m.end + w.from }))
+        .filter((m) => m.start >= w.start && m.start < w.end);
+      done += w.end - w.start;
+      yield { storyId: id, matches, done, total };
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import type { DetectedMatch } from "./backgroundDetection";
+import { chunkWindows, type DetectionText } from "./detectionChunks";
+import type { SensitiveType } from "./sensitivePatterns";
+import { isAllowlisted } from "./termLists";
+
+// External detection services (an organization's DLP or NER endpoint) whose findings are merged
+// with the built-in detectors. The contract is one HTTP POST per scan:
+//
+//   request:  { version: 1, chunks: [{ id, text }], types: ["email", "personName", …] }
+//   response: { spans: [{ chunkId, type, start, end, confidence }] }
+//
+// `start`/`end` are offsets into the chunk's text (end exclusive) and `confidence` is 0–1. Texts
+// are cut into the same overlapping windows as local detection; a span counts for the window it
+// starts in, so a value in an overlap is not reported twice. A provider that fails, answers
+// badly or takes longer than its timeout is skipped and the run continues with local detection.
+
+export const PROVIDER_PROTOCOL_VERSION = 1;
+
+export type ProviderChunk = { id: string; text: string };
+
+export type ProviderRequest = {
+  version: typeof PROVIDER_PROTOCOL_VERSION;
+  chunks: ProviderChunk[];
+  // Detector ids the active profile runs; the provider may ignore the rest.
+  types: SensitiveType[];
+};
+
+export type ProviderSpan = {
+  chunkId: string;
+  type: string;
+  start: number;
+  end: number;
+  confidence: number;
+};
+
+export type ProviderResponse = { spans: ProviderSpan[] };
+
+export type DetectionProvider = {
+  id: string;
+  name: string;
+  url: string;
+  // Milliseconds to wait for the response; DEFAULT_PROVIDER_TIMEOUT_MS when omitted.
+  timeoutMs?: number;
+  // Sent with the request, e.g. an API key header the service expects.
+  headers?: Record<string, string>;
+  // The provider's own type names mapped to detector ids ("PERSON" → "personName"). Types that
+  // are neither mapped nor a detector id the profile runs are ignored.
+  types?: Record<string, SensitiveType>;
+};
+
+// Deployed next to the add-in by an administrator (see README).
+export type ProvidersFile = { providers: DetectionProvider[] };
+
+export type ProviderOutcome = {
+  provider: DetectionProvider;
+  status: "ok" | "timeout" | "failed";
+  matches: DetectedMatch[];
+  // Spans dropped: unknown type, bad offsets or allowlisted value.
+  ignored: number;
+  detail?: string;
+};
+
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 5000;
+
+const PROVIDERS_FILE = "detection-providers.json";
+
+/**
+ * Fetch the configured providers from the add-in's own origin. Absent (the usual case) or
+ * malformed files yield none, so detection stays local.
+ */
+export async function loadDetectionProviders(): Promise<DetectionProvider[]> {
+  try {
+    const res = await fetch(`${import.meta.env.BASE_URL}${PROVIDERS_FILE}`, { cache: "no-store" });
+    if (!res.ok) return [];
+    return parseProviders(await res.json());
+  } catch {
+    return [];
+  }
+}
+
+/** Validate a providers file. Throws with a message naming the first problem. */
+export function parseProviders(data: any): DetectionProvider[] {
+  if (!Array.isArray(data?.providers)) throw new Error('"providers" must be a list.');
+  return data.providers.map((p: any, i: number) => {
+    const where = typeof p?.id === "string" ? `Provider "${p.id}"` : `Provider ${i + 1}`;
+    if (typeof p?.id !== "string" || !p.id.trim()) throw new Error(`${where}: "id" is required.`);
+    if (typeof p.url !== "string" || !/^https?:\/\//i.test(p.url)) throw new Error(`${where}: "url" must be an http(s) URL.`);
+    if (p.timeoutMs !== undefined && !(Number.isFinite(p.timeoutMs) && p.timeoutMs > 0)) {
+      throw new Error(`${where}: "timeoutMs" must be a positive number.`);
+    }
+    for (const field of ["headers", "types"] as const) {
+      const map = p[field] ?? {};
+      if (typeof map !== "object" || Array.isArray(map) || Object.values(map).some((v) => typeof v !== "string")) {
+        throw new Error(`${where}: "${field}" must map names to strings.`);
+      }
+    }
+    return {
+      id: p.id.trim(),
+      name: typeof p.name === "string" && p.name.trim() ? p.name.trim() : p.id.trim(),
+      url: p.url,
+      ...(p.timeoutMs !== undefined ? { timeoutMs: p.timeoutMs } : {}),
+      ...(p.headers ? { headers: p.headers } : {}),
+      ...(p.types ? { types: p.types } : {}),
+    };
+  });
+}
+
+/**
+ * Ask every provider about `texts` in parallel. Never throws for a provider's sake: each outcome
+ * says whether its matches are usable. Aborting `signal` abandons the requests still open.
+ */
+export async function detectWithProviders(
+  providers: DetectionProvider[],
+  texts: DetectionText[],
+  types: SensitiveType[],
+  signal?: AbortSignal,
+): Promise<ProviderOutcome[]> {
+  const windows = texts.flatMap((t, i) =>
+    chunkWindows(t.text.length).map((w, j) => ({ id: `${i}:${j}`, storyId: t.id, text: t.text, window: w })),
+  );
+  const request: ProviderRequest = {
+    version: PROVIDER_PROTOCOL_VERSION,
+    chunks: windows.map(({ id, text, window }) => ({ id, text: text.slice(window.from, window.to) })),
+    types,
+  };
+  const byId = new Map(windows.map((w) => [w.id, w]));
+  const known = new Set(types);
+
+  return await Promise.all(
+    providers.map(async (provider): Promise<ProviderOutcome> => {
+      const outcome: ProviderOutcome = { provider, status: "ok", matches: [], ignored: 0 };
+      let response: ProviderResponse;
+      try {
+        response = await postWithTimeout(provider, request, signal);
+      } catch (e: any) {
+        const timedOut = e?.name === "TimeoutError";
+        return {
+          ...outcome,
+          status: timedOut ? "timeout" : "failed",
+          detail: timedOut ? `no answer within ${timeoutOf(provider)} ms` : e?.message ?? String(e),
+        };
+      }
+
+      for (const span of response.spans) {
+        const w = byId.get(span?.chunkId);
+        const type = provider.types?.[span?.type] ?? span?.type;
+        const start = (w?.window.from ?? 0) + span?.start;
+        const end = (w?.window.from ?? 0) + span?.end;
+        const usable =
+          w &&
+          known.has(type) &&
+          Number.isInteger(span.start) &&
+          Number.isInteger(span.end) &&
+          span.start >= 0 &&
+          start < end &&
+          end <= w.window.to &&
+          start >= w.window.start &&
+          start < w.window.end;
+        if (!usable) {
+          outcome.ignored += 1;
+          continue;
+        }
+        const match: DetectedMatch = {
+          type,
+          value: w.text.slice(start, end),
+          start,
+          end,
+          confidence: Math.min(1, Math.max(0, Number(span.confidence) || 0)),
+          rule: `provider:${provider.id}`,
+          storyId: w.storyId,
+        };
+        if (isAllowlisted(match)) outcome.ignored += 1;
+        else outcome.matches.push(match);
+      }
+      return outcome;
+    }),
+  );
+}
+
+/**
+ * Local and provider matches as one list in text order per story. Hits on the same span with the
+ * same type are one finding: the most confident is kept, the local one on a tie.
+ */
+export function mergeMatches(local: DetectedMatch[], external: DetectedMatch[]): DetectedMatch[] {
+  const merged = new Map<string, DetectedMatch>();
+  for (const m of [...local, ...external]) {
+    const key = `${m.storyId}\u0000${m.start}\u0000${m.end}\u0000${m.type}`;
+    const kept = merged.get(key);
+    if (!kept || m.confidence > kept.confidence) merged.set(key, m);
+  }
+  const storyOrder = new Map<string, number>();
+  for (const m of [...local, ...external]) if (!storyOrder.has(m.storyId)) storyOrder.set(m.storyId, storyOrder.size);
+  return [...merged.values()].sort(
+    (a, b) => storyOrder.get(a.storyId)! - storyOrder.get(b.storyId)! || a.start - b.start || b.end - a.end,
+  );
+}
+
+async function postWithTimeout(
+  provider: DetectionProvider,
+  request: ProviderRequest,
+  signal?: AbortSignal,
+): Promise<ProviderResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(timeoutError()), timeoutOf(provider));
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) abort();
+  signal?.addEventListener("abort", abort);
+  try {
+    const res = await fetch(provider.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...provider.headers },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json();
+    if (!Array.isArray(data?.spans)) throw new Error('response has no "spans" list');
+    return data as ProviderResponse;
+  } catch (e) {
+    // fetch rejects with the abort reason, or with a generic AbortError on older runtimes.
+    throw controller.signal.aborted && controller.signal.reason?.name === "TimeoutError" ? controller.signal.reason : e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+function timeoutOf(provider: DetectionProvider): number {
+  return provider.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS;
+}
+
+function timeoutError(): Error {
+  const error = new Error("The provider did not answer in time.");
+  error.name = "TimeoutError";
+  return error;
+}
@@ -0,0 +1,19 @@
+import { configureDetectors, scanInChunks, type WorkerReply, type WorkerRequest } from "./detectionChunks";
+
+// Entry point of the worker started by backgroundDetection.detectMatches: one scan per worker,
+// streamed back window by window. Cancelling terminates the worker.
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (reply: WorkerReply) => void;
+};
+
+scope.onmessage = ({ data }) => {
+  try {
+    const detectors = configureDetectors(data.config);
+    for (const chunk of scanInChunks(data.texts, detectors)) scope.postMessage({ type: "chunk", chunk });
+    scope.postMessage({ type: "done" });
+  } catch (e: any) {
+    scope.postMessage({ type: "error", message: e?.message ?? String(e) });
+  }
+};
@@ -0,0 +1,132 @@
+import { ENTITY_DETECTORS } from "./entityDetectors";
+import { INTERNATIONAL_DETECTORS } from "./internationalDetectors";
+import {
+  BUILT_IN_DETECTORS,
+  runDetector,
+  type Detector,
+  type DetectorLocale,
+  type SensitiveMatch,
+  type SensitiveType,
+} from "./sensitivePatterns";
+import { readSetting, writeSetting } from "./settingsStore";
+import { denyListDetectors } from "./termLists";
+
+// Organization-specific pattern as entered in the settings screen and persisted per user.
+// `pattern` is a regex source string; matching is always global and case-insensitive.
+export type CustomPatternDef = {
+  id: string;
+  label: string;
+  pattern: string;
+  keywords: string[];
+  replacement: string;
+};
+
+const SETTINGS_KEY = "customPatterns";
+const LOCALES_KEY = "activeLocales";
+
+export const LOCALES: Array<{ id: DetectorLocale; label: string }> = [
+  { id: "uk", label: "United Kingdom" },
+  { id: "ca", label: "Canada" },
+  { id: "in", label: "India" },
+  { id: "eu", label: "European Union" },
+];
+
+export const ALL_LOCALES: DetectorLocale[] = LOCALES.map((l) => l.id);
+
+const BUILT_INS: Detector[] = [...BUILT_IN_DETECTORS, ...ENTITY_DETECTORS, ...INTERNATIONAL_DETECTORS];
+
+let customDefs: CustomPatternDef[] = [];
+let customDetectors: Detector[] = [];
+
+export function getDetectors(): Detector[] {
+  return [...BUILT_INS, ...customDetectors, ...denyListDetectors()];
+}
+
+export function getDetector(id: SensitiveType): Detector | undefined {
+  return getDetectors().find((d) => d.id === id);
+}
+
+export function detectorLabel(id: SensitiveType): string {
+  return getDetector(id)?.label ?? id;
+}
+
+/** Drop detectors whose regions are all inactive; region-neutral detectors always stay. */
+export function detectorsForLocales(detectors: Detector[], locales: DetectorLocale[]): Detector[] {
+  return detectors.filter((d) => !d.locales || d.locales.some((l) => locales.includes(l)));
+}
+
+// Regions whose identifiers are looked for in this document. Stored with the document, since a
+// file from the UK office stays a UK file whoever opens it; every region is active until chosen.
+export function loadActiveLocales(): DetectorLocale[] {
+  const saved = readSetting<DetectorLocale[] | null>(LOCALES_KEY, "document", null);
+  return Array.isArray(saved) ? ALL_LOCALES.filter((l) => saved.includes(l)) : [...ALL_LOCALES];
+}
+
+export async function saveActiveLocales(locales: DetectorLocale[]): Promise<void> {
+  await writeSetting(LOCALES_KEY, locales, "document");
+}
+
+export function setCustomPatterns(defs: CustomPatternDef[]) {
+  customDefs = defs;
+  customDetectors = defs.flatMap((def) => {
+    try {
+      return [compileCustomPattern(def)];
+    } catch {
+      // An invalid stored pattern must not take down the built-in detectors.
+      return [];
+    }
+  });
+}
+
+/** The definitions last passed to setCustomPatterns, e.g. to rebuild the detectors in a worker. */
+export function activeCustomPatterns(): CustomPatternDef[] {
+  return customDefs;
+}
+
+export function loadCustomPatterns(): CustomPatternDef[] {
+  const defs = readSetting<CustomPatternDef[]>(SETTINGS_KEY, "user", []);
+  setCustomPatterns(defs);
+  return defs;
+}
+
+export async function saveCustomPatterns(defs: CustomPatternDef[]): Promise<void> {
+  for (const def of defs) compileCustomPattern(def);
+  setCustomPatterns(defs);
+  await writeSetting(SETTINGS_KEY, defs, "user");
+}
+
+/** Throws with a user-facing message if the definition is unusable. */
+export function compileCustomPattern(def: CustomPatternDef): Detector {
+  if (!def.label.trim()) throw new Error("Label is required.");
+  if (!def.pattern.trim()) throw new Error("Pattern is required.");
+  if (BUILT_INS.some((d) => d.id === def.id)) throw new Error(`"${def.id}" is a built-in detector id.`);
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(def.pattern, "gi");
+  } catch (e: any) {
+    throw new Error(`Invalid pattern: ${e?.message ?? String(e)}`);
+  }
+
+  return {
+    id: def.id,
+    label: def.label.trim(),
+    replacement: def.replacement.trim() || "[REDACTED {label}]",
+    pattern,
+    keywords: def.keywords.map((k) => k.trim()).filter(Boolean),
+    confidence: 0.8,
+  };
+}
+
+/** Live preview for the settings screen: what the draft pattern matches in a sample text. */
+export function testCustomPattern(def: CustomPatternDef, sample: string): SensitiveMatch[] {
+  return runDetector(sample, compileCustomPattern(def));
+}
+
+export function newCustomPatternId(label: string): string {
+  const slug = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `custom:${slug || "pattern"}-${Date.now().toString(36)}`;
+}
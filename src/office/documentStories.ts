@@ -0,0 +1,238 @@
+import { requireSet } from "./requirements";
+import type { SensitiveMatch } from "./sensitivePatterns";
+import {
+  chunkMatches,
+  loadDocumentText,
+  loadRangeText,
+  locateMatches,
+  replaceLocated,
+  splitChunk,
+  type DocumentText,
+  type Replacement,
+} from "./wordRanges";
+
+declare const Word: any;
+
+// A separately stored piece of document text ("story" in Word's object model). Tables and
+// content controls live inside the paragraphs of whichever story contains them, so they are
+// covered without a story of their own.
+export type StoryKind = "body" | "header" | "footer" | "footnote" | "endnote" | "comment" | "textBox";
+
+export type Story = {
+  // Stable across runs on an unchanged document, e.g. "s3.footer.primary", "footnote2".
+  id: string;
+  kind: StoryKind;
+  label: string;
+  // Word.Body for every kind except "comment", which only exposes its text as `content`.
+  body?: any;
+  comment?: any;
+  // Set for the selection pseudo-story: only this part of `body` is read and redacted.
+  range?: any;
+};
+
+export type StoryText = {
+  story: Story;
+  doc: DocumentText;
+};
+
+// Lets a long redaction report progress, stop between chunks, and surface chunk failures.
+export type ChunkControl = {
+  signal?: AbortSignal;
+  // Called once per finished chunk with the number of spans it covered, and the error when Word
+  // rejected it (after one retry in halves); the run then continues with the next chunk.
+  onChunk?: (spans: number, error?: unknown) => void;
+};
+
+export type StoryRedaction = {
+  replaced: SensitiveMatch[];
+  // Word did not report the occurrence (e.g. the paragraph changed since it was loaded).
+  unresolved: SensitiveMatch[];
+  // Part of a chunk Word rejected.
+  failed: SensitiveMatch[];
+};
+
+const HEADER_FOOTER_TYPES = ["primary", "firstPage", "evenPages"] as const;
+
+/**
+ * Visit every story the host lets us reach. Each collection needs a different requirement set,
+ * so unavailable ones are logged and skipped rather than failing the run.
+ */
+export async function enumerateStories(context: any, log: (line: string) => void): Promise<Story[]> {
+  const stories: Story[] = [{ id: "body", kind: "body", label: "Body", body: context.document.body }];
+
+  await collect(log, "Headers/footers", async () => {
+    const sections = context.document.sections;
+    sections.load("items");
+    await context.sync();
+    sections.items.forEach((section: any, i: number) => {
+      for (const type of HEADER_FOOTER_TYPES) {
+        const suffix = type === "primary" ? "" : `, ${type}`;
+        stories.push({
+          id: `s${i + 1}.header.${type}`,
+          kind: "header",
+          label: `Header (section ${i + 1}${suffix})`,
+          body: section.getHeader(Word.HeaderFooterType[type]),
+        });
+        stories.push({
+          id: `s${i + 1}.footer.${type}`,
+          kind: "footer",
+          label: `Footer (section ${i + 1}${suffix})`,
+          body: section.getFooter(Word.HeaderFooterType[type]),
+        });
+      }
+    });
+  });
+
+  await collect(log, "Footnotes/endnotes", async () => {
+    requireSet("WordApi", "1.5");
+    const footnotes = context.document.body.footnotes;
+    const endnotes = context.document.body.endnotes;
+    footnotes.load("items");
+    endnotes.load("items");
+    await context.sync();
+    footnotes.items.forEach((note: any, i: number) =>
+      stories.push({ id: `footnote${i + 1}`, kind: "footnote", label: `Footnote ${i + 1}`, body: note.body }),
+    );
+    endnotes.items.forEach((note: any, i: number) =>
+      stories.push({ id: `endnote${i + 1}`, kind: "endnote", label: `Endnote ${i + 1}`, body: note.body }),
+    );
+  });
+
+  await collect(log, "Comments", async () => {
+    requireSet("WordApi", "1.4");
+    const comments = context.document.body.getComments();
+    comments.load("items");
+    await context.sync();
+    comments.items.forEach((comment: any, i: number) =>
+      stories.push({ id: `comment${i + 1}`, kind: "comment", label: `Comment ${i + 1}`, comment }),
+    );
+  });
+
+  await collect(log, "Text boxes", async () => {
+    requireSet("WordApiDesktop", "1.2");
+    const shapes = context.document.body.shapes;
+    shapes.load("items/type");
+    await context.sync();
+    shapes.items
+      .filter((shape: any) => shape.type === "TextBox")
+      .forEach((shape: any, i: number) =>
+        stories.push({ id: `textbox${i + 1}`, kind: "textBox", label: `Text box ${i + 1}`, body: shape.body }),
+      );
+  });
+
+  return stories;
+}
+
+/** The current selection as a story of its own, for selection-only runs. */
+export function selectionStory(context: any): Story {
+  const range = context.document.getSelection();
+  return { id: "selection", kind: "body", label: "Selection", body: range, range };
+}
+
+export async function loadStoryText(context: any, story: Story): Promise<DocumentText> {
+  if (story.range) return await loadRangeText(context, story.range);
+  if (story.kind !== "comment") return await loadDocumentText(context, story.body);
+
+  story.comment.load("content");
+  await context.sync();
+  return { text: story.comment.content ?? "", paragraphs: [], starts: [0] };
+}
+
+export async function loadStoryTexts(context: any, stories: Story[]): Promise<StoryText[]> {
+  const out: StoryText[] = [];
+  for (const story of stories) {
+    try {
+      out.push({ story, doc: await loadStoryText(context, story) });
+    } catch {
+      // Header/footer types that don't exist in a section, or shapes the host won't open.
+    }
+  }
+  return out;
+}
+
+/**
+ * Replace `matches` (offsets into `doc.text`) inside one story. Spans are processed in paragraph
+ * chunks (see chunkMatches) with two syncs each, so large documents stay responsive and within
+ * Word's payload limits. A rejected chunk is retried in halves once; if that fails too its spans
+ * are reported as failed and the remaining chunks still run. Stops between chunks when
+ * `control.signal` is aborted. Comments have no ranges, so their content is rewritten as a string.
+ */
+export async function redactStory(
+  context: any,
+  { story, doc }: StoryText,
+  matches: SensitiveMatch[],
+  replacementFor: (m: SensitiveMatch) => Promise<Replacement>,
+  control: ChunkControl = {},
+): Promise<StoryRedaction> {
+  const out: StoryRedaction = { replaced: [], unresolved: [], failed: [] };
+  if (matches.length === 0) return out;
+
+  if (story.kind === "comment") {
+    try {
+      let content = doc.text;
+      const ordered = [...matches].sort((a, b) => b.start - a.start);
+      // Comment content is plain text: the replacement's formatting can't be applied.
+      const replacements = new Map<SensitiveMatch, string>();
+      for (const m of [...ordered].reverse()) replacements.set(m, (await replacementFor(m)).text);
+      for (const m of ordered) content = content.slice(0, m.start) + replacements.get(m) + content.slice(m.end);
+      story.comment.content = content;
+      await context.sync();
+      out.replaced.push(...matches);
+      control.onChunk?.(matches.length);
+    } catch (e) {
+      out.failed.push(...matches);
+      control.onChunk?.(matches.length, e);
+    }
+    return out;
+  }
+
+  for (const chunk of chunkMatches(doc, matches)) {
+    if (control.signal?.aborted) break;
+    try {
+      await redactChunk(context, doc, chunk, replacementFor, out);
+      control.onChunk?.(chunk.length);
+    } catch (first) {
+      const halves = splitChunk(doc, chunk);
+      let error: unknown = first;
+      if (halves) {
+        error = undefined;
+        for (const half of halves) {
+          try {
+            await redactChunk(context, doc, half, replacementFor, out);
+          } catch (e) {
+            out.failed.push(...half);
+            error = e;
+          }
+        }
+      } else {
+        out.failed.push(...chunk);
+      }
+      control.onChunk?.(chunk.length, error);
+    }
+  }
+  return out;
+}
+
+async function redactChunk(
+  context: any,
+  doc: DocumentText,
+  chunk: SensitiveMatch[],
+  replacementFor: (m: SensitiveMatch) => Promise<Replacement>,
+  out: StoryRedaction,
+) {
+  const { located, unresolved } = await locateMatches(context, doc, chunk);
+  const replacements = new Map<SensitiveMatch, Replacement>();
+  for (const { match } of located) replacements.set(match, await replacementFor(match));
+  replaceLocated(located, (m) => replacements.get(m) ?? { text: "[REDACTED]" });
+  if (located.length > 0) await context.sync();
+  out.replaced.push(...located.map((l) => l.match));
+  out.unresolved.push(...unresolved);
+}
+
+async function collect(log: (line: string) => void, what: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+  } catch (e: any) {
+    log(`${what}: not scanned (${e?.message ?? "not available in this host"}).`);
+  }
+}
@@ -0,0 +1,200 @@
+import { matchAll, toMatch, type Detector, type SensitiveMatch, type Span } from "./sensitivePatterns";
+
+// Offline named-entity detectors: names, street addresses, postal codes and dates of birth.
+// These are heuristic, so every hit carries a confidence score; anything below the workflow's
+// auto-redact threshold is left for the reviewer instead of being replaced.
+
+// Small gazetteers of common first names and surnames (US/UK/EU). Lower-cased.
+const FIRST_NAMES = new Set(
+  `james john robert michael william david richard joseph thomas charles christopher daniel matthew
+  anthony mark donald steven paul andrew joshua kenneth kevin brian george timothy ronald edward jason
+  jeffrey ryan jacob gary nicholas eric jonathan stephen larry justin scott brandon benjamin samuel
+  gregory alexander patrick frank raymond jack dennis jerry tyler aaron jose adam nathan henry peter
+  oliver harry noah liam lucas leo hugo luca marco pierre jean hans klaus jan lars sven pedro carlos
+  juan miguel ahmed mohammed ali raj arjun wei mary patricia jennifer linda elizabeth barbara susan
+  jessica sarah karen lisa nancy betty margaret sandra ashley kimberly emily donna michelle carol
+  amanda dorothy melissa deborah stephanie rebecca sharon laura cynthia kathleen amy angela shirley
+  anna brenda pamela emma nicole helen samantha katherine christine debra rachel carolyn janet
+  catherine maria heather diane ruth julie olivia joyce virginia victoria kelly lauren christina
+  joan evelyn judith megan andrea cheryl hannah jacqueline martha gloria teresa ann sara madison
+  frances kathryn janice jean abigail alice julia judy sophia grace denise amber doris marilyn
+  danielle beverly isabella theresa diana natalie brittany charlotte marie kayla alexis lori sophie
+  chloe amelia mia ella lucy claire anne ingrid greta elena sofia lucia carmen priya ananya fatima
+  aisha mei yuki`.split(/\s+/),
+);
+
+const LAST_NAMES = new Set(
+  `smith johnson williams brown jones garcia miller davis rodriguez martinez hernandez lopez gonzalez
+  wilson anderson thomas taylor moore jackson martin lee perez thompson white harris sanchez clark
+  ramirez lewis robinson walker young allen king wright scott torres nguyen hill flores green adams
+  nelson baker hall rivera campbell mitchell carter roberts gomez phillips evans turner diaz parker
+  cruz edwards collins reyes stewart morris morales murphy cook rogers gutierrez ortiz morgan cooper
+  peterson bailey reed kelly howard ramos kim cox ward richardson watson brooks chavez wood james
+  bennett gray mendoza ruiz hughes price alvarez castillo sanders patel myers long ross foster
+  jimenez murray hamilton graham wallace woods cole west jordan owens reynolds fisher ellis harrison
+  gibson mcdonald marshall ford hunt black palmer mills grant knight shaw holmes rose stone hawkins
+  dunn perkins hudson spencer gardner stephens payne pierce berry matthews arnold wagner willis ray
+  watkins olson carroll duncan snyder hart cunningham bradley lane andrews ruiz harper fox riley
+  armstrong carpenter weaver greene lawrence elliott chapman johnston mueller muller schmidt schneider
+  fischer weber meyer wagner becker schulz hoffmann dubois durand lefebvre moreau laurent rossi russo
+  ferrari esposito bianchi romano rossi colombo ricci jansen visser bakker singh kumar sharma gupta
+  chen wang li zhang liu yang huang zhao wu zhou tanaka suzuki`.split(/\s+/),
+);
+
+const HONORIFICS = "Mr|Mrs|Ms|Miss|Mx|Dr|Prof|Sir|Dame|Herr|Frau|Mme|Mlle|Sr|Sra";
+
+// Two or three capitalized tokens, optional honorific and middle initial, all on one line except
+// that the surname may start the next line ("Contact: Maria" / "Garcia joined…"); such a name is
+// reported as one span per line.
+const NAME_CANDIDATE_RE = new RegExp(
+  `\\b(?:(${HONORIFICS})\\.?[ \\t]+)?([A-Z][a-z]+(?:[-'][A-Z][a-z]+)?)(?:[ \\t]+[A-Z]\\.?)?(?:(?:[ \\t]+|[ \\t]*\\n[ \\t]*)([A-Z][a-z]+(?:[-'][A-Z][a-z]+)?))?\\b`,
+  "g",
+);
+
+// US: "1600 Pennsylvania Avenue NW, Washington, DC 20500".
+const US_ADDRESS_RE =
+  /\b\d{1,6}[ \t]+(?:[A-Z0-9][\w.'-]*[ \t]+){1,5}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Ter|Circle|Cir|Parkway|Pkwy|Highway|Hwy)\b\.?(?:[ \t]+(?:N|S|E|W|NE|NW|SE|SW)\b)?(?:,?[ \t]+(?:Apt|Apartment|Suite|Ste|Unit|#)\.?[ \t]*[\w-]+)?(?:,[ \t]*[A-Z][a-zA-Z]+(?:[ \t][A-Z][a-zA-Z]+)*,?[ \t]+[A-Z]{2}[ \t]+\d{5}(?:-\d{4})?)?/g;
+
+// UK: "221B Baker Street, London NW1 6XE" — the street line; the postcode is picked up separately
+// unless it directly follows.
+const UK_ADDRESS_RE =
+  /\b\d{1,4}[A-Z]?[ \t]+(?:[A-Z][a-z]+[ \t]+){1,4}(?:Road|Street|Lane|Avenue|Close|Crescent|Gardens|Grove|Hill|Mews|Place|Square|Terrace|Walk|Way|Row|Drive|Court)\b(?:,[ \t]*[A-Z][a-z]+(?:[ \t][A-Z][a-z]+)*)?(?:,?[ \t]+[A-Z]{1,2}\d[A-Z\d]?[ \t]*\d[A-Z]{2})?/g;
+
+// EU: "Hauptstraße 12, 10115 Berlin", "Keizersgracht 123", "12 rue de la Paix", "Via Roma 10".
+const EU_GERMANIC_ADDRESS_RE =
+  /\b[A-ZÄÖÜ][\p{L}-]*(?:straße|strasse|str\.|weg|gasse|platz|allee|ring|damm|straat|laan|gracht|plein|vej|gatan|gata)[ \t]+\d{1,4}[a-z]?\b(?:,[ \t]*\d{4,5}[ \t]+[A-ZÄÖÜ][\p{L}-]+)?/gu;
+const EU_ROMANCE_ADDRESS_RE =
+  /\b(?:\d{1,4}(?:[ \t]?bis)?,?[ \t]+(?:rue|avenue|boulevard|place|allée|chemin|quai)[ \t]+(?:de[ \t]+la[ \t]+|de[ \t]+l'|du[ \t]+|des[ \t]+|de[ \t]+)?[\p{L}'-]+(?:[ \t][\p{L}'-]+){0,3}|(?:Via|Viale|Piazza|Corso|Calle|Avenida|Plaza|Paseo|Rua)[ \t]+(?:de[ \t]+|del[ \t]+|della[ \t]+|di[ \t]+)?[\p{L}'-]+(?:[ \t][\p{L}'-]+){0,2},?[ \t]+\d{1,4})\b/gu;
+
+const UK_POSTCODE_RE = /\b(?:[A-Z]{1,2}\d[A-Z\d]?|GIR)[ \t]*\d[A-Z]{2}\b/g;
+const US_ZIP_RE = /\b\d{5}(?:-\d{4})?\b/g;
+// Both anchored to the end of the text preceding the candidate, i.e. directly in front of it.
+const POSTAL_KEYWORDS_RE = /\b(?:zip(?:\s*code)?|postal\s*code|post\s*code|postcode|plz|code\s+postal|cap)\b[\s:#.-]*$/i;
+const US_STATE_BEFORE_RE = /\b[A-Z]{2}\s+$/;
+
+// DOB: a keyword, up to three filler words ("is", "on the"), then a numeric, ISO or written date.
+const MONTHS = "Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?";
+const DATE_PATTERN = `(?:\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|(?:${MONTHS})\\.?[ \\t]+\\d{1,2}(?:st|nd|rd|th)?,?[ \\t]+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?[ \\t]+(?:${MONTHS})\\.?,?[ \\t]+\\d{4})`;
+const DOB_RE = new RegExp(
+  `\\b(?:born(?:\\s+on)?|d\\.?o\\.?b\\.?|date\\s+of\\s+birth|birth\\s*date|birthday)\\b[^0-9A-Za-z]{0,10}(?:[A-Za-z]+\\s+){0,3}?[^0-9A-Za-z]{0,5}(${DATE_PATTERN})`,
+  "gi",
+);
+
+export const ENTITY_DETECTORS: Detector[] = ([
+  {
+    id: "personName",
+    label: "Person name",
+    replacement: "[REDACTED NAME]",
+    keywords: ["Mr", "Mrs", "Ms", "Dr", "Prof"],
+    find: findPersonNames,
+  },
+  { id: "address", label: "Address", replacement: "[REDACTED ADDRESS]", find: findAddresses },
+  {
+    id: "postalCode",
+    label: "Postal code",
+    replacement: "[REDACTED POSTCODE]",
+    keywords: ["zip", "postal code", "postcode", "PLZ"],
+    find: findPostalCodes,
+  },
+  {
+    id: "dateOfBirth",
+    label: "Date of birth",
+    replacement: "[REDACTED DOB]",
+    keywords: ["born", "DOB", "date of birth", "birthday"],
+    find: findDatesOfBirth,
+  },
+] satisfies Detector[]).map((d) => ({ ...d, builtIn: true }));
+
+function findPersonNames(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
+  NAME_CANDIDATE_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = NAME_CANDIDATE_RE.exec(text)) !== null) {
+    const [, honorific, first, last] = m;
+    const firstKnown = FIRST_NAMES.has(first.toLowerCase());
+    const lastKnown = !!last && LAST_NAMES.has(last.toLowerCase());
+
+    let score = 0;
+    if (honorific) score = 0.9;
+    else if (!last) score = 0; // A lone capitalized word is far too noisy without an honorific.
+    else if (firstKnown && lastKnown) score = 0.85;
+    else if (firstKnown && isName(last)) score = 0.55;
+    else if (lastKnown && isName(first)) score = 0.45;
+
+    if (score === 0) {
+      // Retry from the next word so "Dear John Smith" can still match "John Smith".
+      NAME_CANDIDATE_RE.lastIndex = m.index + m[0].indexOf(first) + first.length;
+      continue;
+    }
+
+    const rule = honorific ? "name-honorific" : firstKnown && lastKnown ? "name-gazetteer" : "name-partial";
+    for (const span of lineSpans({ value: m[0], start: m.index, end: m.index + m[0].length })) {
+      out.push(toMatch("personName", rule, score, span));
+    }
+  }
+  return out;
+}
+
+// A span split at line breaks, each part trimmed; a paragraph is a line of the scanned text.
+function lineSpans(span: Span): Span[] {
+  const out: Span[] = [];
+  let start = span.start;
+  for (const line of span.value.split("\n")) {
+    const value = line.trim();
+    if (value) out.push({ value, start: start + line.indexOf(value), end: start + line.indexOf(value) + value.length });
+    start += line.length + 1;
+  }
+  return out;
+}
+
+// Rejects capitalized sentence starters and other common words that also pass the shape check.
+function isName(word: string): boolean {
+  return !/^(?:The|This|That|These|Those|Our|Your|Their|Dear|Regards|Sincerely|Thanks|Best|From|To|Re|Subject|Attn|Street|Road|Avenue|Company|Inc|Ltd)$/.test(
+    word,
+  );
+}
+
+function findAddresses(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
+  for (const span of matchAll(text, US_ADDRESS_RE)) {
+    // A trailing city/state/ZIP makes this almost certainly an address.
+    const full = /,\s*[A-Z]{2}\s+\d{5}/.test(span.value);
+    out.push(toMatch("address", "address-us", full ? 0.85 : 0.65, span));
+  }
+  for (const span of matchAll(text, UK_ADDRESS_RE)) {
+    const withPostcode = /[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}$/.test(span.value);
+    out.push(toMatch("address", "address-uk", withPostcode ? 0.85 : 0.65, span));
+  }
+  for (const span of matchAll(text, EU_GERMANIC_ADDRESS_RE)) out.push(toMatch("address", "address-eu", 0.7, span));
+  for (const span of matchAll(text, EU_ROMANCE_ADDRESS_RE)) out.push(toMatch("address", "address-eu", 0.65, span));
+  return dedupeSpans(out);
+}
+
+function findPostalCodes(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
+  for (const span of matchAll(text, UK_POSTCODE_RE)) out.push(toMatch("postalCode", "postcode-uk", 0.8, span));
+
+  // Bare five-digit numbers are everywhere; only take ZIPs after a state code or near a keyword.
+  for (const span of matchAll(text, US_ZIP_RE)) {
+    const before = text.slice(Math.max(0, span.start - 30), span.start);
+    if (US_STATE_BEFORE_RE.test(before)) out.push(toMatch("postalCode", "zip-after-state", 0.75, span));
+    else if (POSTAL_KEYWORDS_RE.test(before)) out.push(toMatch("postalCode", "zip-keyword", 0.7, span));
+  }
+  return out;
+}
+
+function findDatesOfBirth(text: string): SensitiveMatch[] {
+  return matchAll(text, DOB_RE, 1).map((span) => toMatch("dateOfBirth", "dob-keyword", 0.9, span));
+}
+
+// The regional address shapes can overlap (e.g. "12 Baker Street" is both US and UK shaped);
+// keep the longest, then highest-confidence, hit for any overlapping group.
+function dedupeSpans(matches: SensitiveMatch[]): SensitiveMatch[] {
+  const sorted = [...matches].sort((a, b) => b.end - b.start - (a.end - a.start) || b.confidence - a.confidence);
+  const kept: SensitiveMatch[] = [];
+  for (const m of sorted) {
+    if (kept.some((k) => m.start < k.end && k.start < m.end)) continue;
+    kept.push(m);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
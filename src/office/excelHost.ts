@@ -0,0 +1,157 @@
+import { applyEdits, type HostAdapter, type HostSegment } from "./hostRedaction";
+import { isSetSupported } from "./requirements";
+
+declare const Excel: any;
+
+// Excel: the used range of every worksheet (cell by cell), cell comments (ExcelApi 1.10) and
+// sheet names. Number cells are scanned as displayed, so an SSN or phone stored as a number and
+// shown through a custom format ("000-00-0000") is found. Cells showing a formula's result are
+// reported rather than changed: the value would come back on the next recalculation. The banner
+// is a header row inserted above each non-empty worksheet.
+
+// Characters Excel doesn't allow in sheet names, and their maximum length.
+const SHEET_NAME_FORBIDDEN = /[[\]:*?/\\]/g;
+const SHEET_NAME_MAX = 31;
+
+export const excelHost: HostAdapter = {
+  kind: "excel",
+  name: "Excel",
+  banner: "a header row on each worksheet",
+  available: () => typeof Excel !== "undefined" && !!Excel?.run,
+  run: (task) => Excel.run(task),
+
+  async loadSegments(context, log) {
+    const sheets = context.workbook.worksheets;
+    sheets.load("items/name");
+    await context.sync();
+
+    const used = sheets.items.map((sheet: any) => {
+      const range = sheet.getUsedRangeOrNullObject(true);
+      range.load("isNullObject,values,text,formulas,rowIndex,columnIndex");
+      return range;
+    });
+    const comments = isSetSupported("ExcelApi", "1.10") ? context.workbook.comments : null;
+    comments?.load("items/content");
+    await context.sync();
+
+    const segments: HostSegment[] = [];
+    let formulaCells = 0;
+    sheets.items.forEach((sheet: any, s: number) => {
+      const range = used[s];
+      if (range.isNullObject) return;
+      range.values.forEach((row: unknown[], r: number) =>
+        row.forEach((value, c) => {
+          const text = cellText(value, range.text[r][c]);
+          if (!text.trim()) return;
+          const address = `${sheet.name}!${cellAddress(range.rowIndex + r, range.columnIndex + c)}`;
+          const formula = range.formulas[r][c];
+          if (typeof formula === "string" && formula.startsWith("=")) {
+            formulaCells += 1;
+            segments.push({ id: address, label: address, text, readOnly: "formula result; fix the formula or its inputs" });
+            return;
+          }
+          segments.push({
+            id: address,
+            label: address,
+            text,
+            // A redacted number cell becomes text.
+            replace: (edits) => {
+              range.getCell(r, c).values = [[applyEdits(text, edits)]];
+            },
+          });
+        }),
+      );
+    });
+    if (formulaCells > 0) log(`${formulaCells} formula cell(s) are checked but not changed.`);
+
+    if (comments) {
+      const locations = comments.items.map((comment: any) => comment.getLocation().load("address"));
+      await context.sync();
+      comments.items.forEach((comment: any, i: number) =>
+        segments.push({
+          id: `comment:${locations[i].address}`,
+          label: `Comment on ${locations[i].address}`,
+          text: comment.content,
+          replace: (edits) => {
+            comment.content = applyEdits(comment.content, edits);
+          },
+        }),
+      );
+    } else {
+      log("Cell comments: not available (ExcelApi 1.10 not supported).");
+    }
+
+    const names = new Set<string>(sheets.items.map((sheet: any) => sheet.name));
+    sheets.items.forEach((sheet: any, s: number) =>
+      segments.push({
+        id: `sheet:${s + 1}`,
+        label: `Name of sheet ${s + 1}`,
+        text: sheet.name,
+        replace: (edits) => {
+          names.delete(sheet.name);
+          sheet.name = safeSheetName(applyEdits(sheet.name, edits), names);
+          names.add(sheet.name);
+        },
+      }),
+    );
+    return segments;
+  },
+
+  async commit(context) {
+    await context.sync();
+  },
+
+  async addBanner(context, header) {
+    const sheets = context.workbook.worksheets;
+    sheets.load("items/name");
+    await context.sync();
+    const firsts = sheets.items.map((sheet: any) => ({
+      sheet,
+      used: sheet.getUsedRangeOrNullObject(true).load("isNullObject"),
+      a1: sheet.getRange("A1").load("values"),
+    }));
+    await context.sync();
+
+    let added = false;
+    for (const { sheet, used, a1 } of firsts) {
+      if (used.isNullObject || a1.values[0][0] === header.text) continue;
+      sheet.getRange("1:1").insert(Excel.InsertShiftDirection.down);
+      const cell = sheet.getRange("A1");
+      cell.values = [[header.text]];
+      cell.format.font.bold = true;
+      cell.format.font.color = header.color;
+      added = true;
+    }
+    return added;
+  },
+};
+
+// The text scanned for a cell: strings as they are, numbers as displayed unless the display hides
+// digits ("#####" in a narrow column, "4.11E+15"). Booleans and errors hold nothing to redact.
+function cellText(value: unknown, displayed: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value !== "number") return "";
+  const shown = String(displayed ?? "");
+  return !shown || /^#+$|E[+-]\d/i.test(shown) ? String(value) : shown;
+}
+
+/** A1-style address of a zero-based row and column. */
+export function cellAddress(row: number, column: number): string {
+  let letters = "";
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return `${letters}${row + 1}`;
+}
+
+/** `name` made valid for a sheet ("[REDACTED NAME]" → "REDACTED NAME") and unique among `taken`. */
+export function safeSheetName(name: string, taken: Set<string>): string {
+  const base = name.replace(SHEET_NAME_FORBIDDEN, "").replace(/^'+|'+$/g, "").trim() || "Redacted";
+  let candidate = base.slice(0, SHEET_NAME_MAX);
+  const lower = new Set([...taken].map((t) => t.toLowerCase()));
+  for (let n = 2; lower.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, SHEET_NAME_MAX - suffix.length) + suffix;
+  }
+  return candidate;
+}
@@ -0,0 +1,155 @@
+import { concludeCheck, evaluateCompliance, type ComplianceCheck } from "./complianceCheck";
+import { BUILT_IN_PROFILES, profileDetectors, type PolicyProfile } from "./policyProfiles";
+import { scanTexts, type RedactionOptions } from "./runRedactionWorkflow";
+import { renderReplacement, type Detector, type SensitiveMatch, type SensitiveType } from "./sensitivePatterns";
+import { dropOverlaps } from "./wordRanges";
+
+// Redaction in Excel, PowerPoint and Outlook. Each host adapter turns its content into flat text
+// segments (a cell, a comment, a slide shape, the mail subject) that the shared detectors scan;
+// the adapter writes replacements back and adds the host's banner. Word keeps its own, richer
+// workflow (tracking, review, vault, finalize) in runRedactionWorkflow.
+
+export type HostKind = "word" | "excel" | "powerpoint" | "outlook";
+
+// A replacement for [start, end) of a segment's text.
+export type SegmentEdit = { start: number; end: number; text: string };
+
+export type HostSegment = {
+  id: string;
+  // Where the text is, for logs and findings; never contains the text itself.
+  label: string;
+  text: string;
+  // Applies edits (sorted last-first so offsets stay valid). Missing when the host can't change
+  // this text (formula results, speaker notes); hits there are reported for manual fixing.
+  replace?: (edits: SegmentEdit[]) => void | Promise<void>;
+  // Why `replace` is missing.
+  readOnly?: string;
+  // Set (with an empty `text`) for content the host can't read at all, such as a table on an
+  // older PowerPoint; it is flagged so it gets checked by hand.
+  unreadable?: string;
+};
+
+export type HostAdapter = {
+  kind: HostKind;
+  name: string;
+  // What addBanner adds, for the taskpane ("a header row on each worksheet").
+  banner: string;
+  available: () => boolean;
+  // Runs `task` in the host's batch context (Excel.run, PowerPoint.run); Outlook has none.
+  run: <T>(task: (context: any) => Promise<T>) => Promise<T>;
+  loadSegments: (context: any, log: (line: string) => void) => Promise<HostSegment[]>;
+  // Sends queued edits; hosts that write immediately do nothing.
+  commit: (context: any) => Promise<void>;
+  // Adds the policy banner unless present; false when it already was.
+  addBanner: (context: any, header: NonNullable<PolicyProfile["header"]>) => Promise<boolean>;
+};
+
+// `type` is null for content that could not be scanned (HostSegment.unreadable).
+export type HostFinding = { type: SensitiveType | null; label: string; reason: string };
+
+export type HostRedactionResult = {
+  host: HostKind;
+  counts: Record<SensitiveType, number>;
+  redactionsTotal: number;
+  heldForReview: number;
+  bannerAdded: boolean;
+  // Hits in text the host can't change, and content it can't read.
+  flagged: HostFinding[];
+};
+
+/** Detect, replace and add the banner in the current Excel, PowerPoint or Outlook item. */
+export async function runHostRedaction(
+  adapter: HostAdapter,
+  log: (line: string) => void,
+  options: RedactionOptions,
+  minConfidence: number,
+): Promise<HostRedactionResult> {
+  const profile = options.profile ?? BUILT_IN_PROFILES[0];
+  const detectors = profileDetectors(profile, options.locales, options.styles);
+  const byId = new Map(detectors.map((d) => [d.id, d]));
+
+  return await adapter.run(async (context) => {
+    log(`Policy: ${profile.name}${profile.classification ? ` (${profile.classification})` : ""}.`);
+    const segments = await adapter.loadSegments(context, log);
+    log(`Scanning ${segments.length} text item(s) in ${adapter.name}…`);
+
+    const result: HostRedactionResult = {
+      host: adapter.kind,
+      counts: {},
+      redactionsTotal: 0,
+      heldForReview: 0,
+      bannerAdded: false,
+      flagged: [],
+    };
+    const detected = new Map<string, SensitiveMatch[]>();
+    for (const m of await scanTexts(segments, options, log)) {
+      const list = detected.get(m.storyId);
+      if (list) list.push(m);
+      else detected.set(m.storyId, [m]);
+    }
+    for (const segment of segments) {
+      if (options.signal?.aborted) break;
+      if (segment.unreadable) {
+        result.flagged.push({ type: null, label: segment.label, reason: segment.unreadable });
+        continue;
+      }
+      const matches = detected.get(segment.id) ?? [];
+      const sure = dropOverlaps(matches.filter((m) => m.confidence >= minConfidence));
+      result.heldForReview += matches.filter((m) => m.confidence < minConfidence).length;
+      if (sure.length === 0) continue;
+      if (!segment.replace) {
+        for (const m of sure) result.flagged.push({ type: m.type, label: segment.label, reason: segment.readOnly ?? "read-only" });
+        continue;
+      }
+      const edits = sure
+        .map((m) => ({ start: m.start, end: m.end, text: renderReplacement(byId.get(m.type) as Detector, m.value) }))
+        .reverse();
+      await segment.replace(edits);
+      for (const m of sure) result.counts[m.type] = (result.counts[m.type] ?? 0) + 1;
+      result.redactionsTotal += sure.length;
+    }
+    await adapter.commit(context);
+
+    if (profile.header && !options.signal?.aborted) {
+      result.bannerAdded = await adapter.addBanner(context, profile.header);
+      await adapter.commit(context);
+      log(result.bannerAdded ? `Added ${adapter.banner}.` : "Banner already present (no change).");
+    }
+    return result;
+  });
+}
+
+/** Scan-only check of the current item, as checkDocument does for Word. */
+export async function checkHost(
+  adapter: HostAdapter,
+  log: (line: string) => void,
+  options: RedactionOptions,
+  minConfidence: number,
+  stamp = false,
+): Promise<ComplianceCheck> {
+  const profile = options.profile ?? BUILT_IN_PROFILES[0];
+  return await adapter.run(async (context) => {
+    const segments = await adapter.loadSegments(context, log);
+    log(`Scanning ${segments.length} text item(s) in ${adapter.name}…`);
+    const matches = await scanTexts(segments, options, log);
+    return await concludeCheck(await evaluateCompliance(segments, matches, profile, minConfidence), stamp, log);
+  });
+}
+
+/** `text` with `edits` (sorted last-first) applied. */
+export function applyEdits(text: string, edits: SegmentEdit[]): string {
+  let out = text;
+  for (const e of edits) out = out.slice(0, e.start) + e.text + out.slice(e.end);
+  return out;
+}
+
+/** Promise wrapper for Office's callback-style *Async methods. */
+export function officeAsync<T>(call: (callback: (result: any) => void) => void): Promise<T> {
+  return new Promise((resolve, reject) =>
+    call((result) =>
+      result?.status === "failed" || result?.error
+        ? reject(new Error(result?.error?.message ?? "The Office request failed."))
+        : resolve(result?.value as T),
+    ),
+  );
+}
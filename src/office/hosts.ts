@@ -0,0 +1,24 @@
+import { excelHost } from "./excelHost";
+import type { HostAdapter, HostKind } from "./hostRedaction";
+import { outlookHost } from "./outlookHost";
+import { powerPointHost } from "./powerPointHost";
+
+// Adapters for the hosts besides Word, which runs runRedactionWorkflow directly.
+export const HOST_ADAPTERS: Record<Exclude<HostKind, "word">, HostAdapter> = {
+  excel: excelHost,
+  powerpoint: powerPointHost,
+  outlook: outlookHost,
+};
+
+export const HOST_NAMES: Record<HostKind, string> = {
+  word: "Word",
+  excel: "Excel",
+  powerpoint: "PowerPoint",
+  outlook: "Outlook",
+};
+
+/** The host kind for Office.onReady's `info.host` (an Office.HostType value), or null. */
+export function hostKind(host: unknown): HostKind | null {
+  const name = String(host ?? "").toLowerCase();
+  return (Object.keys(HOST_NAMES) as HostKind[]).find((kind) => kind === name) ?? null;
+}
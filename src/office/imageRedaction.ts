@@ -0,0 +1,232 @@
+import type { Story } from "./documentStories";
+import { decodeImage, maskImage, recognizeWords, UnsupportedImageError, type Box, type OcrWord } from "./ocrEngine";
+import { isSetSupported } from "./requirements";
+import { findSensitiveMatches, type Detector, type SensitiveMatch, type SensitiveType } from "./sensitivePatterns";
+
+// Pictures are opaque to the text passes: a scanned ID card or a screenshot of a spreadsheet keeps
+// its content however thoroughly the text is redacted. This pass reads inline pictures with local
+// OCR, runs the same detectors over the recognized text, and then either blacks out the matched
+// words or deletes the picture.
+
+// "mask": replace the picture with a copy that has black boxes over the matches.
+// "remove": delete pictures that contain any match.
+export type ImageRedactionMode = "mask" | "remove";
+
+export type ImageStatus = "masked" | "removed" | "unchanged" | "failed" | "skipped";
+
+export type ImageFinding = {
+  // Stable for an unchanged document, e.g. "body.picture2".
+  id: string;
+  label: string;
+  status: ImageStatus;
+  // Matches acted on, per detector id (none for "unchanged", "failed" and "skipped").
+  counts: Record<SensitiveType, number>;
+  // Why a picture was not processed.
+  reason?: string;
+};
+
+// A finding together with the recognized text its matches' offsets refer to, for the audit.
+export type ImageScan = {
+  finding: ImageFinding;
+  text: string;
+  applied: SensitiveMatch[];
+  held: SensitiveMatch[];
+};
+
+export type ImageControl = {
+  // Matches below this confidence are held for review instead of being masked.
+  minConfidence: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+};
+
+// OCR text laid out like a story: words joined by spaces, lines by "\n", so detectors see the
+// same separators they would in a paragraph.
+export type OcrLayout = {
+  text: string;
+  words: Array<{ start: number; end: number; word: OcrWord }>;
+};
+
+// Extra margin around a box, relative to the line height, so ascenders and descenders are covered.
+const BOX_PADDING = 0.15;
+
+export function layoutWords(words: OcrWord[]): OcrLayout {
+  let text = "";
+  const placed: OcrLayout["words"] = [];
+  words.forEach((word, i) => {
+    if (i > 0) text += word.line === words[i - 1].line ? " " : "\n";
+    placed.push({ start: text.length, end: text.length + word.text.length, word });
+    text += word.text;
+  });
+  return { text, words: placed };
+}
+
+/**
+ * Boxes covering the words each match overlaps, one per line the match spans. A match that covers
+ * only part of a word (OCR often merges "Email:" with the address) blacks out the whole word.
+ */
+export function boxesFor(layout: OcrLayout, matches: SensitiveMatch[]): Box[] {
+  const boxes: Box[] = [];
+  for (const m of matches) {
+    const byLine = new Map<number, Box>();
+    for (const { start, end, word } of layout.words) {
+      if (end <= m.start || start >= m.end) continue;
+      const box = byLine.get(word.line);
+      byLine.set(word.line, box ? union(box, word.bbox) : { ...word.bbox });
+    }
+    for (const box of byLine.values()) {
+      const pad = Math.max(2, Math.round((box.y1 - box.y0) * BOX_PADDING));
+      boxes.push({ x0: Math.max(0, box.x0 - pad), y0: Math.max(0, box.y0 - pad), x1: box.x1 + pad, y1: box.y1 + pad });
+    }
+  }
+  return boxes;
+}
+
+/**
+ * OCR the inline pictures of the given stories and redact those containing sensitive text.
+ * Pictures that can't be read (unsupported formats, OCR failures) and floating pictures or
+ * embedded objects the API doesn't expose are returned as "failed" so they can be checked by hand.
+ */
+export async function redactImages(
+  context: any,
+  stories: Story[],
+  detectors: Detector[],
+  mode: ImageRedactionMode,
+  log: (line: string) => void,
+  control: ImageControl,
+): Promise<ImageScan[]> {
+  if (!isSetSupported("WordApi", "1.2")) {
+    log("Images: not processed. Replacing pictures needs WordApi 1.2 (Word 2016 or later); check pictures by hand.");
+    return [];
+  }
+
+  const pictures = await listPictures(context, stories, log);
+  const scans: ImageScan[] = floatingObjects(await listFloating(context, stories, log));
+  if (pictures.length === 0) return scans;
+
+  log(`Images: reading ${pictures.length} picture(s) with OCR…`);
+  for (const [i, { id, label, picture }] of pictures.entries()) {
+    control.onProgress?.(i, pictures.length);
+    if (control.signal?.aborted) {
+      scans.push(imageScan({ id, label, status: "skipped", counts: {}, reason: "Run cancelled." }));
+      continue;
+    }
+    try {
+      scans.push(await redactPicture(context, id, label, picture, detectors, mode, control.minConfidence));
+    } catch (e: any) {
+      const reason = e instanceof UnsupportedImageError ? e.message : `Could not be processed: ${e?.message ?? String(e)}`;
+      scans.push(imageScan({ id, label, status: "failed", counts: {}, reason }));
+    }
+  }
+  control.onProgress?.(pictures.length, pictures.length);
+
+  for (const { finding } of scans) {
+    if (finding.status === "failed") log(`Images: ${finding.label} needs a manual check. ${finding.reason ?? ""}`.trim());
+  }
+  const done = scans.filter((s) => s.finding.status === "masked" || s.finding.status === "removed").length;
+  log(`Images: ${done} of ${pictures.length} picture(s) ${mode === "mask" ? "masked" : "removed"}.`);
+  return scans;
+}
+
+type Picture = { id: string; label: string; picture: any };
+
+async function listPictures(context: any, stories: Story[], log: (line: string) => void): Promise<Picture[]> {
+  // Comments have no body, so no pictures reachable through the API.
+  const loaded = stories
+    .filter((s) => s.body)
+    .map((story) => {
+      const pictures = (story.range ?? story.body).inlinePictures;
+      pictures.load("items/width,items/height");
+      return { story, pictures };
+    });
+  try {
+    await context.sync();
+  } catch (e: any) {
+    log(`Images: could not list pictures (${e?.message ?? String(e)}).`);
+    return [];
+  }
+  return loaded.flatMap(({ story, pictures }) =>
+    pictures.items.map((picture: any, i: number) => ({
+      id: `${story.id}.picture${i + 1}`,
+      label: `Picture ${i + 1} (${story.label})`,
+      picture,
+    })),
+  );
+}
+
+// Floating pictures, charts and embedded objects are shapes rather than inline pictures; only
+// WordApiDesktop 1.2 lists them, and none of them hand out their image data.
+async function listFloating(context: any, stories: Story[], log: (line: string) => void): Promise<string[]> {
+  if (!stories.some((s) => s.kind === "body" && !s.range)) return [];
+  if (!isSetSupported("WordApiDesktop", "1.2")) {
+    log("Images: floating pictures and embedded objects can't be listed on this host; check them by hand.");
+    return [];
+  }
+  try {
+    const shapes = context.document.body.shapes;
+    shapes.load("items/type");
+    await context.sync();
+    return shapes.items.map((s: any) => s.type).filter((type: string) => type === "Picture" || type === "Unsupported");
+  } catch {
+    return [];
+  }
+}
+
+function floatingObjects(types: string[]): ImageScan[] {
+  return types.map((type, i) =>
+    imageScan({
+      id: `body.shape${i + 1}`,
+      label: type === "Picture" ? `Floating picture ${i + 1}` : `Embedded object ${i + 1}`,
+      status: "failed",
+      counts: {},
+      reason: "Not an inline picture, so it can't be read with OCR.",
+    }),
+  );
+}
+
+async function redactPicture(
+  context: any,
+  id: string,
+  label: string,
+  picture: any,
+  detectors: Detector[],
+  mode: ImageRedactionMode,
+  minConfidence: number,
+): Promise<ImageScan> {
+  const source = picture.getBase64ImageSrc();
+  await context.sync();
+
+  const canvas = await decodeImage(source.value);
+  const layout = layoutWords(await recognizeWords(canvas));
+  const matches = findSensitiveMatches(layout.text, detectors);
+  const applied = matches.filter((m) => m.confidence >= minConfidence);
+  const held = matches.filter((m) => m.confidence < minConfidence);
+  if (applied.length === 0) {
+    return { finding: { id, label, status: "unchanged", counts: {} }, text: layout.text, applied, held };
+  }
+
+  if (mode === "remove") {
+    picture.delete();
+  } else {
+    const masked = picture.insertInlinePictureFromBase64(maskImage(canvas, boxesFor(layout, applied)), "Replace");
+    // Keep the displayed size; the alt text of the original may repeat what the picture shows.
+    masked.width = picture.width;
+    masked.height = picture.height;
+    masked.altTextTitle = "";
+    masked.altTextDescription = "Picture with sensitive text blacked out";
+  }
+  await context.sync();
+
+  const counts: Record<SensitiveType, number> = {};
+  for (const m of applied) counts[m.type] = (counts[m.type] ?? 0) + 1;
+  const status = mode === "remove" ? "removed" : "masked";
+  return { finding: { id, label, status, counts }, text: layout.text, applied, held };
+}
+
+function imageScan(finding: ImageFinding): ImageScan {
+  return { finding, text: "", applied: [], held: [] };
+}
+
+function union(a: Box, b: Box): Box {
+  return { x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1) };
+}
@@ -0,0 +1,339 @@
+import { luhnCheck, matchAll, toMatch, trimToValid, type Detector, type SensitiveMatch, type Span } from "./sensitivePatterns";
+
+// National identifiers outside the US: UK National Insurance numbers, Canadian SINs, Indian
+// Aadhaar and PAN, EU national ID numbers, passports and VAT IDs. Each detector is tied to the
+// regions it serves (see DetectorLocale) and checks the number's checksum where it has one; bare
+// digit runs that only pass a weak check need a keyword nearby to be auto-redacted.
+
+// How far (in characters) a supporting keyword may be from the value.
+const CONTEXT_WINDOW = 50;
+
+// UK NINO: two prefix letters, six digits, suffix A–D. D, F, I, Q, U and V are never used in the
+// prefix, O is not used as its second letter, and some prefixes are reserved (see NINO_BAD_PREFIXES).
+const NINO_RE = /\b([A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]) ?(\d{2}) ?(\d{2}) ?(\d{2}) ?([A-D])\b/g;
+const NINO_BAD_PREFIXES = new Set(["BG", "GB", "KN", "NK", "NT", "TN", "ZZ"]);
+
+// Canadian SIN: nine digits, usually grouped 3-3-3. Never starts with 0 or 8.
+const SIN_RE = /(?<![\d-])[1-79]\d{2}([- ]?)\d{3}\1\d{3}(?![\d-])/g;
+const SIN_KEYWORDS_RE = /\b(?:sin|social insurance|nas|assurance sociale)\b/i;
+
+// Aadhaar: twelve digits, grouped 4-4-4, first digit 2–9, Verhoeff check digit.
+const AADHAAR_RE = /(?<![\d-])[2-9]\d{3}([ -]?)\d{4}\1\d{4}(?![\d-])/g;
+const AADHAAR_KEYWORDS_RE = /\b(?:aadhaa?r|uidai|uid)\b/i;
+
+// PAN: AAAAA9999A, where the fourth letter is the holder type (P = person, C = company, …).
+const PAN_RE = /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/g;
+const PAN_KEYWORDS_RE = /\b(?:pan|permanent account number|income tax)\b/i;
+
+// Spain: DNI (8 digits + letter) and NIE (X/Y/Z + 7 digits + letter); the letter is a mod-23 check.
+const ES_DNI_RE = /\b\d{8}-?[A-Z]\b/g;
+const ES_NIE_RE = /\b[XYZ]-?\d{7}-?[A-Z]\b/g;
+const ES_CHECK_LETTERS = "TRWAGMYFPDXBNJZSQVHLCKE";
+
+// Italy: codice fiscale, 16 characters with a check letter.
+const IT_CF_RE = /\b[A-Z]{6}\d{2}[A-EHLMPR-T]\d{2}[A-Z]\d{3}[A-Z]\b/g;
+const IT_CF_ODD = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21, 2, 4, 18, 20, 11, 3, 6, 8, 12, 14, 16, 10, 22, 25, 24, 23];
+
+// France: NIR (numéro de sécurité sociale), 13 digits + 2-digit key; Corsica uses 2A/2B.
+const FR_NIR_RE = /\b[12] ?\d{2} ?(?:0[1-9]|1[0-2]|[2-9]\d) ?(?:\d{2}|2[AB]) ?\d{3} ?\d{3} ?\d{2}\b/g;
+
+// Belgium: national register number, written 85.07.30-033.28.
+const BE_NRN_RE = /\b\d{2}\.\d{2}\.\d{2}-\d{3}\.\d{2}\b/g;
+
+// Netherlands BSN and Polish PESEL are plain digit runs; only taken next to their name.
+const NL_BSN_RE = /\b(?:bsn|burgerservicenummer|sofinummer)\b\D{0,20}(\d{9})\b/gi;
+const PL_PESEL_RE = /\bpesel\b\D{0,20}(\d{11})\b/gi;
+
+// Passports differ per country (US: 9 digits, UK: 9 digits, CA: 2 letters + 6 digits, IN: letter
+// + 7 digits, most of the EU: 8–9 letters and digits), so the keyword carries the detection.
+const PASSPORT_RE =
+  /\b(?:passport|passeport|reisepass|pasaporte|passaporto|paspoort)(?:\s*(?:no\.?|number|nr\.?|num\.?|#|n°))?\s*[:\-]?\s*([A-Z0-9]{6,9})\b/gi;
+
+// VAT IDs: country prefix, then a country-specific body (VAT_FORMATS). Greece uses EL; XI is
+// Northern Ireland. A digit within the first three body characters keeps capitalised words
+// ("SEE GB 123…") from being taken as the start of a candidate.
+const VAT_CANDIDATE_RE =
+  /\b(?:AT|BE|BG|CY|CZ|DE|DK|EE|EL|ES|FI|FR|GB|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK|XI) ?[A-Z+*]{0,2}\d(?: ?[0-9A-Z+*]){0,13}\b/g;
+const VAT_KEYWORDS_RE = /\b(?:vat|ust|mwst|umsatzsteuer|tva|iva|btw|moms|alv|dph|dic|nif|cif|p\.?iva|uid)\b/i;
+const VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  GB: /^(?:\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(?:\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(?:\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+  XI: /^(?:\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+};
+
+export const INTERNATIONAL_DETECTORS: Detector[] = ([
+  {
+    id: "ukNino",
+    label: "National Insurance number",
+    replacement: "[REDACTED NINO]",
+    keywords: ["national insurance", "NI number", "NINO"],
+    locales: ["uk"],
+    find: findNinos,
+  },
+  {
+    id: "caSin",
+    label: "Social Insurance Number",
+    replacement: "[REDACTED SIN]",
+    keywords: ["SIN", "social insurance", "NAS"],
+    locales: ["ca"],
+    find: findSins,
+  },
+  {
+    id: "inAadhaar",
+    label: "Aadhaar",
+    replacement: "[REDACTED AADHAAR]",
+    keywords: ["Aadhaar", "UIDAI", "UID"],
+    locales: ["in"],
+    find: findAadhaars,
+  },
+  {
+    id: "inPan",
+    label: "PAN",
+    replacement: "[REDACTED PAN]",
+    keywords: ["PAN", "permanent account number"],
+    locales: ["in"],
+    find: findPans,
+  },
+  {
+    id: "euNationalId",
+    label: "National ID (EU)",
+    replacement: "[REDACTED NATIONAL ID]",
+    keywords: ["DNI", "NIE", "codice fiscale", "NIR", "BSN", "PESEL"],
+    locales: ["eu"],
+    find: findEuNationalIds,
+  },
+  {
+    id: "passport",
+    label: "Passport",
+    replacement: "[REDACTED PASSPORT]",
+    keywords: ["passport", "passeport", "Reisepass", "pasaporte"],
+    find: findPassports,
+  },
+  {
+    id: "vatId",
+    label: "VAT ID",
+    replacement: "[REDACTED VAT ID]",
+    keywords: ["VAT", "USt", "TVA", "IVA", "BTW"],
+    locales: ["uk", "eu"],
+    find: findVatIds,
+  },
+] satisfies Detector[]).map((d) => ({ ...d, builtIn: true }));
+
+function findNinos(text: string): SensitiveMatch[] {
+  return matchAll(text, NINO_RE)
+    .filter((span) => !NINO_BAD_PREFIXES.has(span.value.slice(0, 2)))
+    .map((span) => toMatch("ukNino", "nino", 0.9, span));
+}
+
+function findSins(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
+  for (const span of matchAll(text, SIN_RE)) {
+    if (!luhnCheck(span.value.replace(/\D/g, ""))) continue;
+    // One random nine-digit number in ten passes Luhn: without the keyword it goes to review.
+    const keyword = SIN_KEYWORDS_RE.test(around(text, span));
+    out.push(toMatch("caSin", keyword ? "sin-keyword" : "sin-luhn", keyword ? 0.9 : 0.5, span));
+  }
+  return out;
+}
+
+function findAadhaars(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
+  for (const span of matchAll(text, AADHAAR_RE)) {
+    if (!verhoeffCheck(span.value.replace(/\D/g, ""))) continue;
+    const keyword = AADHAAR_KEYWORDS_RE.test(around(text, span));
+    out.push(toMatch("inAadhaar", keyword ? "aadhaar-keyword" : "aadhaar-verhoeff", keyword ? 0.95 : 0.7, span));
+  }
+  return out;
+}
+
+function findPans(text: string): SensitiveMatch[] {
+  return matchAll(text, PAN_RE).map((span) =>
+    PAN_KEYWORDS_RE.test(around(text, span))
+      ? toMatch("inPan", "pan-keyword", 0.95, span)
+      : toMatch("inPan", "pan", 0.8, span),
+  );
+}
+
+function findEuNationalIds(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
+  const add = (rule: string, confidence: number, spans: Span[], valid: (value: string) => boolean) => {
+    for (const span of spans) if (valid(span.value)) out.push(toMatch("euNationalId", rule, confidence, span));
+  };
+  add("es-dni", 0.9, matchAll(text, ES_DNI_RE), isValidSpanishId);
+  add("es-nie", 0.9, matchAll(text, ES_NIE_RE), isValidSpanishId);
+  add("it-codice-fiscale", 0.95, matchAll(text, IT_CF_RE), isValidCodiceFiscale);
+  add("fr-nir", 0.9, matchAll(text, FR_NIR_RE), isValidNir);
+  add("be-national-number", 0.9, matchAll(text, BE_NRN_RE), isValidBelgianNumber);
+  add("nl-bsn", 0.85, matchAll(text, NL_BSN_RE, 1), isValidBsn);
+  add("pl-pesel", 0.9, matchAll(text, PL_PESEL_RE, 1), isValidPesel);
+  return out;
+}
+
+function findPassports(text: string): SensitiveMatch[] {
+  return matchAll(text, PASSPORT_RE, 1)
+    .filter((span) => /\d/.test(span.value))
+    .map((span) => toMatch("passport", "passport-keyword", 0.85, span));
+}
+
+function findVatIds(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
+  for (const candidate of matchAll(text, VAT_CANDIDATE_RE)) {
+    const span = trimToValid(candidate, isValidVatFormat);
+    if (!span) continue;
+    const id = span.value.replace(/ /g, "");
+    if (VAT_KEYWORDS_RE.test(around(text, span))) out.push(toMatch("vatId", "vat-keyword", 0.9, span));
+    else if (hasVatChecksum(id)) out.push(toMatch("vatId", "vat-checksum", 0.8, span));
+    // Format alone is weak ("DE123456789" could be any reference): leave it for the reviewer.
+    else out.push(toMatch("vatId", "vat-format", 0.55, span));
+  }
+  return out;
+}
+
+function around(text: string, span: Span): string {
+  return text.slice(Math.max(0, span.start - CONTEXT_WINDOW), Math.min(text.length, span.end + CONTEXT_WINDOW));
+}
+
+// Verhoeff dihedral-group tables.
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+export function verhoeffCheck(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+  let c = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const d = digits.charCodeAt(digits.length - 1 - i) - 48;
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][d]];
+  }
+  return c === 0;
+}
+
+export function isValidSpanishId(value: string): boolean {
+  const id = value.replace(/-/g, "");
+  const numeric = id.replace(/^[XYZ]/, (c) => String("XYZ".indexOf(c)));
+  if (!/^\d{8}[A-Z]$/.test(numeric)) return false;
+  return ES_CHECK_LETTERS[Number(numeric.slice(0, 8)) % 23] === numeric[8];
+}
+
+export function isValidCodiceFiscale(value: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 15; i++) {
+    const ch = value[i];
+    const n = /\d/.test(ch) ? Number(ch) : ch.charCodeAt(0) - 65;
+    // Positions are counted from 1, so index 0 is an odd position.
+    sum += i % 2 === 0 ? IT_CF_ODD[n] : n;
+  }
+  return String.fromCharCode(65 + (sum % 26)) === value[15];
+}
+
+export function isValidNir(value: string): boolean {
+  const nir = value.replace(/ /g, "");
+  // Corsican departments: 2A counts as 19 and 2B as 18 for the key.
+  const body = nir.slice(0, 13).replace(/^(.{5})2A/, "$119").replace(/^(.{5})2B/, "$118");
+  if (!/^\d{13}$/.test(body)) return false;
+  return 97 - (Number(body) % 97) === Number(nir.slice(13));
+}
+
+export function isValidBelgianNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  const body = Number(digits.slice(0, 9));
+  const check = Number(digits.slice(9));
+  // People born from 2000 on have "2" prefixed to the body for the check.
+  return 97 - (body % 97) === check || 97 - ((2_000_000_000 + body) % 97) === check;
+}
+
+export function isValidBsn(value: string): boolean {
+  if (!/^\d{9}$/.test(value)) return false;
+  let sum = 0;
+  for (let i = 0; i < 8; i++) sum += (9 - i) * Number(value[i]);
+  sum -= Number(value[8]);
+  return sum % 11 === 0;
+}
+
+export function isValidPesel(value: string): boolean {
+  if (!/^\d{11}$/.test(value)) return false;
+  const weights = [1, 3, 7, 9, 1, 3, 7, 9, 1, 3];
+  const sum = weights.reduce((n, w, i) => n + w * Number(value[i]), 0);
+  return (10 - (sum % 10)) % 10 === Number(value[10]);
+}
+
+function isValidVatFormat(value: string): boolean {
+  const id = value.replace(/ /g, "");
+  const format = VAT_FORMATS[id.slice(0, 2)];
+  return !!format && format.test(id.slice(2));
+}
+
+// Check digits for the countries whose VAT numbers carry one we can verify offline.
+function hasVatChecksum(id: string): boolean {
+  const country = id.slice(0, 2);
+  const body = id.slice(2);
+  if ((country === "GB" || country === "XI") && /^\d{9}/.test(body)) {
+    // Weights 8..2 over the first seven digits plus the two check digits; the total is a
+    // multiple of 97, or of 97 after adding 55 (numbers issued since 2010).
+    let sum = 0;
+    for (let i = 0; i < 7; i++) sum += (8 - i) * Number(body[i]);
+    sum += Number(body.slice(7, 9));
+    return sum % 97 === 0 || (sum + 55) % 97 === 0;
+  }
+  if (country === "DE") {
+    // ISO 7064 MOD 11,10.
+    let product = 10;
+    for (let i = 0; i < 8; i++) {
+      let sum = (Number(body[i]) + product) % 10;
+      if (sum === 0) sum = 10;
+      product = (2 * sum) % 11;
+    }
+    const check = (11 - product) % 10;
+    return check === Number(body[8]);
+  }
+  if (country === "FR" && /^\d{2}/.test(body)) {
+    return (12 + 3 * (Number(body.slice(2)) % 97)) % 97 === Number(body.slice(0, 2));
+  }
+  if (country === "IT") return luhnCheck(body);
+  return false;
+}
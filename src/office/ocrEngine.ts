@@ -0,0 +1,104 @@
+import type { Worker } from "tesseract.js";
+
+// In-browser OCR for pictures. Tesseract runs as WebAssembly in a Web Worker; the worker script,
+// the WASM core and the English model are served by the add-in itself under `ocr/` (see the
+// ocrAssets plugin in vite.config.ts), so no image or text leaves the machine.
+
+export type Box = { x0: number; y0: number; x1: number; y1: number };
+
+export type OcrWord = {
+  text: string;
+  // 0–100, as reported by Tesseract.
+  confidence: number;
+  bbox: Box;
+  // Index of the text line the word belongs to, in reading order.
+  line: number;
+};
+
+// Thrown for picture formats the browser cannot draw (e.g. EMF/WMF from older Office files).
+export class UnsupportedImageError extends Error {}
+
+let worker: Promise<Worker> | null = null;
+
+function assetUrl(path: string): string {
+  return new URL(`${import.meta.env.BASE_URL}ocr/${path}`, window.location.href).href;
+}
+
+// One worker for the session: loading the model takes a few seconds, recognizing is quicker.
+// Loaded on first use so documents without pictures never pay for it.
+async function ocrWorker(): Promise<Worker> {
+  worker ??= (async () => {
+    const { createWorker, OEM } = await import("tesseract.js");
+    return await createWorker("eng", OEM.LSTM_ONLY, {
+      workerPath: assetUrl("worker.min.js"),
+      corePath: assetUrl(""),
+      langPath: assetUrl(""),
+      workerBlobURL: false,
+    });
+  })();
+  try {
+    return await worker;
+  } catch (e) {
+    // Let a later run try again rather than caching the failure.
+    worker = null;
+    throw e;
+  }
+}
+
+/** Words Tesseract finds in the picture, with pixel boxes relative to `canvas`. */
+export async function recognizeWords(canvas: HTMLCanvasElement): Promise<OcrWord[]> {
+  const { data } = await (await ocrWorker()).recognize(canvas, {}, { blocks: true });
+  const words: OcrWord[] = [];
+  let line = 0;
+  for (const block of data.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const l of paragraph.lines) {
+        for (const w of l.words) {
+          if (w.text.trim()) words.push({ text: w.text.trim(), confidence: w.confidence, bbox: w.bbox, line });
+        }
+        line += 1;
+      }
+    }
+  }
+  return words;
+}
+
+const SIGNATURES: Array<[prefix: string, mime: string]> = [
+  ["iVBORw0KGgo", "image/png"],
+  ["/9j/", "image/jpeg"],
+  ["R0lGOD", "image/gif"],
+  ["Qk", "image/bmp"],
+  ["UklGR", "image/webp"],
+];
+
+/** Draw a picture from Word (base64, no data: prefix) onto a canvas at its native size. */
+export async function decodeImage(base64: string): Promise<HTMLCanvasElement> {
+  const mime = SIGNATURES.find(([prefix]) => base64.startsWith(prefix))?.[1];
+  if (!mime) throw new UnsupportedImageError(`Unsupported picture format (${describeFormat(base64)}).`);
+
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: mime }));
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
+
+/** Paint opaque black boxes over the canvas and return it as base64 PNG (no data: prefix). */
+export function maskImage(canvas: HTMLCanvasElement, boxes: Box[]): string {
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#000";
+  for (const b of boxes) ctx.fillRect(b.x0, b.y0, b.x1 - b.x0, b.y1 - b.y0);
+  // Re-encoding drops whatever else the original file carried (EXIF, thumbnails, layers).
+  return canvas.toDataURL("image/png").replace(/^data:image\/png;base64,/, "");
+}
+
+function describeFormat(base64: string): string {
+  if (base64.startsWith("AQAAA")) return "EMF";
+  if (base64.startsWith("183GmgAA") || base64.startsWith("AQAJAA")) return "WMF";
+  if (base64.startsWith("SUkq") || base64.startsWith("TU0AK")) return "TIFF";
+  if (base64.startsWith("PD94") || base64.startsWith("PHN2")) return "SVG";
+  return "unknown";
+}
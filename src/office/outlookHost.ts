@@ -0,0 +1,146 @@
+import { applyEdits, officeAsync, type HostAdapter, type HostSegment, type SegmentEdit } from "./hostRedaction";
+
+declare const Office: any;
+
+// Outlook compose: the subject and the body of the message being written. HTML bodies are edited
+// in their text nodes and link targets so formatting survives; a value split across elements is
+// replaced in its first node and removed from the others. The banner is a subject prefix
+// ("[CONFIDENTIAL] Re: …").
+
+export const outlookHost: HostAdapter = {
+  kind: "outlook",
+  name: "Outlook",
+  banner: "a prefix on the subject",
+  // Compose items have async getters; read items expose plain strings.
+  available: () => typeof Office !== "undefined" && typeof Office?.context?.mailbox?.item?.subject?.getAsync === "function",
+  run: (task) => task(null),
+
+  async loadSegments() {
+    const item = Office.context.mailbox.item;
+    const subject = await officeAsync<string>((cb) => item.subject.getAsync(cb));
+    const segments: HostSegment[] = [
+      {
+        id: "subject",
+        label: "Subject",
+        text: subject,
+        replace: (edits) => officeAsync<void>((cb) => item.subject.setAsync(applyEdits(subject, edits), cb)),
+      },
+    ];
+
+    const type = await officeAsync<string>((cb) => item.body.getTypeAsync(cb));
+    if (type === Office.CoercionType.Html) {
+      const html = await officeAsync<string>((cb) => item.body.getAsync(Office.CoercionType.Html, cb));
+      const body = htmlBody(html);
+      segments.push({
+        id: "body",
+        label: "Message body",
+        text: body.text,
+        replace: (edits) =>
+          officeAsync<void>((cb) => item.body.setAsync(body.apply(edits), { coercionType: Office.CoercionType.Html }, cb)),
+      });
+    } else {
+      const text = await officeAsync<string>((cb) => item.body.getAsync(Office.CoercionType.Text, cb));
+      segments.push({
+        id: "body",
+        label: "Message body",
+        text,
+        replace: (edits) =>
+          officeAsync<void>((cb) => item.body.setAsync(applyEdits(text, edits), { coercionType: Office.CoercionType.Text }, cb)),
+      });
+    }
+    return segments;
+  },
+
+  async commit() {
+    // Subject and body are written as they are redacted.
+  },
+
+  async addBanner(_context, header) {
+    const item = Office.context.mailbox.item;
+    const subject = await officeAsync<string>((cb) => item.subject.getAsync(cb));
+    const prefix = `[${header.text}]`;
+    if (subject.startsWith(prefix)) return false;
+    await officeAsync<void>((cb) => item.subject.setAsync(`${prefix} ${subject}`, cb));
+    return true;
+  },
+};
+
+// Markup with no visible text (comments, and whole script, style and head elements), any other
+// tag, or a run of text between tags.
+const HTML_TOKEN_RE = /<!--[\s\S]*?-->|<(script|style|head)\b[^>]*>[\s\S]*?<\/\1\s*>|<[^>]*>|[^<]+/gi;
+const HREF_RE = /(\shref\s*=\s*)("([^"]*)"|'([^']*)'|([^\s>]+))/i;
+// Opening or closing tags that end a line of text; other elements (b, span, a…) are inline.
+const BLOCK_TAG_RE = /^<\/?(?:p|div|br|td|th|tr|li|ul|ol|table|h[1-6]|blockquote|pre|hr)\b/i;
+
+/**
+ * The visible text of an HTML body and a way to apply edits to it. Text nodes inside one block run
+ * on, so a value split by formatting (`<b>John</b> Smith`) reads as one; a line break separates
+ * blocks (paragraphs, cells, list items, `<br>`) so values in adjacent ones don't run together.
+ * Link targets (href) count as nodes of their own, on a line of their own, so a `mailto:` address
+ * behind a link is redacted along with its text. Edits rewrite only the nodes they touch; the rest of the markup is
+ * returned as it was.
+ */
+export function htmlBody(html: string): { text: string; apply: (edits: SegmentEdit[]) => string } {
+  // Each node is a piece of the HTML source ([from, to)) holding `value` once decoded.
+  const nodes: Array<{ from: number; to: number; value: string; attribute: boolean; start: number; end: number }> = [];
+  let text = "";
+  let lineBreak = false;
+  const add = (from: number, to: number, value: string, attribute: boolean) => {
+    if (nodes.length > 0 && (lineBreak || attribute || nodes[nodes.length - 1].attribute)) text += "\n";
+    lineBreak = false;
+    nodes.push({ from, to, value, attribute, start: text.length, end: text.length + value.length });
+    text += value;
+  };
+
+  for (const m of html.matchAll(HTML_TOKEN_RE)) {
+    const token = m[0];
+    if (!token.startsWith("<")) {
+      add(m.index!, m.index! + token.length, decodeHtml(token), false);
+      continue;
+    }
+    if (BLOCK_TAG_RE.test(token)) lineBreak = true;
+    const href = /^<a\b/i.test(token) ? HREF_RE.exec(token) : null;
+    if (href) {
+      const quoted = href[3] ?? href[4];
+      const from = m.index! + href.index + href[1].length + (quoted !== undefined ? 1 : 0);
+      const raw = quoted ?? href[5];
+      add(from, from + raw.length, decodeHtml(raw), true);
+    }
+  }
+
+  const apply = (edits: SegmentEdit[]) => {
+    const values = nodes.map((n) => n.value);
+    // Edits arrive last-first, so earlier offsets stay valid while later ones are applied.
+    for (const e of edits) {
+      const touched = nodes.filter((n) => n.start < e.end && n.end > e.start);
+      touched.forEach((n, i) => {
+        const k = nodes.indexOf(n);
+        const from = Math.max(0, e.start - n.start);
+        const to = Math.min(n.value.length, e.end - n.start);
+        values[k] = values[k].slice(0, from) + (i === 0 ? e.text : "") + values[k].slice(to);
+      });
+    }
+    let out = html;
+    for (let k = nodes.length - 1; k >= 0; k--) {
+      if (values[k] === nodes[k].value) continue;
+      const encoded = nodes[k].attribute ? encodeHtml(values[k]).replace(/"/g, "&quot;").replace(/'/g, "&#39;") : encodeHtml(values[k]);
+      out = out.slice(0, nodes[k].from) + encoded + out.slice(nodes[k].to);
+    }
+    return out;
+  };
+  return { text, apply };
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00a0" };
+
+function decodeHtml(s: string): string {
+  return s.replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+function encodeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\u00a0/g, "&nbsp;");
+}
@@ -0,0 +1,50 @@
+import { checkHost } from "./hostRedaction";
+import { detectorLabel, loadActiveLocales, loadCustomPatterns } from "./detectorRegistry";
+import { outlookHost } from "./outlookHost";
+import { resolveProfiles } from "./policyProfiles";
+import { AUTO_REDACT_MIN_CONFIDENCE } from "./runRedactionWorkflow";
+import type { SensitiveType } from "./sensitivePatterns";
+import { loadTermLists, setTermLists } from "./termLists";
+
+// Outlook's OnMessageSend event (Smart Alerts, Mailbox 1.12). The message is checked the way
+// "Check message" checks it, with the user's profile, custom patterns and term lists, and sending
+// is blocked while something the profile must redact is still there. The manifest registers the
+// handler in SoftBlock mode, so if the add-in can't start at all the user may still send.
+
+export type SendEvent = { completed: (options: { allowEvent: boolean; errorMessage?: string }) => void };
+
+// Outlook shows at most this many characters of the message.
+const MESSAGE_MAX = 500;
+
+/** Let the message go only when the active profile finds nothing that must be redacted first. */
+export async function checkMessageOnSend(event: SendEvent): Promise<void> {
+  try {
+    loadCustomPatterns();
+    setTermLists(loadTermLists("user"));
+    const { profiles, profileId } = await resolveProfiles();
+    const profile = profiles.find((p) => p.id === profileId) ?? profiles[0];
+    const { report } = await checkHost(
+      outlookHost,
+      () => {},
+      { profile, locales: loadActiveLocales() },
+      AUTO_REDACT_MIN_CONFIDENCE,
+    );
+    if (report.passed) {
+      event.completed({ allowEvent: true });
+      return;
+    }
+
+    const counts = new Map<SensitiveType, number>();
+    for (const f of report.findings) if (f.blocking) counts.set(f.type, (counts.get(f.type) ?? 0) + 1);
+    const summary = [...counts].map(([type, n]) => `${n} ${detectorLabel(type)}`).join(", ");
+    const message =
+      `This message contains data the "${report.profileName}" policy requires redacting (${summary}). ` +
+      "Open Redact Message to redact it, then send again.";
+    event.completed({ allowEvent: false, errorMessage: message.slice(0, MESSAGE_MAX) });
+  } catch (e: any) {
+    event.completed({
+      allowEvent: false,
+      errorMessage: `The redaction check could not run (${e?.message ?? String(e)}). Use Check message in Redact Message before sending.`.slice(0, MESSAGE_MAX),
+    });
+  }
+}
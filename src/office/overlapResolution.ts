@@ -0,0 +1,106 @@
+import type { Detector, MatchResolution, SensitiveMatch, SensitiveType } from "./sensitivePatterns";
+
+// Detectors run independently, so one value can come back several times: "acct 2125551212" is
+// phone-shaped and an account number, a labelled card number may also be an account. This stage
+// settles each group of overlapping hits. Every hit is scored from its confidence, its detector's
+// checksum (`verify`: Luhn, mod-97, ABA routing…) and the detector's keywords near it; the best
+// score takes the text and its rivals are dropped. A hit strictly inside another (a postcode in an
+// address) is part of it, not a rival; both stay and redaction keeps the outer one (dropOverlaps).
+
+// Characters searched for keywords on each side of a hit.
+export const CONTEXT_WINDOW = 50;
+
+// Score adjustments. A keyword before the value ("acct 123…") says more than one after it.
+const VERIFIED_BONUS = 0.15;
+const FAILED_CHECK_PENALTY = 0.3;
+const KEYWORD_BEFORE_BONUS = 0.25;
+const KEYWORD_AFTER_BONUS = 0.1;
+
+/**
+ * `matches` (found in `text` by `detectors`) with overlaps resolved, sorted by position. Hits that
+ * compete with nothing are returned as they are; the winner of a contest carries a `resolution`
+ * explaining its score and naming the types it beat.
+ */
+export function resolveOverlaps<T extends SensitiveMatch>(text: string, matches: T[], detectors: Detector[]): T[] {
+  const byId = new Map(detectors.map((d) => [d.id, d]));
+  const sorted = [...matches].sort((a, b) => a.start - b.start || b.end - a.end);
+  const out: T[] = [];
+
+  for (let i = 0; i < sorted.length; ) {
+    // A cluster: hits linked by overlap, directly or through each other.
+    let end = sorted[i].end;
+    let j = i + 1;
+    while (j < sorted.length && sorted[j].start < end) end = Math.max(end, sorted[j++].end);
+    const cluster = sorted.slice(i, j);
+    out.push(...(cluster.length === 1 ? cluster : resolveCluster(text, cluster, byId)));
+    i = j;
+  }
+  return out.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+/** Score of `m` for overlap contests, and what it was made of. */
+export function scoreMatch(text: string, m: SensitiveMatch, detector: Detector | undefined): { score: number; reason: string } {
+  const parts = [`${m.type} ${m.confidence.toFixed(2)}`];
+  let score = m.confidence;
+
+  const verified = detector?.verify?.(m) ?? null;
+  if (verified === true) {
+    score += VERIFIED_BONUS;
+    parts.push("checksum ok");
+  } else if (verified === false) {
+    score -= FAILED_CHECK_PENALTY;
+    parts.push("checksum fails");
+  }
+
+  const keywords = (detector?.keywords ?? []).map((k) => k.toLowerCase()).filter(Boolean);
+  const before = text.slice(Math.max(0, m.start - CONTEXT_WINDOW), m.start).toLowerCase();
+  const after = text.slice(m.end, m.end + CONTEXT_WINDOW).toLowerCase();
+  const keywordBefore = keywords.find((k) => hasWord(before, k));
+  const keywordAfter = keywordBefore ? undefined : keywords.find((k) => hasWord(after, k));
+  if (keywordBefore) {
+    score += KEYWORD_BEFORE_BONUS;
+    parts.push(`"${keywordBefore}" before`);
+  } else if (keywordAfter) {
+    score += KEYWORD_AFTER_BONUS;
+    parts.push(`"${keywordAfter}" after`);
+  }
+  return { score: Math.round(score * 100) / 100, reason: parts.join(", ") };
+}
+
+type Scored<T> = { m: T; score: number; reason: string };
+
+function resolveCluster<T extends SensitiveMatch>(text: string, cluster: T[], byId: Map<SensitiveType, Detector>): T[] {
+  const scored: Array<Scored<T>> = cluster.map((m) => ({ m, ...scoreMatch(text, m, byId.get(m.type)) }));
+  const length = (s: Scored<T>) => s.m.end - s.m.start;
+  const nested = (a: T, b: T) => (a.start <= b.start && b.end <= a.end) || (b.start <= a.start && a.end <= b.end);
+  const contest = (a: T, b: T) => a.start < b.end && b.start < a.end && (!nested(a, b) || a.end - a.start === b.end - b.start);
+
+  // Best score first; on a tie the longer hit, then detector order (the sort is stable).
+  const ordered = [...scored].sort((a, b) => b.score - a.score || length(b) - length(a));
+  const rivals = new Map<Scored<T>, Array<Scored<T>>>();
+  for (const s of ordered) {
+    const winner = [...rivals.keys()].find((w) => contest(w.m, s.m));
+    if (winner) rivals.get(winner)!.push(s);
+    else rivals.set(s, []);
+  }
+
+  return [...rivals].map(([w, beaten]) => {
+    if (beaten.length === 0) return w.m;
+    const resolution: MatchResolution = {
+      score: w.score,
+      reason: [w.reason, ...beaten.map((r) => `beats ${r.reason} (${r.score.toFixed(2)})`)].join("; "),
+      rivals: beaten.map((r) => ({ type: r.m.type, rule: r.m.rule, score: r.score })),
+    };
+    return { ...w.m, resolution };
+  });
+}
+
+// `keyword` as a whole word (or words) in `text`, so "account" doesn't fire on "accountant".
+function hasWord(text: string, keyword: string): boolean {
+  for (let at = text.indexOf(keyword); at >= 0; at = text.indexOf(keyword, at + 1)) {
+    const before = text[at - 1];
+    const after = text[at + keyword.length];
+    if (!(before && /[\p{L}\p{N}]/u.test(before)) && !(after && /[\p{L}\p{N}]/u.test(after))) return true;
+  }
+  return false;
+}
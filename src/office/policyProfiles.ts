@@ -0,0 +1,265 @@
+import { detectorsForLocales, getDetectors } from "./detectorRegistry";
+import { validateStyle, type RedactionStyle } from "./redactionStyles";
+import { DENY_LIST_ID } from "./termLists";
+import type { Detector, DetectorLocale, SensitiveType } from "./sensitivePatterns";
+import { readSetting, writeSetting } from "./settingsStore";
+
+// A named set of redaction rules for a kind of matter (medical file, PCI review, …).
+export type PolicyProfile = {
+  id: string;
+  name: string;
+  description: string;
+  // Detector ids to run; null runs every detector, including custom patterns. The deny-list
+  // (termLists) runs either way.
+  detectors: SensitiveType[] | null;
+  // Replacement templates that override the detector defaults, by detector id. "{label}" expands
+  // to the detector label in upper case.
+  replacements: Record<SensitiveType, string>;
+  // How replaced values are written, by detector id (see redactionStyles); the label template
+  // for detectors without one.
+  styles: Record<SensitiveType, RedactionStyle>;
+  // Header (or top-of-body banner) inserted on every run; null inserts none. In Word it gives way
+  // to the sensitivity label when `sensitivityLabels` is on; other hosts always use it.
+  header: { text: string; color: string } | null;
+  // Word: score the detected content and label the document with the matching tier (header,
+  // footer, watermark and custom properties; see sensitivityLabel) instead of the fixed header.
+  sensitivityLabels?: boolean;
+  // Classification recorded in the audit record, e.g. "PHI – Restricted".
+  classification: string;
+  // Record redactions as tracked revisions. Finalize mode still applies when this is off.
+  trackChanges: boolean;
+  builtIn?: boolean;
+};
+
+// Deployed next to the add-in by an administrator (see README). `locked` pins every user to it.
+export type AdminPolicy = {
+  profile: PolicyProfile;
+  locked: boolean;
+};
+
+export const PROFILES_FORMAT = "redaction-policy-profiles";
+
+const PROFILES_KEY = "policyProfiles";
+const SELECTED_KEY = "policyProfileId";
+const ADMIN_POLICY_FILE = "admin-policy.json";
+
+const RED = "#B00020";
+
+export const DEFAULT_PROFILE_ID = "internal";
+
+export const BUILT_IN_PROFILES: PolicyProfile[] = ([
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: "Internal (all detectors)",
+    description: "Every detector, default replacements.",
+    detectors: null,
+    replacements: {},
+    styles: {},
+    header: { text: "CONFIDENTIAL DOCUMENT", color: RED },
+    sensitivityLabels: true,
+    classification: "Confidential",
+    trackChanges: true,
+  },
+  {
+    id: "hipaa",
+    name: "HIPAA (medical)",
+    description: "Protected health information: patient identifiers, MRNs, dates of birth. Employee IDs are kept.",
+    detectors: [
+      "personName",
+      "address",
+      "postalCode",
+      "dateOfBirth",
+      "email",
+      "phone",
+      "ssn",
+      "medicalRecordNumber",
+      "insurancePolicy",
+    ],
+    replacements: { personName: "[PATIENT]", dateOfBirth: "[DOB REMOVED]", medicalRecordNumber: "[MRN REMOVED]" },
+    styles: {},
+    header: { text: "PROTECTED HEALTH INFORMATION", color: RED },
+    classification: "PHI – Restricted",
+    trackChanges: true,
+  },
+  {
+    id: "pci",
+    name: "PCI DSS (payment data)",
+    description: "Card numbers and bank account data only.",
+    detectors: ["card", "bank"],
+    replacements: { card: "[CARD NUMBER REMOVED]" },
+    styles: {},
+    header: { text: "PCI – CARDHOLDER DATA REMOVED", color: "#8A4B00" },
+    classification: "PCI – Restricted",
+    trackChanges: true,
+  },
+  {
+    id: "gdpr",
+    name: "GDPR (personal data)",
+    description: "Data that identifies a natural person.",
+    detectors: [
+      "personName",
+      "address",
+      "postalCode",
+      "dateOfBirth",
+      "email",
+      "phone",
+      "bank",
+      "employeeId",
+      "ukNino",
+      "euNationalId",
+      "passport",
+    ],
+    replacements: {},
+    styles: {},
+    header: { text: "PERSONAL DATA – GDPR", color: "#1F4E9A" },
+    classification: "Personal data",
+    trackChanges: true,
+  },
+] satisfies PolicyProfile[] as PolicyProfile[]).map((p) => ({ ...p, builtIn: true }));
+
+/**
+ * The detectors a profile runs, with its replacement templates and styles applied. `locales`
+ * narrows the region-specific detectors to the document's regions; omitted, every region counts.
+ * `styles` (the user's overrides) take precedence over the profile's.
+ */
+export function profileDetectors(
+  profile: PolicyProfile,
+  locales?: DetectorLocale[],
+  styles: Record<SensitiveType, RedactionStyle> = {},
+): Detector[] {
+  const enabled = profile.detectors ? new Set(profile.detectors) : null;
+  const detectors = locales ? detectorsForLocales(getDetectors(), locales) : getDetectors();
+  return detectors
+    .filter((d) => !enabled || enabled.has(d.id) || d.id === DENY_LIST_ID)
+    .map((d) => {
+      const replacement = profile.replacements[d.id] || d.replacement;
+      const style = styles[d.id] ?? profile.styles[d.id] ?? d.style;
+      return { ...d, replacement, ...(style ? { style } : {}) };
+    });
+}
+
+export function loadCustomProfiles(): PolicyProfile[] {
+  return readSetting<PolicyProfile[]>(PROFILES_KEY, "user", []).flatMap((p) => {
+    try {
+      return [validateProfile(p)];
+    } catch {
+      // A malformed stored profile must not hide the built-ins.
+      return [];
+    }
+  });
+}
+
+export async function saveCustomProfiles(profiles: PolicyProfile[]): Promise<void> {
+  await writeSetting(PROFILES_KEY, profiles, "user");
+}
+
+export function loadSelectedProfileId(): string | null {
+  return readSetting<string | null>(SELECTED_KEY, "user", null);
+}
+
+export async function saveSelectedProfileId(id: string): Promise<void> {
+  await writeSetting(SELECTED_KEY, id, "user");
+}
+
+/**
+ * Fetch the administrator's policy from the add-in's own origin. Absent (the usual case) or
+ * malformed files yield null, so a bad deployment falls back to the built-in profiles.
+ */
+export async function loadAdminPolicy(): Promise<AdminPolicy | null> {
+  try {
+    const res = await fetch(`${import.meta.env.BASE_URL}${ADMIN_POLICY_FILE}`, { cache: "no-store" });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return { profile: { ...validateProfile(data?.profile), builtIn: true }, locked: data?.locked === true };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The profiles a user may pick and the one in effect: built-ins plus imported profiles, with the
+ * administrator's profile (if deployed) first and selected. A locked admin profile replaces
+ * everything else; otherwise the user's last choice wins.
+ */
+export async function resolveProfiles(): Promise<{ profiles: PolicyProfile[]; profileId: string; locked: boolean }> {
+  const custom = loadCustomProfiles();
+  const admin = await loadAdminPolicy();
+  const saved = loadSelectedProfileId();
+
+  let profiles: PolicyProfile[] = [...BUILT_IN_PROFILES, ...custom];
+  let profileId = DEFAULT_PROFILE_ID;
+  if (admin?.locked) {
+    profiles = [admin.profile];
+    profileId = admin.profile.id;
+  } else if (admin) {
+    profiles = [admin.profile, ...profiles.filter((p) => p.id !== admin.profile.id)];
+    profileId = admin.profile.id;
+  }
+  if (!admin?.locked && saved && profiles.some((p) => p.id === saved)) profileId = saved;
+  return { profiles, profileId, locked: admin?.locked === true };
+}
+
+export function exportProfiles(profiles: PolicyProfile[]): string {
+  const clean = profiles.map(({ builtIn: _builtIn, ...p }) => p);
+  return JSON.stringify({ format: PROFILES_FORMAT, version: 1, profiles: clean }, null, 2);
+}
+
+/**
+ * Parse an exported profiles file (or a bare profile / array of profiles). Throws with a
+ * user-facing message naming the first problem.
+ */
+export function parseProfiles(json: string): PolicyProfile[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Not a JSON file.");
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(data?.profiles) ? data.profiles : [data];
+  const profiles = list.map(validateProfile);
+  for (const p of profiles) {
+    if (BUILT_IN_PROFILES.some((b) => b.id === p.id)) throw new Error(`"${p.id}" is a built-in profile id.`);
+  }
+  return profiles;
+}
+
+function validateProfile(p: any): PolicyProfile {
+  const where = typeof p?.id === "string" ? `Profile "${p.id}"` : "Profile";
+  if (typeof p?.id !== "string" || !p.id.trim()) throw new Error(`${where}: "id" is required.`);
+  if (typeof p.name !== "string" || !p.name.trim()) throw new Error(`${where}: "name" is required.`);
+  const detectors = p.detectors ?? null;
+  if (detectors !== null && !(Array.isArray(detectors) && detectors.every((d: unknown) => typeof d === "string"))) {
+    throw new Error(`${where}: "detectors" must be null or a list of detector ids.`);
+  }
+  const replacements = p.replacements ?? {};
+  if (typeof replacements !== "object" || Object.values(replacements).some((r) => typeof r !== "string")) {
+    throw new Error(`${where}: "replacements" must map detector ids to strings.`);
+  }
+  const styles = p.styles ?? {};
+  if (typeof styles !== "object" || Array.isArray(styles)) {
+    throw new Error(`${where}: "styles" must map detector ids to styles.`);
+  }
+  const header = p.header ?? null;
+  if (header !== null && (typeof header.text !== "string" || !header.text.trim() || typeof header.color !== "string")) {
+    throw new Error(`${where}: "header" must be null or { text, color }.`);
+  }
+  if (p.sensitivityLabels !== undefined && typeof p.sensitivityLabels !== "boolean") {
+    throw new Error(`${where}: "sensitivityLabels" must be true or false.`);
+  }
+  if (typeof p.trackChanges !== "boolean") throw new Error(`${where}: "trackChanges" must be true or false.`);
+
+  return {
+    id: p.id.trim(),
+    name: p.name.trim(),
+    description: typeof p.description === "string" ? p.description : "",
+    detectors,
+    replacements,
+    styles: Object.fromEntries(
+      Object.entries(styles).map(([id, style]) => [id, validateStyle(style, `${where}, style of "${id}"`)]),
+    ),
+    header: header && { text: header.text.trim(), color: header.color },
+    sensitivityLabels: p.sensitivityLabels === true,
+    classification: typeof p.classification === "string" ? p.classification : "",
+    trackChanges: p.trackChanges,
+  };
+}
@@ -0,0 +1,174 @@
+import { applyEdits, type HostAdapter, type HostSegment, type SegmentEdit } from "./hostRedaction";
+import { readSpeakerNotes } from "./pptxNotes";
+import { isSetSupported, requireSet } from "./requirements";
+
+declare const PowerPoint: any;
+
+// PowerPoint: the text of every shape on every slide (PowerPointApi 1.4), replaced span by span
+// so the rest of a shape keeps its formatting. Shapes inside groups and table cells are read with
+// PowerPointApi 1.8; where it is missing they are flagged for a manual check. Speaker notes are
+// read from the saved package and only reported (see pptxNotes). The banner is a footer text box
+// on each slide.
+
+// Shape types with a text frame; loading one from a picture or chart fails the whole batch.
+const TEXT_SHAPES = new Set(["GeometricShape", "TextBox", "Callout", "Placeholder"]);
+const BANNER_NAME = "Redaction banner";
+// Default 16:9 slide in points; the API doesn't report the slide size.
+const SLIDE = { width: 960, height: 540 };
+
+type SlideShape = { slide: number; shape: any; label: string };
+
+export const powerPointHost: HostAdapter = {
+  kind: "powerpoint",
+  name: "PowerPoint",
+  banner: "a footer on each slide",
+  available: () => typeof PowerPoint !== "undefined" && !!PowerPoint?.run,
+  run: (task) => PowerPoint.run(task),
+
+  async loadSegments(context, log) {
+    requireSet("PowerPointApi", "1.4");
+    const slides = context.presentation.slides;
+    slides.load("items/id");
+    await context.sync();
+    for (const slide of slides.items) slide.shapes.load("items/id,items/name,items/type");
+    await context.sync();
+
+    const nested = isSetSupported("PowerPointApi", "1.8");
+    const texts: SlideShape[] = [];
+    const tables: SlideShape[] = [];
+    const unread: SlideShape[] = [];
+    let level: SlideShape[] = slides.items.flatMap((slide: any, s: number) =>
+      slide.shapes.items
+        .filter((shape: any) => shape.name !== BANNER_NAME)
+        .map((shape: any) => ({ slide: s + 1, shape, label: `Slide ${s + 1}, ${shape.name}` })),
+    );
+    // Groups hold shapes of their own, possibly groups again: walk them level by level.
+    while (level.length > 0) {
+      const groups: SlideShape[] = [];
+      for (const item of level) {
+        const { type } = item.shape;
+        if (TEXT_SHAPES.has(type)) texts.push(item);
+        else if (type === "Table" || type === "Group") (nested ? (type === "Table" ? tables : groups) : unread).push(item);
+      }
+      for (const { shape } of groups) shape.group.shapes.load("items/id,items/name,items/type");
+      if (groups.length > 0) await context.sync();
+      level = groups.flatMap(({ slide, shape, label }) =>
+        shape.group.shapes.items.map((child: any) => ({ slide, shape: child, label: `${label} › ${child.name}` })),
+      );
+    }
+    if (unread.length > 0) log(`${unread.length} table(s) or group(s) not read (PowerPointApi 1.8 not supported).`);
+
+    const segments: HostSegment[] = [
+      ...(await shapeSegments(context, texts)),
+      ...(await tableSegments(context, tables)),
+      ...unread.map(({ slide, shape, label }) => ({
+        id: `slide${slide}.${shape.id}`,
+        label,
+        text: "",
+        unreadable: `${shape.type === "Table" ? "table" : "group"} not read (needs PowerPointApi 1.8); check it by hand`,
+      })),
+    ];
+
+    try {
+      for (const notes of await readSpeakerNotes()) {
+        segments.push({
+          id: `notes${notes.slide}`,
+          label: `Speaker notes, slide ${notes.slide}`,
+          text: notes.text,
+          readOnly: "speaker notes can't be edited by add-ins; fix them in PowerPoint",
+        });
+      }
+    } catch (e: any) {
+      log(`Speaker notes: could not be read (${e?.message ?? String(e)}).`);
+    }
+    return segments;
+  },
+
+  async commit(context) {
+    await context.sync();
+  },
+
+  async addBanner(context, header) {
+    const slides = context.presentation.slides;
+    slides.load("items/id");
+    await context.sync();
+    for (const slide of slides.items) slide.shapes.load("items/name");
+    await context.sync();
+
+    let added = false;
+    for (const slide of slides.items) {
+      if (slide.shapes.items.some((shape: any) => shape.name === BANNER_NAME)) continue;
+      const box = slide.shapes.addTextBox(header.text, {
+        left: 24,
+        top: SLIDE.height - 32,
+        width: SLIDE.width - 48,
+        height: 24,
+      });
+      box.name = BANNER_NAME;
+      box.textFrame.textRange.font.color = header.color;
+      box.textFrame.textRange.font.size = 12;
+      box.textFrame.textRange.font.bold = true;
+      added = true;
+    }
+    return added;
+  },
+};
+
+// Text frames of `items`, replaced span by span.
+async function shapeSegments(context: any, items: SlideShape[]): Promise<HostSegment[]> {
+  const shapes = items.map((item) => ({ ...item, range: item.shape.textFrame.textRange.load("text") }));
+  try {
+    await context.sync();
+  } catch {
+    // A placeholder without text (picture, chart) fails the batch: load shape by shape instead.
+    for (const item of shapes) {
+      item.range = item.shape.textFrame.textRange.load("text");
+      try {
+        await context.sync();
+      } catch {
+        item.range = null;
+      }
+    }
+  }
+
+  return shapes
+    .filter((item) => item.range && item.range.text)
+    .map(({ slide, shape, label, range }) => ({
+      id: `slide${slide}.${shape.id}`,
+      label,
+      text: range.text,
+      replace: (edits: SegmentEdit[]) => {
+        for (const e of edits) range.getSubstring(e.start, e.end - e.start).text = e.text;
+      },
+    }));
+}
+
+// One segment per table cell; a redacted cell's text is written back whole.
+async function tableSegments(context: any, items: SlideShape[]): Promise<HostSegment[]> {
+  if (items.length === 0) return [];
+  const tables = items.map((item) => ({ ...item, table: item.shape.getTable().load("rowCount,columnCount") }));
+  await context.sync();
+  const cells = tables.flatMap(({ slide, shape, label, table }) =>
+    Array.from({ length: table.rowCount * table.columnCount }, (_, i) => {
+      const row = Math.floor(i / table.columnCount);
+      const column = i % table.columnCount;
+      const cell = table.getCellOrNullObject(row, column).load("isNullObject,text");
+      return { id: `slide${slide}.${shape.id}.r${row + 1}c${column + 1}`, label: `${label}, row ${row + 1}, column ${column + 1}`, cell };
+    }),
+  );
+  await context.sync();
+
+  return cells
+    .filter(({ cell }) => !cell.isNullObject && cell.text)
+    .map(({ id, label, cell }) => {
+      const text: string = cell.text;
+      return {
+        id,
+        label,
+        text,
+        replace: (edits: SegmentEdit[]) => {
+          cell.text = applyEdits(text, edits);
+        },
+      };
+    });
+}
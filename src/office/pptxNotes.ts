@@ -0,0 +1,130 @@
+// Speaker notes straight from the .pptx package: the PowerPoint JavaScript API doesn't expose
+// notes, but Office.context.document.getFileAsync hands out the presentation as a ZIP. Only
+// reading is possible this way, so notes are checked and reported, never changed.
+
+declare const Office: any;
+
+export type SlideNotes = { slide: number; text: string };
+
+const SLICE_SIZE = 4 * 1024 * 1024;
+
+/** Notes text per slide of the open presentation. */
+export async function readSpeakerNotes(): Promise<SlideNotes[]> {
+  return notesFromPackage(await presentationBytes());
+}
+
+/** Notes text per slide from the bytes of a .pptx file, in slide order. */
+export async function notesFromPackage(bytes: Uint8Array): Promise<SlideNotes[]> {
+  const entries = zipEntries(bytes);
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? new TextDecoder().decode(await entry()) : null;
+  };
+
+  // Slide order comes from the presentation's slide list and its relationships.
+  const presentation = (await read("ppt/presentation.xml")) ?? "";
+  const presentationRels = relationships((await read("ppt/_rels/presentation.xml.rels")) ?? "");
+  const slideTargets = [...presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g)].map(
+    (m) => presentationRels.get(m[1]) ?? "",
+  );
+
+  const out: SlideNotes[] = [];
+  for (const [i, target] of slideTargets.entries()) {
+    const file = target.split("/").pop();
+    const rels = relationships((await read(`ppt/slides/_rels/${file}.rels`)) ?? "");
+    const notesTarget = [...rels.values()].find((t) => t.includes("notesSlides/"));
+    if (!notesTarget) continue;
+    const xml = await read(`ppt/notesSlides/${notesTarget.split("/").pop()}`);
+    const text = xml ? notesText(xml) : "";
+    if (text.trim()) out.push({ slide: i + 1, text });
+  }
+  return out;
+}
+
+// Body text of a notes slide: the paragraphs of its body placeholder, one per line. The slide
+// image and header/footer placeholders carry no notes text.
+function notesText(xml: string): string {
+  const shapes = xml.split(/<p:sp>|<p:sp\s/).slice(1);
+  const body = shapes.filter((sp) => /<p:ph\b[^>]*type="body"/.test(sp));
+  return body
+    .flatMap((sp) => sp.split(/<\/a:p>/))
+    .map((p) => [...p.matchAll(/<a:t>([^<]*)<\/a:t>/g)].map((m) => decodeXml(m[1])).join(""))
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+function relationships(xml: string): Map<string, string> {
+  return new Map(
+    [...xml.matchAll(/<Relationship\b([^>]*)\/?>/g)].map((m) => [
+      /\bId="([^"]+)"/.exec(m[1])?.[1] ?? "",
+      /\bTarget="([^"]+)"/.exec(m[1])?.[1] ?? "",
+    ]),
+  );
+}
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&amp;/g, "&");
+}
+
+async function presentationBytes(): Promise<Uint8Array> {
+  const file: any = await new Promise((resolve, reject) =>
+    Office.context.document.getFileAsync(Office.FileType.Compressed, { sliceSize: SLICE_SIZE }, (res: any) =>
+      res.status === Office.AsyncResultStatus.Failed ? reject(new Error(res.error?.message)) : resolve(res.value),
+    ),
+  );
+  try {
+    const slices: Uint8Array[] = [];
+    for (let i = 0; i < file.sliceCount; i++) {
+      const slice: any = await new Promise((resolve, reject) =>
+        file.getSliceAsync(i, (res: any) =>
+          res.status === Office.AsyncResultStatus.Failed ? reject(new Error(res.error?.message)) : resolve(res.value),
+        ),
+      );
+      slices.push(new Uint8Array(slice.data));
+    }
+    const bytes = new Uint8Array(slices.reduce((n, s) => n + s.length, 0));
+    let offset = 0;
+    for (const s of slices) {
+      bytes.set(s, offset);
+      offset += s.length;
+    }
+    return bytes;
+  } finally {
+    file.closeAsync();
+  }
+}
+
+// Central-directory reader for stored and deflated entries (what PowerPoint writes); each entry
+// is decompressed on demand with the browser's DecompressionStream.
+function zipEntries(bytes: Uint8Array): Map<string, () => Promise<Uint8Array>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = bytes.length - 22;
+  while (eocd >= 0 && view.getUint32(eocd, true) !== 0x06054b50) eocd--;
+  if (eocd < 0) throw new Error("The presentation file is not a ZIP package.");
+
+  const entries = new Map<string, () => Promise<Uint8Array>>();
+  let offset = view.getUint32(eocd + 16, true);
+  for (let i = view.getUint16(eocd + 10, true); i > 0; i--) {
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const skip = nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, async () => {
+      const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+      const data = bytes.subarray(start, start + size);
+      if (method === 0) return data;
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    });
+    offset += 46 + skip;
+  }
+  return entries;
+}
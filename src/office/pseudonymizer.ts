@@ -0,0 +1,134 @@
+import { detectorLabel } from "./detectorRegistry";
+import { decryptJson, encryptJson, hmacHex, type EncryptedEnvelope } from "./crypto";
+import { luhnCheck, type SensitiveType } from "./sensitivePatterns";
+
+// How detected values are replaced: fixed markers ("[REDACTED EMAIL]") or stable pseudonyms
+// ("EMAIL_3") that keep who-said-what readable.
+export type RedactionMode = "redact" | "pseudonymize";
+
+export type PseudonymEntry = {
+  type: SensitiveType;
+  original: string;
+  token: string;
+};
+
+export const MAPPING_FORMAT = "redaction-pseudonym-map";
+
+const TOKEN_PREFIXES: Record<string, string> = {
+  personName: "PERSON",
+  medicalRecordNumber: "MRN",
+  insurancePolicy: "POLICY",
+  dateOfBirth: "DOB",
+};
+
+/**
+ * Assigns one token per distinct (type, value) for the lifetime of the instance.
+ *
+ * Without a batch key tokens are numbered in order of first appearance (EMAIL_1, EMAIL_2, …), so
+ * they are only stable within one document, and only within one run unless `reserveTokens` is
+ * given the document's text first: numbering then continues after the tokens an earlier run left,
+ * so a new value never gets a token that already stands for another one. With a batch key each
+ * token is derived from an HMAC of the value, so the same value gets the same token in every
+ * document and run processed with that key.
+ */
+export class Pseudonymizer {
+  private readonly tokens = new Map<string, PseudonymEntry>();
+  // Last number issued, by token kind (see counterKey).
+  private readonly counters = new Map<string, number>();
+
+  constructor(private readonly batchKey?: string) {}
+
+  async tokenFor(type: SensitiveType, value: string): Promise<string> {
+    const key = `${type}\u0000${normalize(type, value)}`;
+    const existing = this.tokens.get(key);
+    if (existing) return existing.token;
+
+    const seed = this.batchKey ? (await hmacHex(this.batchKey, key)).slice(0, 12) : String(this.next(type));
+    const token = makeToken(type, value, seed);
+    this.tokens.set(key, { type, original: value, token });
+    return token;
+  }
+
+  entries(): PseudonymEntry[] {
+    return [...this.tokens.values()];
+  }
+
+  /** Skip the numbers of counter-based tokens already in `text` (no effect with a batch key). */
+  reserveTokens(text: string) {
+    for (const m of text.matchAll(/\b([A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*)_(\d+)\b/g)) this.reserve(m[1], Number(m[2]));
+    for (const m of text.matchAll(/\buser(\d+)@example\.invalid\b/g)) this.reserve("email", Number(m[1]));
+    // Counter-based fake cards: a 9, the zero-padded number and a Luhn check digit.
+    for (const m of text.matchAll(/\b9(?:[ -]?\d){12,18}\b/g)) {
+      const digits = m[0].replace(/\D/g, "");
+      const seed = digits.slice(1, -1);
+      if (luhnCheck(digits) && /^0{3,}\d+$/.test(seed)) this.reserve("card", Number(seed));
+    }
+  }
+
+  private reserve(key: string, n: number) {
+    if (n > (this.counters.get(key) ?? 0)) this.counters.set(key, n);
+  }
+
+  private next(type: SensitiveType): number {
+    const key = counterKey(type);
+    const n = (this.counters.get(key) ?? 0) + 1;
+    this.counters.set(key, n);
+    return n;
+  }
+}
+
+/** Encrypt the token table so that authorized staff can reverse the pseudonymization later. */
+export async function exportMapping(entries: PseudonymEntry[], passphrase: string): Promise<EncryptedEnvelope> {
+  return await encryptJson(MAPPING_FORMAT, { createdAt: new Date().toISOString(), entries }, passphrase);
+}
+
+/** Decrypt an exported mapping (token → original lookups for authorized reversal). */
+export async function importMapping(envelope: EncryptedEnvelope, passphrase: string): Promise<PseudonymEntry[]> {
+  const data = await decryptJson<{ entries: PseudonymEntry[] }>(envelope, passphrase, MAPPING_FORMAT);
+  return data.entries ?? [];
+}
+
+function normalize(type: SensitiveType, value: string): string {
+  if (type === "card" || type === "phone" || type === "ssn") return value.replace(/\D/g, "");
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function makeToken(type: SensitiveType, value: string, seed: string): string {
+  if (type === "email") return `user${seed}@example.invalid`;
+  if (type === "card") return fakeCard(value, seed);
+  return `${tokenPrefix(type)}_${seed}`;
+}
+
+// Types whose tokens share a prefix share a counter, so their tokens stay distinct.
+function counterKey(type: SensitiveType): string {
+  return type === "email" || type === "card" ? type : tokenPrefix(type);
+}
+
+function tokenPrefix(type: SensitiveType): string {
+  return (
+    TOKEN_PREFIXES[type] ??
+    detectorLabel(type)
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "_")
+      .replace(/^_|_$/g, "")
+  );
+}
+
+// Same length and separator layout as the original: a leading 9 (no real issuer), the seed as
+// decimal digits, and a valid Luhn check digit.
+function fakeCard(original: string, seed: string): string {
+  const length = original.replace(/\D/g, "").length;
+  const decimal = /^\d+$/.test(seed) ? seed : BigInt(`0x${seed}`).toString();
+  const body = "9" + decimal.padStart(length - 2, "0").slice(-(length - 2));
+
+  let digits = body + "0";
+  for (let check = 0; check <= 9; check++) {
+    if (luhnCheck(body + check)) {
+      digits = body + check;
+      break;
+    }
+  }
+
+  let i = 0;
+  return original.replace(/\d/g, () => digits[i++]);
+}
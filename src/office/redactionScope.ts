@@ -0,0 +1,114 @@
+import { sha256Hex } from "./crypto";
+import { enumerateStories, loadStoryTexts, selectionStory, type StoryText } from "./documentStories";
+import { readSetting, writeSetting } from "./settingsStore";
+import { subsetDocumentText } from "./wordRanges";
+
+// What a run covers. "incremental" scans only paragraphs that are new or changed since the last
+// incremental run on this document.
+export type RedactionScope = "document" | "selection" | "incremental";
+
+// Stored in the document's settings, so it travels with the file. Paragraph hashes are truncated
+// SHA-256 of the paragraph text after the run, grouped by story id.
+type ProcessedState = {
+  // Detector configuration the hashes were produced with; a different one invalidates them.
+  fingerprint: string;
+  stories: Record<string, string[]>;
+};
+
+const PROCESSED_KEY = "processedParagraphs";
+const HASH_CHARS = 16;
+
+/** Story texts for a run, limited to the scope. */
+export async function loadScopedTexts(
+  context: any,
+  scope: RedactionScope,
+  fingerprint: string,
+  log: (line: string) => void,
+): Promise<StoryText[]> {
+  if (scope === "selection") {
+    const texts = await loadStoryTexts(context, [selectionStory(context)]);
+    if (!texts[0]?.doc.text.trim()) log("Selection is empty: select the text to redact first.");
+    return texts;
+  }
+
+  const texts = await loadStoryTexts(context, await enumerateStories(context, log));
+  if (scope === "document") return texts;
+
+  const state = readSetting<ProcessedState | null>(PROCESSED_KEY, "document", null);
+  if (!state) {
+    log("Incremental: no earlier run recorded on this document, scanning everything.");
+    return texts;
+  }
+  if (state.fingerprint !== fingerprint) {
+    log("Incremental: policy or detectors changed since the last run, scanning everything.");
+    return texts;
+  }
+
+  const out: StoryText[] = [];
+  let skipped = 0;
+  let kept = 0;
+  for (const { story, doc } of texts) {
+    const seen = new Set(state.stories[story.id] ?? []);
+    // Comments have no paragraphs; their whole text counts as one.
+    const units = doc.paragraphs.length > 0 ? doc.paragraphs.map((p) => p.text ?? "") : [doc.text];
+    const changed: number[] = [];
+    for (const [i, text] of units.entries()) {
+      if (!text.trim() || seen.has(await paragraphHash(text))) skipped += 1;
+      else changed.push(i);
+    }
+    if (changed.length === 0) continue;
+    kept += changed.length;
+    out.push({ story, doc: doc.paragraphs.length > 0 ? subsetDocumentText(doc, changed) : doc });
+  }
+  log(`Incremental: ${kept} new or changed paragraph(s) to scan, ${skipped} unchanged skipped.`);
+  return out;
+}
+
+/**
+ * Record paragraphs as processed, as they read after the run. Call after redacting in incremental
+ * mode; document and selection runs leave the record alone. A paragraph that still holds a hit
+ * the run did not redact (held, not located, not approved) is left out, so the next incremental
+ * run offers it again.
+ */
+export async function rememberProcessed(
+  context: any,
+  fingerprint: string,
+  log: (line: string) => void,
+  unsettled: Array<{ storyId: string; value: string }> = [],
+) {
+  const texts = await loadStoryTexts(context, await enumerateStories(context, () => {}));
+  const stories: Record<string, string[]> = {};
+  let total = 0;
+  let open = 0;
+  for (const { story, doc } of texts) {
+    // Each line of a value that runs over paragraphs is looked for on its own.
+    const values = unsettled
+      .filter((u) => u.storyId === story.id)
+      .flatMap((u) => u.value.toLowerCase().split(/[\r\n]+/))
+      .map((v) => v.trim())
+      .filter(Boolean);
+    const units = doc.paragraphs.length > 0 ? doc.paragraphs.map((p) => p.text ?? "") : [doc.text];
+    const hashes = new Set<string>();
+    for (const text of units) {
+      if (!text.trim()) continue;
+      const lower = text.toLowerCase();
+      if (values.some((v) => lower.includes(v))) open += 1;
+      else hashes.add(await paragraphHash(text));
+    }
+    if (hashes.size === 0) continue;
+    stories[story.id] = [...hashes];
+    total += hashes.size;
+  }
+  if (open > 0) log(`Incremental: ${open} paragraph(s) with hits not redacted will be scanned again next time.`);
+
+  try {
+    await writeSetting(PROCESSED_KEY, { fingerprint, stories } satisfies ProcessedState, "document");
+    log(`Incremental: recorded ${total} processed paragraph(s) in the document settings.`);
+  } catch (e: any) {
+    log(`Incremental: could not record processed paragraphs (${e?.message ?? String(e)}).`);
+  }
+}
+
+async function paragraphHash(text: string): Promise<string> {
+  return (await sha256Hex(text)).slice(0, HASH_CHARS);
+}
@@ -0,0 +1,123 @@
+import type { SensitiveType } from "./sensitivePatterns";
+import { readSetting, writeSetting } from "./settingsStore";
+
+// How a redacted value is written back. "label" is the detector's replacement template
+// ("[REDACTED EMAIL]"); the others derive the replacement from the value itself:
+// - "mask": every letter and digit becomes "•", separators stay ("•••-••-••••")
+// - "keepLast": like "mask" but the last `count` letters/digits stay ("•••• •••• •••• 4242")
+// - "keepDomain": emails keep their first character and domain ("j***@acme.com"); other values
+//   are masked
+// - "blackBox": a fixed-length bar of block characters on a black highlight, so the bar gives
+//   away neither the value nor its length
+export type RedactionStyle =
+  | { kind: "label" }
+  | { kind: "mask" }
+  | { kind: "keepLast"; count: number }
+  | { kind: "keepDomain" }
+  | { kind: "blackBox" };
+
+export type RedactionStyleKind = RedactionStyle["kind"];
+
+// Font properties applied to the replaced range, for styles that rely on formatting.
+export type RedactionFont = { highlightColor?: string | null };
+
+export const STYLE_LABELS: Record<RedactionStyleKind, string> = {
+  label: "Label ([REDACTED …])",
+  mask: "Mask every character",
+  keepLast: "Mask all but the last 4",
+  keepDomain: "Keep email domain",
+  blackBox: "Black bar",
+};
+
+export const DEFAULT_STYLE: RedactionStyle = { kind: "label" };
+
+const STYLES_KEY = "replacementStyles";
+const MASK_CHAR = "•";
+const BAR = "█".repeat(10);
+
+/** The replacement text for `value` in `style`; `label` is the rendered replacement template. */
+export function styleReplacement(style: RedactionStyle, value: string, label: string): string {
+  switch (style.kind) {
+    case "label":
+      return label;
+    case "mask":
+      return maskChars(value, 0);
+    case "keepLast":
+      // A short value would be given away entirely: reveal only when at least as much stays hidden.
+      return maskChars(value, alnumCount(value) >= 2 * style.count ? style.count : 0);
+    case "keepDomain": {
+      const at = value.lastIndexOf("@");
+      if (at <= 0) return maskChars(value, 0);
+      return `${value[0]}***${value.slice(at)}`;
+    }
+    case "blackBox":
+      return BAR;
+  }
+}
+
+/** Formatting a replaced range gets in `style`; undefined keeps the surrounding formatting. */
+export function styleFont(style: RedactionStyle): RedactionFont | undefined {
+  return style.kind === "blackBox" ? { highlightColor: "#000000" } : undefined;
+}
+
+/** Formatting that undoes styleFont when the original value is restored. */
+export function restoreFont(kind: RedactionStyleKind | undefined): RedactionFont | undefined {
+  return kind === "blackBox" ? { highlightColor: null } : undefined;
+}
+
+export function describeStyle(style: RedactionStyle): string {
+  return style.kind === "keepLast" ? `Mask all but the last ${style.count}` : STYLE_LABELS[style.kind];
+}
+
+/** Throws with a user-facing message if `style` is not a RedactionStyle. */
+export function validateStyle(style: any, where: string): RedactionStyle {
+  const kind = style?.kind;
+  if (!Object.keys(STYLE_LABELS).includes(kind)) {
+    throw new Error(`${where}: style must be one of ${Object.keys(STYLE_LABELS).join(", ")}.`);
+  }
+  if (kind !== "keepLast") return { kind };
+  const count = style.count;
+  if (!Number.isInteger(count) || count < 1 || count > 12) throw new Error(`${where}: "count" must be 1–12.`);
+  return { kind, count };
+}
+
+// The user's own style per detector, applied on top of the policy profile's unless the
+// administrator locked the profile.
+export function loadStyleOverrides(): Record<SensitiveType, RedactionStyle> {
+  const saved = readSetting<Record<SensitiveType, unknown>>(STYLES_KEY, "user", {});
+  const styles: Record<SensitiveType, RedactionStyle> = {};
+  for (const [type, style] of Object.entries(saved ?? {})) {
+    try {
+      styles[type] = validateStyle(style, type);
+    } catch {
+      // A malformed stored style falls back to the profile's.
+    }
+  }
+  return styles;
+}
+
+export async function saveStyleOverrides(styles: Record<SensitiveType, RedactionStyle>): Promise<void> {
+  await writeSetting(STYLES_KEY, styles, "user");
+}
+
+export function alnumCount(value: string): number {
+  return value.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+}
+
+// Hide letters and digits except the last `keep`; separators and spaces stay so the shape of the
+// value (and thus its kind) remains recognizable.
+export function maskChars(value: string, keep: number): string {
+  let left = keep;
+  return [...value]
+    .reverse()
+    .map((ch) => {
+      if (!/[\p{L}\p{N}]/u.test(ch)) return ch;
+      if (left > 0) {
+        left -= 1;
+        return ch;
+      }
+      return MASK_CHAR;
+    })
+    .reverse()
+    .join("");
+}
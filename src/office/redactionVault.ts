@@ -0,0 +1,269 @@
+import { decryptJson, encryptJson, type EncryptedEnvelope } from "./crypto";
+import { enumerateStories, loadStoryTexts, type StoryText } from "./documentStories";
+import { restoreFont, type RedactionStyleKind } from "./redactionStyles";
+import { isSetSupported } from "./requirements";
+import type { SensitiveMatch, SensitiveType } from "./sensitivePatterns";
+import { chunkMatches, locateMatches, replaceLocated } from "./wordRanges";
+
+// Encrypted undo record of a run: the original values and where their replacements went, so an
+// authorized user holding the passphrase can put them back after the document was saved and
+// closed (when Word's undo stack and the tracked revisions may be gone).
+export const VAULT_FORMAT = "redaction-undo-vault";
+
+// Namespace of the custom XML part each run's vault is stored in.
+export const VAULT_NAMESPACE = "urn:document-redaction:undo-vault";
+// Text kept on each side of a replacement, within its paragraph, to find it again later.
+const CONTEXT_CHARS = 40;
+
+export type VaultEntry = {
+  id: string;
+  type: SensitiveType;
+  storyId: string;
+  story: string;
+  original: string;
+  replacement: string;
+  // Style the replacement was written in (see redactionStyles); absent for pseudonym tokens.
+  style?: RedactionStyleKind;
+  // Paragraph text around the replacement, as it read right after the run.
+  before: string;
+  after: string;
+};
+
+// Decrypted content of a vault.
+export type VaultRecord = {
+  runId: string;
+  createdAt: string;
+  policy: string;
+  entries: VaultEntry[];
+};
+
+// What is stored in the document and exported: the encrypted record plus enough plain metadata
+// to list it without the passphrase. Values, stories and positions are only in the ciphertext.
+export type StoredVault = {
+  format: typeof VAULT_FORMAT;
+  version: 1;
+  runId: string;
+  createdAt: string;
+  count: number;
+  envelope: EncryptedEnvelope;
+};
+
+export type RestoreResult = {
+  restored: VaultEntry[];
+  // The replacement could not be found: edited, already restored, or its story is gone.
+  notFound: VaultEntry[];
+};
+
+type Replaced = SensitiveMatch & { storyId: string; replacement: string; style?: RedactionStyleKind };
+
+/**
+ * Build the undo record for the spans a run replaced. `texts` are the story texts the offsets
+ * refer to, as read before the run; the context saved is what surrounds each replacement after it.
+ */
+export function buildVaultRecord(runId: string, policy: string, texts: StoryText[], replaced: Replaced[]): VaultRecord {
+  const entries: VaultEntry[] = [];
+  for (const { story, doc } of texts) {
+    const spans = replaced.filter((m) => m.storyId === story.id).sort((a, b) => a.start - b.start);
+    if (spans.length === 0) continue;
+
+    // Rebuild the story text as it reads after the run, remembering where each replacement landed.
+    let after = "";
+    let cursor = 0;
+    const placed: Array<{ m: Replaced; at: number }> = [];
+    for (const m of spans) {
+      after += doc.text.slice(cursor, m.start);
+      placed.push({ m, at: after.length });
+      after += m.replacement;
+      cursor = m.end;
+    }
+    after += doc.text.slice(cursor);
+
+    for (const { m, at } of placed) {
+      const end = at + m.replacement.length;
+      entries.push({
+        id: `${story.id}:${m.start}`,
+        type: m.type,
+        storyId: story.id,
+        story: story.label,
+        original: m.value,
+        replacement: m.replacement,
+        style: m.style,
+        before: paragraphContext(after, at, -1),
+        after: paragraphContext(after, end, 1),
+      });
+    }
+  }
+  return { runId, createdAt: new Date().toISOString(), policy, entries };
+}
+
+export async function sealVault(record: VaultRecord, passphrase: string): Promise<StoredVault> {
+  return {
+    format: VAULT_FORMAT,
+    version: 1,
+    runId: record.runId,
+    createdAt: record.createdAt,
+    count: record.entries.length,
+    envelope: await encryptJson(VAULT_FORMAT, record, passphrase),
+  };
+}
+
+export async function openVault(stored: StoredVault, passphrase: string): Promise<VaultRecord> {
+  if (stored?.format !== VAULT_FORMAT || !stored.envelope) throw new Error("Not an undo vault file.");
+  return await decryptJson<VaultRecord>(stored.envelope, passphrase, VAULT_FORMAT);
+}
+
+/** Store the vault in a custom XML part of the document (WordApi 1.4), so it travels with the file. */
+export async function saveVaultToDocument(context: any, stored: StoredVault): Promise<void> {
+  if (!isSetSupported("WordApi", "1.4")) throw new Error("Custom XML parts need WordApi 1.4.");
+  context.document.customXmlParts.add(
+    `<undoVault xmlns="${VAULT_NAMESPACE}" runId="${escapeXml(stored.runId)}">${escapeXml(JSON.stringify(stored))}</undoVault>`,
+  );
+  await context.sync();
+}
+
+/** Every vault stored in the document, newest first. Parts that don't parse are skipped. */
+export async function listDocumentVaults(context: any): Promise<StoredVault[]> {
+  if (!isSetSupported("WordApi", "1.4")) return [];
+  const parts = context.document.customXmlParts.getByNamespace(VAULT_NAMESPACE);
+  parts.load("items");
+  await context.sync();
+  const xmls = parts.items.map((part: any) => part.getXml());
+  await context.sync();
+
+  const vaults: StoredVault[] = [];
+  for (const xml of xmls) {
+    const body = /<undoVault\b[^>]*>([\s\S]*)<\/undoVault>/.exec(xml.value ?? "")?.[1];
+    try {
+      const stored = JSON.parse(unescapeXml(body ?? "")) as StoredVault;
+      if (stored?.format === VAULT_FORMAT) vaults.push(stored);
+    } catch {
+      // Written by something else under our namespace, or truncated.
+    }
+  }
+  return vaults.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Remove a run's vault from the document, e.g. once everything in it has been restored. */
+export async function deleteDocumentVault(context: any, runId: string): Promise<void> {
+  const parts = context.document.customXmlParts.getByNamespace(VAULT_NAMESPACE);
+  parts.load("items");
+  await context.sync();
+  const xmls = parts.items.map((part: any) => ({ part, xml: part.getXml() }));
+  await context.sync();
+  for (const { part, xml } of xmls) {
+    if ((xml.value ?? "").includes(`runId="${escapeXml(runId)}"`)) part.delete();
+  }
+  await context.sync();
+}
+
+/**
+ * Put the original values of `entries` back. Each replacement is found again by its surrounding
+ * text, in its own story first (a selection run's story is searched everywhere), and the best
+ * matching occurrence is replaced.
+ */
+export async function restoreEntries(
+  context: any,
+  entries: VaultEntry[],
+  log: (line: string) => void,
+): Promise<RestoreResult> {
+  const texts = await loadStoryTexts(context, await enumerateStories(context, () => {}));
+  const claimed = new Map<string, Set<number>>();
+  const found = new Map<string, Array<{ entry: VaultEntry; match: SensitiveMatch }>>();
+  const notFound: VaultEntry[] = [];
+
+  for (const entry of entries) {
+    const own = texts.find((t) => t.story.id === entry.storyId);
+    const candidates = own ? [own, ...texts.filter((t) => t !== own)] : texts;
+    let hit: { storyId: string; start: number; score: number } | null = null;
+    for (const candidate of candidates) {
+      const { story, doc } = candidate;
+      const taken = claimed.get(story.id) ?? new Set<number>();
+      for (let at = doc.text.indexOf(entry.replacement); at >= 0; at = doc.text.indexOf(entry.replacement, at + 1)) {
+        if (taken.has(at)) continue;
+        const score = contextScore(doc.text, at, entry);
+        if (!hit || score > hit.score) hit = { storyId: story.id, start: at, score };
+      }
+      // Prefer the recorded story whenever it has any occurrence at all.
+      if (hit && candidate === own) break;
+    }
+    if (!hit || (hit.score === 0 && entry.before + entry.after !== "")) {
+      notFound.push(entry);
+      continue;
+    }
+    claimed.set(hit.storyId, (claimed.get(hit.storyId) ?? new Set()).add(hit.start));
+    const match: SensitiveMatch = {
+      type: entry.type,
+      value: entry.replacement,
+      start: hit.start,
+      end: hit.start + entry.replacement.length,
+      rule: "vault",
+      confidence: 1,
+    };
+    found.set(hit.storyId, [...(found.get(hit.storyId) ?? []), { entry, match }]);
+  }
+
+  const restored: VaultEntry[] = [];
+  for (const { story, doc } of texts) {
+    const items = found.get(story.id);
+    if (!items) continue;
+    const originals = new Map(items.map(({ entry, match }) => [match, entry]));
+
+    if (story.kind === "comment") {
+      let content = doc.text;
+      for (const { entry, match } of [...items].sort((a, b) => b.match.start - a.match.start)) {
+        content = content.slice(0, match.start) + entry.original + content.slice(match.end);
+      }
+      story.comment.content = content;
+      await context.sync();
+      restored.push(...items.map((i) => i.entry));
+      continue;
+    }
+
+    for (const chunk of chunkMatches(doc, items.map((i) => i.match))) {
+      const { located, unresolved } = await locateMatches(context, doc, chunk);
+      replaceLocated(located, (m) => {
+        const entry = originals.get(m);
+        return { text: entry?.original ?? m.value, font: restoreFont(entry?.style) };
+      });
+      if (located.length > 0) await context.sync();
+      restored.push(...located.map((l) => originals.get(l.match)!));
+      notFound.push(...unresolved.map((m) => originals.get(m)!));
+    }
+  }
+
+  log(`Restored ${restored.length} value(s)${notFound.length ? `, ${notFound.length} not found (edited or already restored)` : ""}.`);
+  return { restored, notFound };
+}
+
+// Characters of context both sides share with the recorded context, nearest the replacement first.
+function contextScore(text: string, at: number, entry: VaultEntry): number {
+  const before = paragraphContext(text, at, -1);
+  const after = paragraphContext(text, at + entry.replacement.length, 1);
+  let score = 0;
+  for (let i = 1; i <= Math.min(before.length, entry.before.length) && before.at(-i) === entry.before.at(-i); i++) score++;
+  for (let i = 0; i < Math.min(after.length, entry.after.length) && after[i] === entry.after[i]; i++) score++;
+  return score;
+}
+
+// Up to CONTEXT_CHARS of `text` before (direction -1) or after (1) `at`, not crossing a paragraph.
+function paragraphContext(text: string, at: number, direction: -1 | 1): string {
+  if (direction < 0) {
+    const from = Math.max(text.lastIndexOf("\n", at - 1) + 1, at - CONTEXT_CHARS);
+    return text.slice(from, at);
+  }
+  const nl = text.indexOf("\n", at);
+  return text.slice(at, Math.min(nl < 0 ? text.length : nl, at + CONTEXT_CHARS));
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function unescapeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
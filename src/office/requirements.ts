@@ -0,0 +1,9 @@
+declare const Office: any;
+
+export function isSetSupported(name: string, version: string): boolean {
+  return typeof Office !== "undefined" && Office?.context?.requirements?.isSetSupported?.(name, version) === true;
+}
+
+export function requireSet(name: string, version: string) {
+  if (!isSetSupported(name, version)) throw new Error(`${name} ${version} not supported`);
+}
@@ -1,176 +1,979 @@
-import { findSensitiveMatches, type SensitiveMatch } from "./sensitivePatterns";
+import { buildAuditRecord, maskValue, type AuditAction, type AuditInput, type AuditRecord } from "./auditRecord";
+import { detectionConfig, detectMatches } from "./backgroundDetection";
+import { concludeCheck, evaluateCompliance, type ComplianceCheck } from "./complianceCheck";
+import { ALL_LOCALES, detectorLabel, getDetector } from "./detectorRegistry";
+import { detectWithProviders, mergeMatches, type DetectionProvider } from "./detectionProviders";
+import {
+  enumerateStories,
+  loadStoryTexts,
+  redactStory,
+  type Story,
+  type StoryKind,
+  type StoryText,
+} from "./documentStories";
+import { redactImages, type ImageFinding, type ImageRedactionMode, type ImageScan } from "./imageRedaction";
+import { BUILT_IN_PROFILES, profileDetectors, type PolicyProfile } from "./policyProfiles";
+import { resolveOverlaps } from "./overlapResolution";
+import { Pseudonymizer, type PseudonymEntry, type RedactionMode } from "./pseudonymizer";
+import { loadScopedTexts, rememberProcessed, type RedactionScope } from "./redactionScope";
+import { DEFAULT_STYLE, styleFont, type RedactionStyle, type RedactionStyleKind } from "./redactionStyles";
+import {
+  buildVaultRecord,
+  deleteDocumentVault,
+  listDocumentVaults,
+  restoreEntries,
+  saveVaultToDocument,
+  sealVault,
+  type RestoreResult,
+  type StoredVault,
+  type VaultEntry,
+} from "./redactionVault";
+import { isSetSupported } from "./requirements";
+import { sanitizeMetadata, type SanitizeFinding, type SanitizeOptions } from "./sanitizeMetadata";
+import { applySensitivityLabel, scoreSensitivity, type SensitivityLabel } from "./sensitivityLabel";
+import type { DetectionText } from "./detectionChunks";
+import {
+  renderReplacement,
+  type Detector,
+  type DetectorLocale,
+  type SensitiveMatch,
+  type SensitiveType,
+} from "./sensitivePatterns";
+import { termListsFingerprint } from "./termLists";
+import {
+  acceptAllRevisions,
+  countBeforeRedaction,
+  findResiduals,
+  isWholeWord,
+  ResidualContentError,
+  type VerificationBaseline,
+} from "./verifyRedaction";
+import { dropOverlaps, locateMatches, type Replacement } from "./wordRanges";
 
-declare const Office: any;
 declare const Word: any;
 
 export type RedactionResult = {
   trackChangesEnabled: boolean;
   headerUpdated: boolean;
-  emails: number;
-  phones: number;
-  ssns: number;
-  cards: number;
-  bankAccounts: number;
-  insurancePolicies: number;
-  employeeIds: number;
-  medicalRecordNumbers: number;
+  // Detected occurrences per detector id.
+  counts: Record<SensitiveType, number>;
   redactionsTotal: number;
+  // Hits that were not replaced and need a reviewer: low-confidence ones (see
+  // AUTO_REDACT_MIN_CONFIDENCE) and spans Word could not locate.
+  heldForReview: number;
+  mode: RedactionMode;
+  // Style each replaced detector was written in (redact mode; pseudonymize writes tokens).
+  styles: Record<SensitiveType, RedactionStyle>;
+  // Token table when mode is "pseudonymize"; empty otherwise.
+  pseudonyms: PseudonymEntry[];
+  // Per-story breakdown, e.g. a phone number removed from the footer of section 3.
+  stories: StoryBreakdown[];
+  // What the metadata/hidden-content pass found and did; empty when it was not requested.
+  sanitization: SanitizeFinding[];
+  // Pictures read with OCR and what was done with each; empty when RedactionOptions.images is unset.
+  // Pictures that could not be processed have status "failed" and need a manual check.
+  images: ImageFinding[];
+  // Finalize mode: revisions accepted and the re-scan found none of the original values.
+  finalized: boolean;
+  // Spans in chunks Word rejected, even after a retry; the rest of the run went ahead.
+  failed: number;
+  // Stopped through RedactionOptions.signal; chunks already written stay redacted.
+  cancelled: boolean;
+  // Structured, value-free evidence of the run; set once the run completes.
+  audit: AuditRecord | null;
+  // Encrypted undo record, when RedactionOptions.vaultPassphrase was given.
+  vault: StoredVault | null;
+  // Tier written into the document when the profile uses sensitivity labels; null otherwise or
+  // when the run was cancelled.
+  sensitivity: SensitivityLabel | null;
 };
 
-export async function runRedactionWorkflow(log: (line: string) => void): Promise<RedactionResult> {
+// Reported while a run scans or writes to the document. `total` is 0 while the amount of work is
+// unknown.
+export type RedactionProgress = {
+  label: string;
+  done: number;
+  total: number;
+  // What done and total count; "span(s)" when omitted.
+  unit?: string;
+};
+
+export type StoryBreakdown = {
+  id: string;
+  kind: StoryKind;
+  label: string;
+  counts: Record<SensitiveType, number>;
+  redacted: number;
+};
+
+// A match together with the story whose text its offsets refer to.
+export type StoryMatch = SensitiveMatch & { storyId: string };
+
+// A match as written into the document, with the marker or token that replaced it and the style
+// it was written in.
+type AppliedMatch = StoryMatch & { replacement: string; style?: RedactionStyleKind };
+
+type AppliedSpans = {
+  applied: AppliedMatch[];
+  // In a chunk Word rejected.
+  failed: StoryMatch[];
+  // Not attempted because the run was cancelled first.
+  notReached: StoryMatch[];
+  // Word did not report their range; left in place for a reviewer.
+  unresolved: StoryMatch[];
+};
+
+export type RedactionOptions = {
+  // Which detectors run, their replacements, the header text and whether tracking is used.
+  // Defaults to the built-in "internal" profile (every detector).
+  profile?: PolicyProfile;
+  // Regions whose national identifiers are looked for (see detectorRegistry.loadActiveLocales);
+  // defaults to all of them.
+  locales?: DetectorLocale[];
+  // The user's replacement style per detector id, over the profile's (see redactionStyles).
+  styles?: Record<SensitiveType, RedactionStyle>;
+  // Whole document (default), the current selection only, or only content that is new or
+  // changed since the last incremental run.
+  scope?: RedactionScope;
+  mode?: RedactionMode;
+  // Pseudonymize mode only: derive tokens from this key so they match across a batch of documents.
+  batchKey?: string;
+  // Metadata and hidden-content categories to clean before redacting; omit to skip the pass.
+  sanitize?: SanitizeOptions;
+  // One-click runs only: read inline pictures with local OCR and black out ("mask") or delete
+  // ("remove") those showing sensitive text. Omit to leave pictures alone.
+  images?: ImageRedactionMode;
+  // True redaction: accept the redaction revisions, turn tracking off and verify that no original
+  // value survives anywhere (throws ResidualContentError otherwise). Default is the tracked,
+  // review-friendly mode.
+  finalize?: boolean;
+  // Write raw values into log lines. Off by default: logs show masked values ("•••-••-6789").
+  revealValues?: boolean;
+  // Cancels the run between chunks. Finalize and the incremental record are skipped when it fires.
+  signal?: AbortSignal;
+  onProgress?: (progress: RedactionProgress) => void;
+  // Encrypt the original values and their locations with this passphrase and store the record in
+  // the document, so the run can be undone later (see redactionVault). Export-only with finalize.
+  vaultPassphrase?: string;
+  // External detection services asked alongside the built-in detectors (see detectionProviders).
+  // One that fails or times out is logged and skipped.
+  providers?: DetectionProvider[];
+};
+
+export type CandidateDecision = "pending" | "accepted" | "rejected";
+
+// A detected value awaiting review, grouping every span where it was found. `type` may be
+// changed by the reviewer (reclassify), which also changes the replacement marker used when the
+// candidate is applied.
+export type RedactionCandidate = {
+  id: string;
+  type: SensitiveType;
+  value: string;
+  context: string;
+  occurrences: number;
+  matches: StoryMatch[];
+  // Highest confidence among the grouped matches.
+  confidence: number;
+  decision: CandidateDecision;
+};
+
+// The one-click workflow only replaces matches at or above this confidence. Heuristic hits
+// below it (partial names, bare street lines) are reported and left for the review flow.
+export const AUTO_REDACT_MIN_CONFIDENCE = 0.6;
+
+const CONTEXT_CHARS = 40;
+
+export async function runRedactionWorkflow(
+  log: (line: string) => void,
+  options: RedactionOptions = {},
+): Promise<RedactionResult> {
+  ensureWordApi();
+
+  return await Word.run(async (context: any) => {
+    const result = emptyResult(options);
+    options.onProgress?.({ label: "Preparing", done: 0, total: 0 });
+    await prepareDocument(context, result, log, options);
+
+    // 2) Load the text of every story in scope, paragraph by paragraph so offsets can be mapped back.
+    const texts = await loadScopedTexts(context, scopeOf(options), detectorFingerprint(options), log);
+    logScan(texts, log);
+
+    const matches = await scanStoryTexts(texts, options, log);
+    const held = matches.filter((m) => m.confidence < AUTO_REDACT_MIN_CONFIDENCE);
+    result.heldForReview = held.length;
+    if (held.length > 0) {
+      log(`Held ${held.length} low-confidence hit(s) for review (${formatCounts(countByType(held))}). Use “Scan & review first” to decide on them.`);
+    }
+
+    const planned = matches.filter((m) => m.confidence >= AUTO_REDACT_MIN_CONFIDENCE);
+    const baseline = await verificationBaseline(context, texts, planned, options);
+    const spans = await redactMatches(context, texts, planned, result, log, options);
+    const pictures = await redactPictures(context, texts, result, log, options);
+    await completeRun(context, texts, spans, held, baseline, result, log, options);
+    result.audit = await auditRun(
+      result,
+      texts,
+      "oneClick",
+      options,
+      spans,
+      [...held.map((m) => ({ m, action: "held" as const }))],
+      pictures,
+    );
+    result.vault = await storeVault(context, texts, spans.applied, result, log, options);
+    return result;
+  });
+}
+
+/**
+ * Phase 1 of the preview-and-approve flow: scan every story without modifying the document and
+ * return every detected value with a context snippet and how often it occurs.
+ */
+export async function scanForCandidates(
+  log: (line: string) => void,
+  options: RedactionOptions = {},
+): Promise<RedactionCandidate[]> {
+  ensureWordApi();
+
+  return await Word.run(async (context: any) => {
+    const texts = await loadScopedTexts(context, scopeOf(options), detectorFingerprint(options), log);
+    logScan(texts, log);
+
+    const candidates = groupCandidates(texts, await scanStoryTexts(texts, options, log));
+    log(`Found ${candidates.length} candidate(s) for review. Nothing has been changed yet.`);
+    return candidates;
+  });
+}
+
+/**
+ * Scan-only pre-distribution check of the whole document (whatever the scope option) against the
+ * active profile. Nothing in the document changes, except the verified-clean stamp in its
+ * settings when `stamp` is set and the check passes.
+ */
+export async function checkDocument(
+  log: (line: string) => void,
+  options: RedactionOptions = {},
+  stamp = false,
+): Promise<ComplianceCheck> {
+  ensureWordApi();
+
+  return await Word.run(async (context: any) => {
+    const texts = await loadScopedTexts(context, "document", detectorFingerprint(options), log);
+    logScan(texts, log);
+
+    const profile = activeProfile(options);
+    const checked = texts.map(({ story, doc }) => ({ id: story.id, label: story.label, text: doc.text }));
+    const matches = await scanTexts(checked, options, log);
+    const report = await evaluateCompliance(checked, matches, profile, AUTO_REDACT_MIN_CONFIDENCE);
+    return await concludeCheck(report, stamp, log);
+  });
+}
+
+/**
+ * Phase 2 of the preview-and-approve flow: enable tracking, add the header, and redact only
+ * the spans of candidates the reviewer accepted (using their possibly reclassified type).
+ *
+ * Offsets come from the scan, so the document must not have been edited in between; spans that
+ * no longer line up with their story's text are skipped and logged.
+ */
+export async function applyApprovedRedactions(
+  candidates: RedactionCandidate[],
+  log: (line: string) => void,
+  options: RedactionOptions = {},
+): Promise<RedactionResult> {
+  ensureWordApi();
+
+  const accepted = candidates.filter((c) => c.decision === "accepted");
+  const approved: StoryMatch[] = accepted.flatMap((c) => c.matches.map((m) => ({ ...m, type: c.type })));
+  const notApproved = candidates.filter((c) => c.decision !== "accepted").flatMap((c) => c.matches);
+  const rejected = candidates.filter((c) => c.decision === "rejected").length;
+  const pending = candidates.length - accepted.length - rejected;
+
+  return await Word.run(async (context: any) => {
+    const result = emptyResult(options);
+    options.onProgress?.({ label: "Preparing", done: 0, total: 0 });
+    log(`Applying ${accepted.length} approved candidate(s) (${rejected} rejected, ${pending} not reviewed).`);
+
+    // Snapshot paragraphs before the header step: the header and body banner inserts add a
+    // paragraph at the start of a story, which would shift scan offsets. Paragraph proxies stay
+    // valid across it.
+    const texts = await loadScopedTexts(context, scopeOf(options), detectorFingerprint(options), () => {});
+    const byStory = new Map(texts.map((t) => [t.story.id, t.doc.text]));
+    const stale = approved.filter((m) => {
+      const text = byStory.get(m.storyId);
+      return text === undefined || text.slice(m.start, m.end).toLowerCase() !== m.value.toLowerCase();
+    });
+    if (stale.length > 0) log(`Skipped ${stale.length} span(s): document changed since the scan. Re-scan to pick them up.`);
+
+    await prepareDocument(context, result, log, options);
+
+    const planned = approved.filter((m) => !stale.includes(m));
+    const baseline = await verificationBaseline(context, texts, planned, options);
+    const spans = await redactMatches(context, texts, planned, result, log, options);
+    await completeRun(context, texts, spans, [...notApproved, ...stale], baseline, result, log, options);
+    result.audit = await auditRun(result, texts, "reviewed", options, spans, [
+      ...notApproved.map((m) => ({ m, action: "notApproved" as const })),
+    ]);
+    result.vault = await storeVault(context, texts, spans.applied, result, log, options);
+    return result;
+  });
+}
+
+/**
+ * Jump to the first occurrence of a candidate. Uses the Word selection rather than highlight
+ * formatting so that reviewing does not modify the document. Comments have no selectable range,
+ * and in selection scope moving the selection would change what the run applies to.
+ */
+export async function selectCandidate(candidate: RedactionCandidate, options: RedactionOptions = {}): Promise<boolean> {
+  ensureWordApi();
+  if (scopeOf(options) === "selection") return false;
+
+  return await Word.run(async (context: any) => {
+    const first = candidate.matches[0];
+    // Same texts as the scan, so incremental offsets refer to the same subset of paragraphs.
+    const texts = await loadScopedTexts(context, scopeOf(options), detectorFingerprint(options), () => {});
+    const storyText = texts.find((t) => t.story.id === first?.storyId);
+    if (!first || !storyText || storyText.story.kind === "comment") return false;
+
+    const { located } = await locateMatches(context, storyText.doc, [first]);
+    const range = located[0]?.range;
+    if (!range) return false;
+    range.select(Word.SelectionMode.select);
+    await context.sync();
+    return true;
+  });
+}
+
+/** Undo vaults stored in the open document by earlier runs, newest first. */
+export async function listUndoVaults(): Promise<StoredVault[]> {
+  ensureWordApi();
+  return await Word.run(async (context: any) => await listDocumentVaults(context));
+}
+
+export async function removeUndoVault(runId: string): Promise<void> {
+  ensureWordApi();
+  await Word.run(async (context: any) => await deleteDocumentVault(context, runId));
+}
+
+/**
+ * Put back the original values of entries from an opened vault. Restored text is tracked when
+ * Track Changes is on, like any other edit.
+ */
+export async function restoreRedactions(entries: VaultEntry[], log: (line: string) => void): Promise<RestoreResult> {
+  ensureWordApi();
+  return await Word.run(async (context: any) => await restoreEntries(context, entries, log));
+}
+
+function ensureWordApi() {
   if (typeof Word === "undefined" || !Word?.run) {
     throw new Error("Word JavaScript API not available. Open this add-in inside Word.");
   }
+}
 
-  const trackingSupported =
-    typeof Office !== "undefined" &&
-    Office?.context?.requirements?.isSetSupported?.("WordApi", "1.5") === true;
+function activeProfile(options: RedactionOptions): PolicyProfile {
+  return options.profile ?? BUILT_IN_PROFILES[0];
+}
 
-  return await Word.run(async (context: any) => {
-    const result: RedactionResult = {
-      trackChangesEnabled: false,
-      headerUpdated: false,
-      emails: 0,
-      phones: 0,
-      ssns: 0,
-      cards: 0,
-      bankAccounts: 0,
-      insurancePolicies: 0,
-      employeeIds: 0,
-      medicalRecordNumbers: 0,
-      redactionsTotal: 0,
-    };
-
-    if (trackingSupported && context?.document && "changeTrackingMode" in context.document) {
-      try {
-        context.document.changeTrackingMode = Word.ChangeTrackingMode.trackAll;
-        result.trackChangesEnabled = true;
-        log("Track Changes: enabled (WordApi 1.5).");
-      } catch {
-        log("Track Changes: supported but could not be enabled (continuing).");
-      }
-    } else {
-      log("Track Changes: not available (WordApi 1.5 not supported).");
-    }
+function activeDetectors(options: RedactionOptions): Detector[] {
+  return profileDetectors(activeProfile(options), options.locales, options.styles);
+}
+
+function scopeOf(options: RedactionOptions): RedactionScope {
+  return options.scope ?? "document";
+}
+
+// Identifies the detector set for incremental runs: content processed under another set must be
+// scanned again.
+function detectorFingerprint(options: RedactionOptions): string {
+  return [
+    activeProfile(options).id,
+    ...activeDetectors(options).map((d) => `${d.id}=${d.replacement}${d.style ? `:${JSON.stringify(d.style)}` : ""}`),
+    termListsFingerprint(),
+    ...(options.providers ?? []).map((p) => `provider:${p.id}`),
+  ].join("|");
+}
+
+function emptyResult(options: RedactionOptions): RedactionResult {
+  return {
+    trackChangesEnabled: false,
+    headerUpdated: false,
+    counts: Object.fromEntries(activeDetectors(options).map((d) => [d.id, 0])),
+    redactionsTotal: 0,
+    heldForReview: 0,
+    mode: options.mode ?? "redact",
+    styles: {},
+    pseudonyms: [],
+    stories: [],
+    sanitization: [],
+    images: [],
+    finalized: false,
+    failed: 0,
+    cancelled: false,
+    audit: null,
+    vault: null,
+    sensitivity: null,
+  };
+}
+
+async function prepareDocument(
+  context: any,
+  result: RedactionResult,
+  log: (line: string) => void,
+  options: RedactionOptions,
+) {
+  const profile = activeProfile(options);
+  log(`Policy: ${profile.name}${profile.classification ? ` (${profile.classification})` : ""}.`);
 
-    // 1) Add confidentiality header (tracked if tracking is enabled).
-    log("Updating header: CONFIDENTIAL DOCUMENT");
+  // 0) Sanitize metadata first: accepting existing revisions must not touch this run's redactions.
+  if (options.sanitize) {
+    log("Sanitizing metadata and hidden content…");
+    result.sanitization = await sanitizeMetadata(context, options.sanitize, activeDetectors(options), log);
+  }
+
+  const trackingSupported = isSetSupported("WordApi", "1.5");
+
+  if (options.finalize && trackingSupported && !isSetSupported("WordApi", "1.6")) {
+    // Revisions can't be accepted through the API here, so don't record any in the first place.
+    context.document.changeTrackingMode = Word.ChangeTrackingMode.off;
+    log("Track Changes: turned off for finalize mode (WordApi 1.6 not supported, so revisions can't be accepted).");
+  } else if (!profile.trackChanges) {
+    log(`Track Changes: not used (policy "${profile.name}").`);
+  } else if (trackingSupported && context?.document && "changeTrackingMode" in context.document) {
     try {
-      result.headerUpdated = await addConfidentialHeader(context);
-      await context.sync();
-      log(result.headerUpdated ? "Header updated." : "Header already present (no change).");
-    } catch (e: any) {
-      // Continue with redaction even if header update fails.
-      result.headerUpdated = false;
-      log("Header update failed (continuing with redaction).");
-      log(formatOfficeError(e));
+      context.document.changeTrackingMode = Word.ChangeTrackingMode.trackAll;
+      result.trackChangesEnabled = true;
+      log("Track Changes: enabled (WordApi 1.5).");
+    } catch {
+      log("Track Changes: supported but could not be enabled (continuing).");
     }
+  } else {
+    log("Track Changes: not available (WordApi 1.5 not supported).");
+  }
 
-    // 2) Load full document text.
-    const body = context.document.body;
-    body.load("text");
+  // 1) Add confidentiality header (tracked if tracking is enabled).
+  if (profile.sensitivityLabels) {
+    log("Header: set from the sensitivity label once the document has been scanned.");
+    return;
+  }
+  if (!profile.header) {
+    log(`Header: none (policy "${profile.name}").`);
+    return;
+  }
+  log(`Updating header: ${profile.header.text}`);
+  try {
+    result.headerUpdated = await addConfidentialHeader(context, profile.header);
     await context.sync();
+    log(result.headerUpdated ? "Header updated." : "Header already present (no change).");
+  } catch (e: any) {
+    // Continue with redaction even if header update fails.
+    result.headerUpdated = false;
+    log("Header update failed (continuing with redaction).");
+    log(formatOfficeError(e));
+  }
+}
 
-    const text: string = body.text ?? "";
-    log(`Scanning document text (${text.length.toLocaleString()} chars)…`);
-
-    const matches = findSensitiveMatches(text);
-    const emails = matches.filter((m) => m.type === "email");
-    const phones = matches.filter((m) => m.type === "phone");
-    const ssns = matches.filter((m) => m.type === "ssn");
-    const cards = matches.filter((m) => m.type === "card");
-    const bankAccounts = matches.filter((m) => m.type === "bank");
-    const insurancePolicies = matches.filter((m) => m.type === "insurancePolicy");
-    const employeeIds = matches.filter((m) => m.type === "employeeId");
-    const medicalRecordNumbers = matches.filter((m) => m.type === "medicalRecordNumber");
-
-    result.emails = emails.length;
-    result.phones = phones.length;
-    result.ssns = ssns.length;
-    result.cards = cards.length;
-    result.bankAccounts = bankAccounts.length;
-    result.insurancePolicies = insurancePolicies.length;
-    result.employeeIds = employeeIds.length;
-    result.medicalRecordNumbers = medicalRecordNumbers.length;
-    log(
-      `Found: ${result.emails} emails, ${result.phones} phones, ${result.ssns} SSNs, ${result.cards} cards, ${result.bankAccounts} bank identifiers, ${result.insurancePolicies} insurance policies, ${result.employeeIds} employee IDs, ${result.medicalRecordNumbers} MRNs.`,
+async function redactMatches(
+  context: any,
+  texts: StoryText[],
+  matches: StoryMatch[],
+  result: RedactionResult,
+  log: (line: string) => void,
+  options: RedactionOptions,
+): Promise<AppliedSpans> {
+  const failed: StoryMatch[] = [];
+  const notReached: StoryMatch[] = [];
+  const unresolvedAll: StoryMatch[] = [];
+  result.counts = { ...result.counts, ...countByType(matches) };
+  log(`Found: ${formatCounts(result.counts)}.`);
+
+  // Pseudonymizer is shared by all stories so a value gets the same token wherever it appears.
+  const pseudonymizer = options.mode === "pseudonymize" ? await createPseudonymizer(context, texts, options) : null;
+  // Reclassified candidates may use a detector the profile doesn't run; they keep its default marker.
+  const detectors = activeDetectors(options);
+  const issued = new Map<SensitiveMatch, { text: string; style?: RedactionStyle }>();
+  const replacementFor = async (m: SensitiveMatch): Promise<Replacement> => {
+    const detector = detectors.find((d) => d.id === m.type) ?? getDetector(m.type);
+    if (pseudonymizer) {
+      const text = await pseudonymizer.tokenFor(m.type, m.value);
+      issued.set(m, { text });
+      return { text };
+    }
+    if (!detector) {
+      issued.set(m, { text: "[REDACTED]" });
+      return { text: "[REDACTED]" };
+    }
+    const style = detector.style ?? DEFAULT_STYLE;
+    const text = renderReplacement(detector, m.value);
+    issued.set(m, { text, style });
+    return { text, font: styleFont(style) };
+  };
+
+  // 3) Redact the detected spans only, story by story and in paragraph chunks within a story:
+  // map each to its Word range and replace it in place.
+  const perStory = texts.map((storyText) => ({
+    storyText,
+    matches: dropOverlaps(matches.filter((m) => m.storyId === storyText.story.id)) as StoryMatch[],
+  }));
+  const progress: RedactionProgress = {
+    label: "Redacting",
+    done: 0,
+    total: perStory.reduce((n, s) => n + s.matches.length, 0),
+  };
+  options.onProgress?.({ ...progress });
+
+  const allReplaced: AppliedMatch[] = [];
+  for (const { storyText, matches: storyMatches } of perStory) {
+    const { story } = storyText;
+    if (storyMatches.length === 0) continue;
+    if (options.signal?.aborted) {
+      notReached.push(...storyMatches);
+      continue;
+    }
+
+    const { replaced, unresolved, failed: storyFailed } = await redactStory(
+      context,
+      storyText,
+      storyMatches,
+      replacementFor,
+      {
+        signal: options.signal,
+        onChunk: (spans, error) => {
+          if (error) log(`${story.label}: a chunk of ${spans} span(s) failed in Word (${formatOfficeError(error)}); continuing.`);
+          progress.done += spans;
+          options.onProgress?.({ ...progress });
+        },
+      },
     );
+    for (const m of replaced as StoryMatch[]) {
+      const { text = "", style } = issued.get(m) ?? {};
+      allReplaced.push({ ...m, replacement: text, style: style?.kind });
+      if (style) result.styles[m.type] = style;
+    }
+    if (unresolved.length > 0) {
+      log(`${story.label}: could not locate ${unresolved.length} span(s) in Word; held for review, check them by hand.`);
+    }
+    unresolvedAll.push(...(unresolved as StoryMatch[]));
+    failed.push(...(storyFailed as StoryMatch[]));
+    const handled = new Set<SensitiveMatch>([...replaced, ...unresolved, ...storyFailed]);
+    notReached.push(...storyMatches.filter((m) => !handled.has(m)));
 
-    // 3) Redact by searching exact matches and replacing ranges.
-    let redacted = 0;
+    result.stories.push({
+      id: story.id,
+      kind: story.kind,
+      label: story.label,
+      counts: countByType(replaced),
+      redacted: replaced.length,
+    });
+    result.redactionsTotal += replaced.length;
 
-    redacted += await redactGroup(context, body, emails, "[REDACTED EMAIL]", log);
-    redacted += await redactGroup(context, body, phones, "[REDACTED PHONE]", log);
-    redacted += await redactGroup(context, body, ssns, "[REDACTED SSN]", log);
-    redacted += await redactGroup(context, body, cards, "[REDACTED CARD]", log);
-    redacted += await redactGroup(context, body, bankAccounts, "[REDACTED BANK]", log);
-    redacted += await redactGroup(context, body, insurancePolicies, "INS-[REDACTED]", log);
-    redacted += await redactGroup(context, body, employeeIds, "EMP-[REDACTED]", log);
-    redacted += await redactGroup(context, body, medicalRecordNumbers, "MRN-[REDACTED]", log);
+    const perValue = new Map<string, number>();
+    for (const m of replaced) perValue.set(m.value, (perValue.get(m.value) ?? 0) + 1);
+    for (const [value, n] of perValue) {
+      log(`Redacted ${n} occurrence(s) of: ${options.revealValues ? value : maskValue(value)} (${story.label})`);
+    }
+  }
 
-    result.redactionsTotal = redacted;
-    return result;
+  result.failed = failed.length;
+  result.heldForReview += unresolvedAll.length;
+  result.cancelled = options.signal?.aborted === true;
+  if (failed.length > 0) {
+    log(`${failed.length} span(s) could not be redacted because Word rejected their chunk. Run again to retry them.`);
+  }
+  if (result.cancelled) {
+    log(`Cancelled: ${result.redactionsTotal} span(s) redacted before stopping, ${notReached.length} not processed.`);
+  }
+  if (pseudonymizer) {
+    result.pseudonyms = pseudonymizer.entries();
+    log(`Pseudonymized ${result.pseudonyms.length} distinct value(s)${options.batchKey ? " using the batch key" : ""}.`);
+  }
+  return { applied: allReplaced, failed, notReached, unresolved: unresolvedAll };
+}
+
+// Numbered tokens continue after those an earlier run left anywhere in the document, which a
+// selection or incremental run has to read beyond its own texts.
+async function createPseudonymizer(context: any, texts: StoryText[], options: RedactionOptions): Promise<Pseudonymizer> {
+  if (options.batchKey) return new Pseudonymizer(options.batchKey);
+  const pseudonymizer = new Pseudonymizer();
+  const all = scopeOf(options) === "document" ? texts : await loadStoryTexts(context, await enumerateStories(context, () => {}));
+  for (const { doc } of all) pseudonymizer.reserveTokens(doc.text);
+  return pseudonymizer;
+}
+
+// Pictures are read after the text so a slow OCR pass never delays the text redactions. Incremental
+// runs always include the body: pasting a screenshot changes no paragraph's text.
+async function redactPictures(
+  context: any,
+  texts: StoryText[],
+  result: RedactionResult,
+  log: (line: string) => void,
+  options: RedactionOptions,
+): Promise<ImageScan[]> {
+  if (!options.images) return [];
+  const stories: Story[] = texts.map((t) => t.story);
+  if (scopeOf(options) === "incremental" && !stories.some((s) => s.id === "body")) {
+    stories.unshift({ id: "body", kind: "body", label: "Body", body: context.document.body });
+  }
+
+  const scans = await redactImages(context, stories, activeDetectors(options), options.images, log, {
+    minConfidence: AUTO_REDACT_MIN_CONFIDENCE,
+    signal: options.signal,
+    onProgress: (done, total) => options.onProgress?.({ label: "Reading pictures", done, total }),
   });
+  result.images = scans.map((s) => s.finding);
+  for (const { applied, held } of scans) {
+    for (const [type, n] of Object.entries(countByType(applied))) result.counts[type] = (result.counts[type] ?? 0) + n;
+    result.redactionsTotal += applied.length;
+    result.heldForReview += held.length;
+  }
+  result.cancelled = options.signal?.aborted === true;
+  return scans;
 }
 
-async function redactGroup(
+// 4) Label, finalize and record processed paragraphs, unless the run was cut short: a partial run
+// must not be labelled or certified, and its unprocessed paragraphs must be scanned again next time.
+// `skipped` are hits the run chose not to redact (held or not approved); their paragraphs, like
+// those of spans Word did not locate, stay unprocessed.
+async function completeRun(
   context: any,
-  body: any,
-  items: SensitiveMatch[],
-  replacement: string,
+  texts: StoryText[],
+  spans: AppliedSpans,
+  skipped: StoryMatch[],
+  baseline: VerificationBaseline | null,
+  result: RedactionResult,
   log: (line: string) => void,
-): Promise<number> {
-  if (items.length === 0) return 0;
-  let count = 0;
-
-  // De-dupe already happens in matcher, but keep stable order for logs.
-  for (const { value } of items) {
-    const ranges = body.search(value, {
-      matchCase: false,
-      matchWholeWord: false,
-      ignorePunct: false,
-      ignoreSpace: false,
-    });
-    ranges.load("items");
-    await context.sync();
+  options: RedactionOptions,
+) {
+  if (result.cancelled) {
+    if (options.finalize) log("Finalize: skipped because the run was cancelled.");
+    return;
+  }
+  // Before finalize, so tracked label edits are accepted with the redactions.
+  if (activeProfile(options).sensitivityLabels) await labelDocument(context, texts, result, log, options);
+  if (options.finalize) {
+    options.onProgress?.({ label: "Verifying", done: 0, total: 0 });
+    await finalizeAndVerify(context, spans.applied, baseline!, result, log, options);
+  }
+  if (scopeOf(options) === "incremental") {
+    if (result.failed > 0) log("Incremental: not recording processed paragraphs because some chunks failed.");
+    else await rememberProcessed(context, detectorFingerprint(options), log, [...skipped, ...spans.unresolved]);
+  }
+}
 
-    if (!ranges.items || ranges.items.length === 0) continue;
+// Label by what the run found plus the redaction markers already in the text it scanned, so a
+// re-run over an already-redacted document scores what the document held, not zero. Markers are
+// only recognizable in the "label" style; as a re-run that finds nothing may just not recognize
+// them, only a whole-document run that found something may lower the tier.
+async function labelDocument(
+  context: any,
+  texts: StoryText[],
+  result: RedactionResult,
+  log: (line: string) => void,
+  options: RedactionOptions,
+) {
+  const markers = countMarkers(texts, options);
+  const counts = { ...result.counts };
+  for (const [type, n] of Object.entries(markers)) counts[type] = (counts[type] ?? 0) + n;
+  const score = scoreSensitivity(counts);
+  const foundNew = Object.values(result.counts).some((n) => n > 0);
+  const why = `score ${score.score}${score.contributions.length ? `: ${formatCounts(Object.fromEntries(score.contributions.map((c) => [c.type, c.count])))}` : ""}`;
+  const marked = Object.values(markers).reduce((n, m) => n + m, 0);
+  if (marked > 0) log(`Label: counting ${marked} redaction marker(s) already in the document.`);
+  try {
+    const label = await applySensitivityLabel(context, score, scopeOf(options) === "document" && foundNew, log);
+    result.sensitivity = label;
+    result.headerUpdated = label.action !== "unchanged" && label.action !== "kept";
+    log(
+      {
+        applied: `Label: ${label.applied} (${why}).`,
+        upgraded: `Label: upgraded from ${label.previous} to ${label.applied} (${why}).`,
+        downgraded: `Label: downgraded from ${label.previous} to ${label.applied} (${why}).`,
+        unchanged: `Label: ${label.applied}, unchanged (${why}).`,
+        kept: `Label: kept ${label.previous}; this run scored ${label.tier} (${why}) but ${foundNew ? "only saw part of the document" : "found nothing new"}, so it does not lower the label.`,
+      }[label.action],
+    );
+  } catch (e: any) {
+    log("Label update failed (the redactions stand).");
+    log(formatOfficeError(e));
+  }
+}
+
+// Label-style markers ("[REDACTED SSN]") per detector id in the text as it was before the run.
+function countMarkers(texts: StoryText[], options: RedactionOptions): Record<SensitiveType, number> {
+  const counts: Record<SensitiveType, number> = {};
+  const seen = new Set<string>();
+  for (const d of activeDetectors(options)) {
+    if ((d.style ?? DEFAULT_STYLE).kind !== "label") continue;
+    const marker = renderReplacement(d, "");
+    if (!marker.trim() || seen.has(marker)) continue;
+    seen.add(marker);
+    const n = texts.reduce((sum, t) => sum + t.doc.text.split(marker).length - 1, 0);
+    if (n > 0) counts[d.id] = n;
+  }
+  return counts;
+}
 
-    for (const r of ranges.items) {
-      r.insertText(replacement, Word.InsertLocation.replace);
-      count += 1;
+// Finalize mode counts the values about to be replaced before any edit, so verification can tell
+// the run's own spans from occurrences it left alone. A selection run only answers for the
+// selection: the same value may legitimately remain elsewhere.
+async function verificationBaseline(
+  context: any,
+  texts: StoryText[],
+  planned: StoryMatch[],
+  options: RedactionOptions,
+): Promise<VerificationBaseline | null> {
+  if (!options.finalize) return null;
+  const byStory = new Map(texts.map((t) => [t.story.id, t.doc.text]));
+  const spans = planned.map((m) => ({
+    type: m.type,
+    value: m.value,
+    storyId: m.storyId,
+    wholeWord: isWholeWord(byStory.get(m.storyId) ?? "", m.start, m.end),
+  }));
+  return await countBeforeRedaction(context, spans, scopeOf(options) === "selection" ? texts.map((t) => t.story) : undefined);
+}
+
+// Finalize mode: make the redactions permanent, then prove it by re-reading everything.
+async function finalizeAndVerify(
+  context: any,
+  replaced: StoryMatch[],
+  baseline: VerificationBaseline,
+  result: RedactionResult,
+  log: (line: string) => void,
+  options: RedactionOptions,
+) {
+  // Whoever turned tracking on, the policy or the user in Word, the redactions are revisions now.
+  if (isSetSupported("WordApi", "1.6")) {
+    await acceptAllRevisions(context, log);
+    result.trackChangesEnabled = false;
+  }
+
+  log(`Finalize: verifying ${replaced.length} redacted occurrence(s) are gone (including revision text)…`);
+  const residuals = await findResiduals(context, baseline);
+  if (residuals.length > 0) throw new ResidualContentError(residuals, options.revealValues);
+
+  result.finalized = true;
+  log("Finalize: verified. No original values remain in the document or its revision history.");
+}
+
+// 5) Undo vault. Finalize promises no original survives in the file, so there the record is only
+// offered for export.
+async function storeVault(
+  context: any,
+  texts: StoryText[],
+  applied: AppliedMatch[],
+  result: RedactionResult,
+  log: (line: string) => void,
+  options: RedactionOptions,
+): Promise<StoredVault | null> {
+  if (!options.vaultPassphrase || applied.length === 0) return null;
+  const record = buildVaultRecord(result.audit?.runId ?? crypto.randomUUID(), activeProfile(options).name, texts, applied);
+  const stored = await sealVault(record, options.vaultPassphrase);
+  if (result.finalized) {
+    log("Undo vault: not stored in the finalized document. Export it to keep a way back.");
+    return stored;
+  }
+  try {
+    await saveVaultToDocument(context, stored);
+    log(`Undo vault: ${stored.count} original value(s) encrypted and stored in the document.`);
+  } catch (e: any) {
+    log(`Undo vault: could not store it in the document (${e?.message ?? String(e)}). Export it instead.`);
+  }
+  return stored;
+}
+
+async function auditRun(
+  result: RedactionResult,
+  texts: StoryText[],
+  workflow: AuditRecord["workflow"],
+  options: RedactionOptions,
+  { applied, failed, notReached, unresolved }: AppliedSpans,
+  skipped: Array<{ m: StoryMatch; action: AuditAction }>,
+  pictures: ImageScan[] = [],
+): Promise<AuditRecord> {
+  const byStory = new Map(texts.map((t) => [t.story.id, t]));
+  const replacedAction: AuditAction = result.mode === "pseudonymize" ? "pseudonymized" : "redacted";
+  const spans: AuditInput["spans"] = [
+    ...applied.map((m) => ({ m, action: replacedAction, replacement: m.replacement })),
+    ...[
+      ...skipped,
+      ...unresolved.map((m) => ({ m, action: "held" as const })),
+      ...failed.map((m) => ({ m, action: "failed" as const })),
+      ...notReached.map((m) => ({ m, action: "cancelled" as const })),
+    ].map((s) => ({ ...s, replacement: undefined })),
+  ].flatMap(({ m, action, replacement }) => {
+    const storyText = byStory.get(m.storyId);
+    if (!storyText) return [];
+    const { story, doc } = storyText;
+    return [{ match: m, action, storyId: story.id, story: story.label, text: doc.text, replacement }];
+  });
+  for (const { finding, text, applied, held } of pictures) {
+    const replacement = finding.status === "removed" ? "[picture removed]" : "[picture masked]";
+    const span = { storyId: finding.id, story: finding.label, text };
+    spans.push(
+      ...applied.map((match) => ({ ...span, match, action: "redacted" as const, replacement })),
+      ...held.map((match) => ({ ...span, match, action: "held" as const, replacement: undefined })),
+    );
+  }
+
+  const profile = activeProfile(options);
+  return await buildAuditRecord({
+    policy: { id: profile.id, name: profile.name, classification: profile.classification },
+    scope: scopeOf(options),
+    locales: options.locales ?? ALL_LOCALES,
+    detectors: activeDetectors(options),
+    workflow,
+    mode: result.mode,
+    finalized: result.finalized,
+    cancelled: result.cancelled,
+    trackChangesEnabled: result.trackChangesEnabled,
+    autoRedactMinConfidence: AUTO_REDACT_MIN_CONFIDENCE,
+    sanitize: options.sanitize ?? null,
+    counts: result.counts,
+    redactionsTotal: result.redactionsTotal,
+    heldForReview: result.heldForReview,
+    sanitization: result.sanitization,
+    images: result.images,
+    spans,
+  });
+}
+
+/**
+ * Detect with the active profile off the UI thread (see backgroundDetection), reporting the
+ * characters scanned and the hits found so far, and merge in what the configured providers find
+ * meanwhile, resolving overlaps between the two. Throws DetectionCancelledError when the run's signal fires first.
+ */
+export async function scanTexts(
+  texts: DetectionText[],
+  options: RedactionOptions,
+  log: (line: string) => void = () => {},
+): Promise<StoryMatch[]> {
+  const providers = options.providers ?? [];
+  const types = activeDetectors(options).map((d) => d.id);
+  const external = providers.length > 0 ? detectWithProviders(providers, texts, types, options.signal) : null;
+
+  let found = 0;
+  const local = await detectMatches(texts, detectionConfig(activeProfile(options), options.locales, options.styles), {
+    signal: options.signal,
+    onMatches: (matches, done, total) => {
+      found += matches.length;
+      options.onProgress?.({ label: `Scanning (${found} found)`, done, total, unit: "character(s)" });
+    },
+  });
+  if (!external) return local;
+
+  options.onProgress?.({ label: `Waiting for ${providers.map((p) => p.name).join(", ")}`, done: 0, total: 0 });
+  const outcomes = await external;
+  for (const { provider, status, matches, ignored, detail } of outcomes) {
+    if (status === "ok") {
+      log(`Provider ${provider.name}: ${matches.length} finding(s)${ignored ? `, ${ignored} span(s) ignored` : ""}.`);
+    } else {
+      log(`Provider ${provider.name}: ${status === "timeout" ? "timed out" : "failed"} (${detail}); using local detection only.`);
     }
-    await context.sync();
-    log(`Redacted ${ranges.items.length} occurrence(s) of: ${value}`);
   }
+  // Provider hits can overlap local ones of another type; settle those per story as locally.
+  const merged = mergeMatches(local, outcomes.flatMap((o) => o.matches));
+  const detectors = activeDetectors(options);
+  return texts.flatMap((t) => resolveOverlaps(t.text, merged.filter((m) => m.storyId === t.id), detectors));
+}
+
+async function scanStoryTexts(
+  texts: StoryText[],
+  options: RedactionOptions,
+  log: (line: string) => void,
+): Promise<StoryMatch[]> {
+  return await scanTexts(
+    texts.map(({ story, doc }) => ({ id: story.id, text: doc.text })),
+    options,
+    log,
+  );
+}
+
+function logScan(texts: StoryText[], log: (line: string) => void) {
+  const chars = texts.reduce((n, t) => n + t.doc.text.length, 0);
+  log(`Scanning ${texts.length} story/stories (${chars.toLocaleString()} chars)…`);
+}
+
+function countByType(matches: SensitiveMatch[]): Record<SensitiveType, number> {
+  const counts: Record<SensitiveType, number> = {};
+  for (const m of matches) counts[m.type] = (counts[m.type] ?? 0) + 1;
+  return counts;
+}
+
+export function formatCounts(counts: Record<SensitiveType, number>): string {
+  return Object.entries(counts)
+    .map(([id, n]) => `${n} ${detectorLabel(id)}`)
+    .join(", ");
+}
+
+// Group spans by type and (case-insensitive) value so the reviewer decides once per value,
+// wherever in the document it appears.
+function groupCandidates(texts: StoryText[], matches: StoryMatch[]): RedactionCandidate[] {
+  const stories = new Map(texts.map((t) => [t.story.id, t]));
+  const groups = new Map<string, RedactionCandidate>();
+  for (const m of matches) {
+    const key = `${m.type}:${m.value.toLowerCase()}`;
+    let c = groups.get(key);
+    if (!c) {
+      const storyText = stories.get(m.storyId);
+      const snippet = contextSnippet(storyText?.doc.text ?? m.value, m);
+      c = {
+        id: `c${groups.size + 1}`,
+        type: m.type,
+        value: m.value,
+        context: storyText && storyText.story.kind !== "body" ? `[${storyText.story.label}] ${snippet}` : snippet,
+        occurrences: 0,
+        matches: [],
+        confidence: 0,
+        decision: "pending",
+      };
+      groups.set(key, c);
+    }
+    c.matches.push(m);
+    c.occurrences += 1;
+    c.confidence = Math.max(c.confidence, m.confidence);
+  }
+  return [...groups.values()];
+}
 
-  return count;
+function contextSnippet(text: string, m: SensitiveMatch): string {
+  const start = Math.max(0, m.start - CONTEXT_CHARS);
+  const end = Math.min(text.length, m.end + CONTEXT_CHARS);
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
 }
 
-async function addConfidentialHeader(context: any): Promise<boolean> {
+type HeaderStyle = NonNullable<PolicyProfile["header"]>;
+
+/**
+ * Insert the policy header at the top of the first header of each section that accepts it, or
+ * as a banner paragraph at the top of the body when no section header can be reached. Returns
+ * false when the text is already there.
+ */
+export async function addConfidentialHeader(context: any, header: HeaderStyle): Promise<boolean> {
   const sections = context.document.sections;
   sections.load("items");
   await context.sync();
 
   let changed = false;
+  let reachable = false;
   for (const section of sections.items) {
-    const updated = await tryUpdateAnyHeaderInSection(context, section);
-    if (updated) changed = true;
+    const outcome = await tryUpdateAnyHeaderInSection(context, section, header);
+    if (outcome === "added") changed = true;
+    if (outcome !== "unavailable") reachable = true;
   }
 
   // Some Word hosts/docs can throw on Section.getHeader (GeneralException). In that case,
   // fall back to a top-of-document banner so the requirement is still met for the user.
-  if (!changed) {
+  if (!reachable) {
     const body = context.document.body;
     body.load("text");
     await context.sync();
 
     const bodyText: string = (body.text ?? "").trimStart();
-    if (!bodyText.toUpperCase().startsWith("CONFIDENTIAL DOCUMENT")) {
+    if (!bodyText.toUpperCase().startsWith(header.text.toUpperCase())) {
       // Body.insertParagraph supports InsertLocation.start across hosts more reliably than Range.insertParagraph.
-      const p = body.insertParagraph("CONFIDENTIAL DOCUMENT", Word.InsertLocation.start);
+      const p = body.insertParagraph(header.text, Word.InsertLocation.start);
       p.font.bold = true;
-      p.font.color = "#B00020";
+      p.font.color = header.color;
       p.alignment = Word.Alignment.centered;
       changed = true;
     }
@@ -179,7 +982,12 @@ async function addConfidentialHeader(context: any): Promise<boolean> {
   return changed;
 }
 
-async function tryUpdateAnyHeaderInSection(context: any, section: any): Promise<boolean> {
+// "present" when a header already carries the text, "unavailable" when no header type could be read.
+async function tryUpdateAnyHeaderInSection(
+  context: any,
+  section: any,
+  header: HeaderStyle,
+): Promise<"added" | "present" | "unavailable"> {
   const headerTypes = [
     Word.HeaderFooterType.primary,
     Word.HeaderFooterType.firstPage,
@@ -188,27 +996,26 @@ async function tryUpdateAnyHeaderInSection(context: any, section: any): Promise<
 
   for (const type of headerTypes) {
     try {
-      const header = section.getHeader(type);
-      const headerRange = header.getRange();
+      const headerRange = section.getHeader(type).getRange();
       headerRange.load("text");
       await context.sync();
 
       const current: string = (headerRange.text ?? "").trim();
-      if (current.toUpperCase().includes("CONFIDENTIAL DOCUMENT")) return false;
+      if (current.toUpperCase().includes(header.text.toUpperCase())) return "present";
 
       // Range.insertParagraph does not support InsertLocation.start (it expects before/after in some hosts),
       // so use insertText at the start of the header range instead.
-      const inserted = headerRange.insertText("CONFIDENTIAL DOCUMENT\r", Word.InsertLocation.start);
+      const inserted = headerRange.insertText(`${header.text}\r`, Word.InsertLocation.start);
       inserted.font.bold = true;
-      inserted.font.color = "#B00020";
+      inserted.font.color = header.color;
       inserted.paragraphFormat.alignment = Word.Alignment.centered;
-      return true;
+      return "added";
     } catch {
       // Try the next header type (some docs/hosts reject certain header types or header access entirely).
     }
   }
 
-  return false;
+  return "unavailable";
 }
 
 function formatOfficeError(e: any): string {
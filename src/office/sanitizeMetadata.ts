@@ -0,0 +1,268 @@
+import { VAULT_NAMESPACE } from "./redactionVault";
+import { isSetSupported, requireSet } from "./requirements";
+import { findSensitiveMatches, renderReplacement, type Detector } from "./sensitivePatterns";
+
+// Parts of the file outside the visible text that can still identify people.
+export type SanitizeCategory =
+  | "coreProperties"
+  | "customProperties"
+  | "customXmlParts"
+  | "trackedChanges"
+  | "comments"
+  | "hiddenText";
+
+export type SanitizeOptions = Record<SanitizeCategory, boolean>;
+
+export type SanitizeFinding = {
+  category: SanitizeCategory;
+  item: string;
+  action: "cleared" | "scrubbed" | "removed" | "accepted" | "reported";
+  detail: string;
+};
+
+export const SANITIZE_LABELS: Record<SanitizeCategory, string> = {
+  coreProperties: "Document properties (author, company, title…)",
+  customProperties: "Custom properties",
+  customXmlParts: "Custom XML parts",
+  trackedChanges: "Accept existing tracked changes (removes revision authors)",
+  comments: "Delete existing comments",
+  hiddenText: "Remove hidden text",
+};
+
+// Destructive, review-affecting steps are opt-in.
+export const DEFAULT_SANITIZE_OPTIONS: SanitizeOptions = {
+  coreProperties: true,
+  customProperties: true,
+  customXmlParts: true,
+  trackedChanges: false,
+  comments: false,
+  hiddenText: true,
+};
+
+// Properties that name people or organizations are cleared outright; free-text ones are scrubbed.
+const IDENTITY_PROPERTIES = ["author", "company", "manager"] as const;
+const TEXT_PROPERTIES = ["title", "subject", "keywords", "comments", "category"] as const;
+
+/**
+ * Inspect and clean metadata and hidden content, scrubbing free text with `detectors` (the active
+ * profile's, with their replacements and styles). Must run before Track Changes is switched on,
+ * otherwise accepting existing revisions would also accept this run's redactions.
+ *
+ * Each category is isolated: one the host doesn't support is logged and skipped.
+ */
+export async function sanitizeMetadata(
+  context: any,
+  options: SanitizeOptions,
+  detectors: Detector[],
+  log: (line: string) => void,
+): Promise<SanitizeFinding[]> {
+  const findings: SanitizeFinding[] = [];
+  const scrub = (value: string) => scrubText(value, detectors);
+  const steps: Array<[SanitizeCategory, () => Promise<void>]> = [
+    ["coreProperties", () => sanitizeCoreProperties(context, findings, scrub)],
+    ["customProperties", () => sanitizeCustomProperties(context, findings, scrub)],
+    ["customXmlParts", () => sanitizeCustomXmlParts(context, findings, scrub)],
+    ["trackedChanges", () => acceptTrackedChanges(context, findings)],
+    ["comments", () => deleteComments(context, findings)],
+    ["hiddenText", () => removeHiddenText(context, findings, scrub)],
+  ];
+
+  for (const [category, run] of steps) {
+    if (!options[category]) continue;
+    try {
+      await run();
+    } catch (e: any) {
+      log(`Sanitize ${category}: skipped (${e?.message ?? "not available in this host"}).`);
+    }
+  }
+
+  for (const f of findings) log(`Sanitize: ${f.action} ${f.item} — ${f.detail}`);
+  if (findings.length === 0) log("Sanitize: no metadata or hidden content needed cleaning.");
+  return findings;
+}
+
+type Scrub = (value: string) => { text: string; count: number };
+
+async function sanitizeCoreProperties(context: any, findings: SanitizeFinding[], scrub: Scrub) {
+  const props = context.document.properties;
+  props.load([...IDENTITY_PROPERTIES, ...TEXT_PROPERTIES, "lastAuthor"].join(","));
+  await context.sync();
+
+  for (const key of IDENTITY_PROPERTIES) {
+    if (!props[key]) continue;
+    props[key] = "";
+    findings.push({ category: "coreProperties", item: key, action: "cleared", detail: "identity field" });
+  }
+  for (const key of TEXT_PROPERTIES) {
+    const { text, count } = scrub(props[key] ?? "");
+    if (count === 0) continue;
+    props[key] = text;
+    findings.push({ category: "coreProperties", item: key, action: "scrubbed", detail: `${count} match(es)` });
+  }
+  if (props.lastAuthor) {
+    // Read-only in the API; Word rewrites it with the current user on the next save.
+    findings.push({ category: "coreProperties", item: "lastAuthor", action: "reported", detail: "read-only, reset on save" });
+  }
+  await context.sync();
+}
+
+async function sanitizeCustomProperties(context: any, findings: SanitizeFinding[], scrub: Scrub) {
+  const custom = context.document.properties.customProperties;
+  custom.load("items/key,items/value,items/type");
+  await context.sync();
+
+  for (const prop of custom.items) {
+    if (typeof prop.value !== "string") continue;
+    const { text, count } = scrub(prop.value);
+    if (count === 0) continue;
+    custom.add(prop.key, text);
+    findings.push({ category: "customProperties", item: prop.key, action: "scrubbed", detail: `${count} match(es)` });
+  }
+  await context.sync();
+}
+
+// The add-in's own undo vaults are left alone: they hold the originals on purpose, encrypted, and
+// a replacement inside their JSON would make them unreadable.
+async function sanitizeCustomXmlParts(context: any, findings: SanitizeFinding[], scrub: Scrub) {
+  requireSet("WordApi", "1.4");
+  const parts = context.document.customXmlParts;
+  parts.load("items/id,items/namespaceUri");
+  await context.sync();
+
+  const scanned = parts.items.filter((part: any) => part.namespaceUri !== VAULT_NAMESPACE);
+  const xmls = scanned.map((part: any) => part.getXml());
+  await context.sync();
+
+  scanned.forEach((part: any, i: number) => {
+    let total = 0;
+    // Only touch text nodes so tags, attributes and namespaces stay intact.
+    const xml = String(xmls[i].value ?? "").replace(/>([^<]+)</g, (whole, inner: string) => {
+      const { text, count } = scrub(decodeXml(inner));
+      total += count;
+      return count ? `>${escapeXml(text)}<` : whole;
+    });
+    if (total === 0) return;
+    part.setXml(xml);
+    findings.push({
+      category: "customXmlParts",
+      item: part.namespaceUri || part.id,
+      action: "scrubbed",
+      detail: `${total} match(es)`,
+    });
+  });
+  await context.sync();
+}
+
+async function acceptTrackedChanges(context: any, findings: SanitizeFinding[]) {
+  requireSet("WordApi", "1.6");
+  const changes = context.document.body.getTrackedChanges();
+  changes.load("items/author");
+  await context.sync();
+  if (changes.items.length === 0) return;
+
+  const authors = new Set<string>(changes.items.map((c: any) => c.author).filter(Boolean));
+  changes.acceptAll();
+  await context.sync();
+  findings.push({
+    category: "trackedChanges",
+    item: `${changes.items.length} revision(s)`,
+    action: "accepted",
+    detail: `authors removed: ${authors.size}`,
+  });
+}
+
+async function deleteComments(context: any, findings: SanitizeFinding[]) {
+  requireSet("WordApi", "1.4");
+  const comments = context.document.body.getComments();
+  comments.load("items/authorName");
+  await context.sync();
+  if (comments.items.length === 0) return;
+
+  const authors = new Set<string>(comments.items.map((c: any) => c.authorName).filter(Boolean));
+  for (const c of comments.items) c.delete();
+  await context.sync();
+  findings.push({
+    category: "comments",
+    item: `${comments.items.length} comment(s)`,
+    action: "removed",
+    detail: `authors removed: ${authors.size}`,
+  });
+}
+
+// Hidden runs are found through the body OOXML (<w:vanish/>), then deleted by searching for their
+// text and keeping only hits whose font is hidden. Best effort: hosts without Font.hidden only report.
+async function removeHiddenText(context: any, findings: SanitizeFinding[], scrub: Scrub) {
+  const ooxml = context.document.body.getOoxml();
+  await context.sync();
+
+  const snippets = hiddenRunTexts(String(ooxml.value ?? ""));
+  if (snippets.length === 0) return;
+
+  let removed = 0;
+  if (isSetSupported("WordApiDesktop", "1.1")) {
+    const searches = snippets.map((t) => {
+      const ranges = context.document.body.search(t.slice(0, 255), { matchCase: true });
+      ranges.load("items/font/hidden");
+      return ranges;
+    });
+    await context.sync();
+    for (const ranges of searches) {
+      for (const r of ranges.items) {
+        if (r.font?.hidden !== true) continue;
+        r.delete();
+        removed += 1;
+      }
+    }
+    await context.sync();
+  }
+
+  const leaking = snippets.reduce((n, t) => n + scrub(t).count, 0);
+  findings.push({
+    category: "hiddenText",
+    item: `${snippets.length} hidden run(s)`,
+    action: removed > 0 ? "removed" : "reported",
+    detail: `${leaking} sensitive match(es)${removed > 0 ? `, ${removed} range(s) deleted` : ", host cannot delete hidden text"}`,
+  });
+}
+
+function hiddenRunTexts(ooxml: string): string[] {
+  const out: string[] = [];
+  const runRe = /<w:r\b[^>]*>([\s\S]*?)<\/w:r>/g;
+  let m: RegExpExecArray | null;
+  while ((m = runRe.exec(ooxml)) !== null) {
+    if (!/<w:vanish(?:\s+w:val="(?:true|1|on)")?\s*\/>/.test(m[1])) continue;
+    const text = [...m[1].matchAll(/<w:t\b[^>]*>([^<]*)<\/w:t>/g)].map((t) => t[1]).join("");
+    if (text.trim()) out.push(decodeXml(text));
+  }
+  return out;
+}
+
+// Replace every detected span in a string with its detector's replacement marker.
+function scrubText(value: string, detectors: Detector[]): { text: string; count: number } {
+  if (!value) return { text: value, count: 0 };
+  const matches = findSensitiveMatches(value, detectors);
+  let text = value;
+  let lastStart = Infinity;
+  let count = 0;
+  for (const m of [...matches].sort((a, b) => b.start - a.start)) {
+    if (m.end > lastStart) continue;
+    const detector = detectors.find((d) => d.id === m.type);
+    text = text.slice(0, m.start) + (detector ? renderReplacement(detector, m.value) : "[REDACTED]") + text.slice(m.end);
+    lastStart = m.start;
+    count += 1;
+  }
+  return { text, count };
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
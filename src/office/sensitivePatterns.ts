@@ -1,4 +1,11 @@
-export type SensitiveType =
+import { resolveOverlaps } from "./overlapResolution";
+import { DEFAULT_STYLE, styleReplacement, type RedactionStyle } from "./redactionStyles";
+import { isAllowlisted } from "./termLists";
+
+// Detector id of a match. Built-in ids are listed in BuiltInType; custom detectors add their own.
+export type SensitiveType = string;
+
+export type BuiltInType =
   | "email"
   | "phone"
   | "ssn"
@@ -6,13 +13,78 @@ export type SensitiveType =
   | "bank"
   | "insurancePolicy"
   | "employeeId"
-  | "medicalRecordNumber";
-
+  | "medicalRecordNumber"
+  | "personName"
+  | "address"
+  | "postalCode"
+  | "dateOfBirth"
+  | "ukNino"
+  | "caSin"
+  | "inAadhaar"
+  | "inPan"
+  | "euNationalId"
+  | "passport"
+  | "vatId";
+
+// Region whose identifiers a detector looks for. Detectors without one run for every document;
+// the others only while their region is active (see detectorRegistry's active locales). The
+// original detectors (SSN included) have none, so choosing regions never turns them off.
+export type DetectorLocale = "uk" | "ca" | "in" | "eu";
+
+// One detected occurrence. `start`/`end` are offsets into the scanned text (end exclusive),
+// `rule` names the pattern that fired and `confidence` is a 0–1 score for that rule.
 export type SensitiveMatch = {
   type: SensitiveType;
   value: string;
+  start: number;
+  end: number;
+  confidence: number;
+  rule: string;
+  // Set when the hit won a contest with overlapping hits of other detectors (see overlapResolution).
+  resolution?: MatchResolution;
 };
 
+// Why a hit was kept over the hits it overlapped: its contest score, how that was reached
+// ("bank 0.75, \"acct\" before; beats phone 0.70, checksum ok (0.85)") and the rivals it beat.
+export type MatchResolution = {
+  score: number;
+  reason: string;
+  rivals: Array<{ type: SensitiveType; rule: string; score: number }>;
+};
+
+/**
+ * A pluggable detector. Either `pattern` (optionally narrowed by `group`, `validate` and
+ * `keywords`) or a custom `find` function produces matches; the workflow, counts and UI are all
+ * derived from the registered detectors.
+ *
+ * `replacement` is a template: "{label}" is replaced with the upper-cased label. `style` decides
+ * whether that template or a form derived from the value (mask, black bar…) is written.
+ */
+export type Detector = {
+  id: SensitiveType;
+  label: string;
+  replacement: string;
+  pattern?: RegExp;
+  group?: number;
+  validate?: (value: string) => boolean;
+  // When set on a `pattern` detector, a hit only counts if one of these appears within
+  // KEYWORD_WINDOW chars. `find` detectors apply their own context rules. Either way they favour
+  // the detector's hits when they overlap another detector's.
+  keywords?: string[];
+  find?: (text: string) => SensitiveMatch[];
+  // Checksum of a hit, for overlap contests: true when it confirms the type, false when it
+  // contradicts it, null when the hit's rule has none.
+  verify?: (match: SensitiveMatch) => boolean | null;
+  confidence?: number;
+  // Runs only while one of these regions is active; omitted for region-neutral detectors.
+  locales?: DetectorLocale[];
+  // Set from the policy profile (and the user's overrides); the label template when omitted.
+  style?: RedactionStyle;
+  builtIn?: boolean;
+};
+
+const KEYWORD_WINDOW = 50;
+
 // Email: basic RFC-ish pattern, anchored with word boundaries to avoid trailing punctuation.
 const EMAIL_RE = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
 
@@ -30,6 +102,21 @@ const SSN_LAST4_CONTEXT_RE = /\b(?:social security number|ssn)\b[^0-9]{0,80}(\d{
 const PHONE_RE =
   /(?<!\d)(?:\+?\d{1,3}[-.\s]*)?(?:\(\s*\d{3}\s*\)|\d{3})[-.\s]*\d{3}[-.\s]*\d{4}(?!\d)/g;
 
+// E.164 international numbers: "+" and a country code, then digit groups, optionally with the
+// UK/EU-style "(0)" trunk prefix ("+44 (0)20 7946 0958"). Validated against E164_LENGTHS.
+const E164_CANDIDATE_RE = /(?<![\w+])\+\d{1,3}(?:[-.\s]?(?:\(0\)\s?)?\(?\d+\)?){1,8}(?!\d)/g;
+
+// Country code → allowed length of the national significant number (without the trunk 0).
+const E164_LENGTHS: Record<string, [number, number]> = {
+  "1": [10, 10], "7": [10, 10], "27": [9, 9], "30": [10, 10], "31": [9, 9], "32": [8, 9], "33": [9, 9],
+  "34": [9, 9], "36": [8, 9], "39": [6, 11], "40": [9, 9], "41": [9, 9], "43": [4, 13], "44": [9, 10],
+  "45": [8, 8], "46": [7, 13], "47": [8, 8], "48": [9, 9], "49": [6, 13], "52": [10, 10], "55": [10, 11],
+  "61": [9, 9], "64": [8, 10], "65": [8, 8], "81": [9, 10], "86": [10, 11], "91": [10, 10], "351": [9, 9],
+  "352": [4, 11], "353": [7, 9], "354": [7, 9], "356": [8, 8], "357": [8, 8], "358": [5, 12], "359": [8, 9],
+  "370": [8, 8], "371": [8, 8], "372": [7, 8], "385": [8, 9], "386": [8, 8], "420": [9, 9], "421": [9, 9],
+  "971": [8, 9], "972": [8, 9],
+};
+
 // Credit/debit card candidates (13–19 digits) with spaces/dashes allowed.
 // Prefer Luhn-valid numbers, but also allow non-Luhn numbers when clearly labeled
 // (e.g., "credit card number 4532-...") to handle redaction test docs.
@@ -49,121 +136,230 @@ const INS_POLICY_RE = /\bINS[-\s]*\d{6,14}\b/gi;
 const EMPLOYEE_ID_RE = /\bEMP[-\s]*\d{2,4}(?:[-\s]*\d{2,6})+\b/gi;
 const MRN_RE = /\bMRN[-\s]*\d{4,14}\b/gi;
 
-export function findSensitiveMatches(text: string): SensitiveMatch[] {
+const CARD_KEYWORDS = ["credit card", "debit card", "card number", "visa", "mastercard", "amex", "american express"];
+// Any CARD_KEYWORDS entry as a word, with spaces optional ("creditcard").
+const CARD_KEYWORD_RE = new RegExp(
+  `\\b(?:${CARD_KEYWORDS.map((k) => k.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/ /g, "\\s*")).join("|")})\\b`,
+);
+
+export const BUILT_IN_DETECTORS: Detector[] = ([
+  { id: "email", label: "Email", replacement: "[REDACTED EMAIL]", pattern: EMAIL_RE, confidence: 0.95 },
+  {
+    id: "phone",
+    label: "Phone",
+    replacement: "[REDACTED PHONE]",
+    keywords: ["phone", "tel", "call", "mobile", "cell", "fax"],
+    find: findPhones,
+    verify: (m) => (m.rule === "phone-e164" ? true : isValidNanp(m.value)),
+  },
+  {
+    id: "ssn",
+    label: "SSN",
+    replacement: "[REDACTED SSN]",
+    keywords: ["social security number", "ssn"],
+    find: (text) => [
+      ...matchAll(text, SSN_RE).map((m) => toMatch("ssn", "ssn", 0.9, m)),
+      ...findSsnLast4(text).map((m) => toMatch("ssn", "ssn-last4-context", 0.6, m)),
+    ],
+    verify: (m) => (m.rule === "ssn" ? isPlausibleSsn(m.value) : null),
+  },
+  {
+    id: "card",
+    label: "Card",
+    replacement: "[REDACTED CARD]",
+    keywords: CARD_KEYWORDS,
+    find: findCreditCards,
+    verify: (m) => luhnCheck(m.value.replace(/\D/g, "")),
+  },
+  {
+    id: "bank",
+    label: "Bank",
+    replacement: "[REDACTED BANK]",
+    keywords: ["routing", "account", "acct", "sort code", "iban"],
+    find: findBankAccounts,
+    verify: (m) =>
+      m.rule === "iban" ? isValidIban(m.value.replace(/\s+/g, "").toUpperCase())
+      : m.rule === "routing" ? isValidAbaRouting(m.value)
+      : null,
+  },
+  { id: "insurancePolicy", label: "Insurance policy", replacement: "INS-[REDACTED]", pattern: INS_POLICY_RE, confidence: 0.9 },
+  { id: "employeeId", label: "Employee ID", replacement: "EMP-[REDACTED]", pattern: EMPLOYEE_ID_RE, confidence: 0.9 },
+  { id: "medicalRecordNumber", label: "MRN", replacement: "MRN-[REDACTED]", pattern: MRN_RE, confidence: 0.9 },
+] satisfies Detector[]).map((d) => ({ ...d, builtIn: true }));
+
+/**
+ * Every detector's matches in `text`, minus allowlisted values (see termLists), by position.
+ * Where detectors claim the same text, one hit remains (see overlapResolution).
+ */
+export function findSensitiveMatches(text: string, detectors: Detector[] = BUILT_IN_DETECTORS): SensitiveMatch[] {
   const out: SensitiveMatch[] = [];
+  for (const d of detectors) out.push(...runDetector(text, d));
+  return resolveOverlaps(text, out.filter((m) => !isAllowlisted(m)), detectors);
+}
 
-  for (const value of matchAllUnique(text, EMAIL_RE)) out.push({ type: "email", value });
-  for (const value of matchAllUnique(text, SSN_RE)) out.push({ type: "ssn", value });
-  for (const value of findSsnLast4(text)) out.push({ type: "ssn", value });
-  for (const value of matchAllUnique(text, PHONE_RE)) out.push({ type: "phone", value });
-  for (const value of findCreditCards(text)) out.push({ type: "card", value });
-  for (const value of findBankAccounts(text)) out.push({ type: "bank", value });
-  for (const value of matchAllUnique(text, INS_POLICY_RE)) out.push({ type: "insurancePolicy", value });
-  for (const value of matchAllUnique(text, EMPLOYEE_ID_RE)) out.push({ type: "employeeId", value });
-  for (const value of matchAllUnique(text, MRN_RE)) out.push({ type: "medicalRecordNumber", value });
+export function runDetector(text: string, d: Detector): SensitiveMatch[] {
+  if (d.find) return d.find(text);
+  if (!d.pattern) return [];
 
+  const keywords = (d.keywords ?? []).map((k) => k.toLowerCase()).filter(Boolean);
+  const out: SensitiveMatch[] = [];
+  for (const span of matchAll(text, d.pattern, d.group ?? 0)) {
+    if (d.validate && !d.validate(span.value)) continue;
+    if (keywords.length > 0) {
+      const ctx = text
+        .slice(Math.max(0, span.start - KEYWORD_WINDOW), Math.min(text.length, span.end + KEYWORD_WINDOW))
+        .toLowerCase();
+      if (!keywords.some((k) => ctx.includes(k))) continue;
+    }
+    out.push(toMatch(d.id, d.id, d.confidence ?? 0.8, span));
+  }
   return out;
 }
 
-function matchAllUnique(text: string, re: RegExp): string[] {
-  const unique = new Map<string, string>();
+export function renderReplacement(d: Detector, value: string): string {
+  return styleReplacement(d.style ?? DEFAULT_STYLE, value, d.replacement.replace(/\{label\}/g, d.label.toUpperCase()));
+}
+
+export type Span = { value: string; start: number; end: number };
+
+export function toMatch(type: SensitiveType, rule: string, confidence: number, span: Span): SensitiveMatch {
+  return { type, rule, confidence, ...span };
+}
+
+// Span of the whole match, or of capture group `group` (always the trailing part of our patterns),
+// with surrounding whitespace trimmed off so offsets point at the value itself.
+function spanOf(m: RegExpExecArray, group = 0): Span | null {
+  const full = m[0] ?? "";
+  const raw = m[group] ?? "";
+  const rawStart = m.index + (group === 0 ? 0 : full.lastIndexOf(raw));
+  const value = raw.trim();
+  if (!value) return null;
+  const start = rawStart + raw.indexOf(value);
+  return { value, start, end: start + value.length };
+}
+
+/**
+ * The longest leading part of `span` that passes `valid`, dropping trailing space-separated
+ * parts: for candidate patterns that allow spaces and so can run on into the words that follow.
+ */
+export function trimToValid(span: Span, valid: (value: string) => boolean): Span | null {
+  for (let value = span.value; value; value = value.slice(0, Math.max(0, value.lastIndexOf(" "))).trimEnd()) {
+    if (valid(value)) return { value, start: span.start, end: span.start + value.length };
+  }
+  return null;
+}
+
+export function matchAll(text: string, re: RegExp, group = 0): Span[] {
+  const out: Span[] = [];
   re.lastIndex = 0;
   let m: RegExpExecArray | null;
   while ((m = re.exec(text)) !== null) {
-    const raw = (m[0] ?? "").trim();
-    if (!raw) continue;
-    const key = raw.toLowerCase();
-    if (!unique.has(key)) unique.set(key, raw);
+    // Guard against zero-length matches (possible with user-defined patterns) looping forever.
+    if (m[0] === "") re.lastIndex += 1;
+    const span = spanOf(m, group);
+    if (span) out.push(span);
   }
-  return [...unique.values()];
+  return out;
 }
 
-function findSsnLast4(text: string): string[] {
-  const unique = new Map<string, string>();
-  SSN_LAST4_CONTEXT_RE.lastIndex = 0;
-  let m: RegExpExecArray | null;
-  while ((m = SSN_LAST4_CONTEXT_RE.exec(text)) !== null) {
-    const last4 = (m[1] ?? "").trim();
-    if (!/^\d{4}$/.test(last4)) continue;
+function findSsnLast4(text: string): Span[] {
+  return matchAll(text, SSN_LAST4_CONTEXT_RE, 1).filter(({ value }) => {
+    if (!/^\d{4}$/.test(value)) return false;
     // Avoid redacting common years if they appear in SSN context by accident.
-    const asNum = Number(last4);
-    if (asNum >= 1900 && asNum <= 2099) continue;
-    if (!unique.has(last4)) unique.set(last4, last4);
+    const asNum = Number(value);
+    return asNum < 1900 || asNum > 2099;
+  });
+}
+
+function findPhones(text: string): SensitiveMatch[] {
+  const intl: SensitiveMatch[] = [];
+  for (const candidate of matchAll(text, E164_CANDIDATE_RE)) {
+    const span = trimToValid(candidate, isValidE164);
+    if (span) intl.push(toMatch("phone", "phone-e164", 0.85, span));
   }
-  return [...unique.values()];
+  // The US-shaped pattern also fires inside many international numbers; the validated hit wins.
+  const us = matchAll(text, PHONE_RE)
+    .filter((span) => !intl.some((m) => span.start < m.end && m.start < span.end))
+    .map((span) => toMatch("phone", "phone", 0.7, span));
+  return [...intl, ...us];
 }
 
-function findCreditCards(text: string): string[] {
-  const unique = new Map<string, string>(); // key: digits only
-  CARD_CANDIDATE_RE.lastIndex = 0;
-  let m: RegExpExecArray | null;
-  while ((m = CARD_CANDIDATE_RE.exec(text)) !== null) {
-    const raw = (m[0] ?? "").trim();
-    const digits = raw.replace(/[^\d]/g, "");
+export function isValidE164(value: string): boolean {
+  if (!value.startsWith("+") || (value.match(/\(/g) ?? []).length !== (value.match(/\)/g) ?? []).length) return false;
+  const digits = value.replace(/\(0\)/, "").replace(/\D/g, "");
+  if (digits.length > 15) return false;
+  for (const size of [1, 2, 3]) {
+    const lengths = E164_LENGTHS[digits.slice(0, size)];
+    if (!lengths) continue;
+    const national = digits.length - size;
+    return national >= lengths[0] && national <= lengths[1];
+  }
+  return false;
+}
+
+// North American numbering plan: area code and exchange don't start with 0 or 1.
+function isValidNanp(value: string): boolean {
+  const digits = value.replace(/\D/g, "").replace(/^1(?=\d{10}$)/, "");
+  return digits.length === 10 && /^[2-9]\d{2}[2-9]/.test(digits);
+}
+
+// SSA never issues area 000, 666 or 9xx, group 00 or serial 0000.
+function isPlausibleSsn(value: string): boolean {
+  const [area, group, serial] = value.split("-");
+  return !/^(?:000|666|9\d\d)$/.test(area) && group !== "00" && serial !== "0000";
+}
+
+function findCreditCards(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
+  for (const span of matchAll(text, CARD_CANDIDATE_RE)) {
+    const digits = span.value.replace(/[^\d]/g, "");
     if (digits.length < 13 || digits.length > 19) continue;
 
     const luhnOk = luhnCheck(digits);
-    const idx = typeof m.index === "number" ? m.index : -1;
-    const ctx =
-      idx >= 0
-        ? text
-            .slice(Math.max(0, idx - 50), Math.min(text.length, idx + raw.length + 50))
-            .toLowerCase()
-        : "";
-    const keywordOk =
-      /\b(?:credit\s*card|debit\s*card|card\s*number|visa|mastercard|amex|american\s*express)\b/.test(ctx);
-
-    if (!luhnOk && !keywordOk) continue;
-    if (!unique.has(digits)) unique.set(digits, raw);
+    const ctx = text
+      .slice(Math.max(0, span.start - 50), Math.min(text.length, span.end + 50))
+      .toLowerCase();
+    const keywordOk = CARD_KEYWORD_RE.test(ctx);
+
+    if (luhnOk) out.push(toMatch("card", "card-luhn", 0.9, span));
+    else if (keywordOk) out.push(toMatch("card", "card-keyword", 0.75, span));
   }
-  return [...unique.values()];
+  return out;
 }
 
-function findBankAccounts(text: string): string[] {
-  const unique = new Map<string, string>();
+function findBankAccounts(text: string): SensitiveMatch[] {
+  const out: SensitiveMatch[] = [];
 
-  // IBAN (validated).
-  IBAN_CANDIDATE_RE.lastIndex = 0;
-  let m: RegExpExecArray | null;
-  while ((m = IBAN_CANDIDATE_RE.exec(text)) !== null) {
-    const raw = (m[0] ?? "").trim();
-    const normalized = raw.replace(/\s+/g, "").toUpperCase();
-    if (!isValidIban(normalized)) continue;
-    if (!unique.has(normalized)) unique.set(normalized, raw);
+  // IBAN (validated). The candidate pattern allows spaces, so it can run on into the words that
+  // follow ("DE89… by friday"); drop trailing space-separated parts until a valid IBAN remains.
+  // A lower-case word is never the end of an IBAN, even if mod-97 happens to pass with it.
+  for (const candidate of matchAll(text, IBAN_CANDIDATE_RE)) {
+    const span = trimToValid(
+      candidate,
+      (value) => !/ [a-z]+$/.test(value) && isValidIban(value.replace(/\s+/g, "").toUpperCase()),
+    );
+    if (span) out.push(toMatch("bank", "iban", 0.98, span));
   }
 
   // Routing number (US).
-  ROUTING_RE.lastIndex = 0;
-  while ((m = ROUTING_RE.exec(text)) !== null) {
-    const raw = (m[1] ?? "").trim();
-    if (!/^\d{9}$/.test(raw)) continue;
-    const key = `routing:${raw}`;
-    if (!unique.has(key)) unique.set(key, raw);
+  for (const span of matchAll(text, ROUTING_RE, 1)) {
+    if (/^\d{9}$/.test(span.value)) out.push(toMatch("bank", "routing", 0.8, span));
   }
 
   // Account number (US-ish).
-  ACCOUNT_RE.lastIndex = 0;
-  while ((m = ACCOUNT_RE.exec(text)) !== null) {
-    const raw = (m[1] ?? "").trim();
-    if (!/^\d{6,17}$/.test(raw)) continue;
-    const key = `account:${raw}`;
-    if (!unique.has(key)) unique.set(key, raw);
+  for (const span of matchAll(text, ACCOUNT_RE, 1)) {
+    if (/^\d{6,17}$/.test(span.value)) out.push(toMatch("bank", "account", 0.75, span));
   }
 
   // Sort code (UK).
-  SORT_CODE_RE.lastIndex = 0;
-  while ((m = SORT_CODE_RE.exec(text)) !== null) {
-    const raw = (m[1] ?? "").trim();
-    const digits = raw.replace(/[^\d]/g, "");
-    if (digits.length !== 6) continue;
-    const key = `sort:${digits}`;
-    if (!unique.has(key)) unique.set(key, raw);
+  for (const span of matchAll(text, SORT_CODE_RE, 1)) {
+    if (span.value.replace(/[^\d]/g, "").length === 6) out.push(toMatch("bank", "sort-code", 0.8, span));
   }
 
-  return [...unique.values()];
+  return out;
 }
 
-function luhnCheck(digits: string): boolean {
+export function luhnCheck(digits: string): boolean {
   let sum = 0;
   let shouldDouble = false;
 
@@ -181,7 +377,14 @@ function luhnCheck(digits: string): boolean {
   return sum % 10 === 0;
 }
 
-function isValidIban(iban: string): boolean {
+/** ABA routing number checksum: 3·(d1+d4+d7) + 7·(d2+d5+d8) + (d3+d6+d9) is a multiple of 10. */
+export function isValidAbaRouting(value: string): boolean {
+  if (!/^\d{9}$/.test(value)) return false;
+  const d = [...value].map(Number);
+  return (3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + d[2] + d[5] + d[8]) % 10 === 0;
+}
+
+export function isValidIban(iban: string): boolean {
   // Basic shape check.
   if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
 
@@ -0,0 +1,270 @@
+import { isSetSupported } from "./requirements";
+import type { BuiltInType, SensitiveType } from "./sensitivePatterns";
+
+declare const Word: any;
+
+// Sensitivity scoring: each detected occurrence adds its detector's severity, with diminishing
+// returns for repeats of the same kind, and the total maps to a classification tier. The tier is
+// written as a header line, a footer line and a watermark, each in a tagged content control so a
+// later run can find and rewrite them, and as custom document properties for downstream systems.
+
+export type SensitivityTier = "Internal" | "Confidential" | "Restricted" | "Highly Restricted";
+
+// Lowest to highest.
+export const SENSITIVITY_TIERS: SensitivityTier[] = ["Internal", "Confidential", "Restricted", "Highly Restricted"];
+
+export type SensitivityScore = {
+  score: number;
+  tier: SensitivityTier;
+  // Points per detector id, highest first; explains the tier in logs and the taskpane.
+  contributions: Array<{ type: SensitiveType; count: number; points: number }>;
+};
+
+export type LabelAction = "applied" | "upgraded" | "downgraded" | "unchanged" | "kept";
+
+export type SensitivityLabel = SensitivityScore & {
+  // Tier written in the document; differs from `tier` only when a partial run "kept" a higher one.
+  applied: SensitivityTier;
+  // Tier found in the document's custom properties before the run, if any.
+  previous: SensitivityTier | null;
+  action: LabelAction;
+};
+
+// Points for one occurrence. Identifiers that enable fraud or identity theft on their own weigh
+// most; contact details least. Custom patterns and always-redact terms use DEFAULT_SEVERITY.
+const SEVERITY: Record<BuiltInType, number> = {
+  email: 1,
+  phone: 1,
+  postalCode: 1,
+  vatId: 1,
+  employeeId: 2,
+  personName: 2,
+  address: 3,
+  dateOfBirth: 4,
+  insurancePolicy: 5,
+  inPan: 6,
+  medicalRecordNumber: 8,
+  bank: 8,
+  passport: 8,
+  ssn: 10,
+  card: 10,
+  ukNino: 10,
+  caSin: 10,
+  inAadhaar: 10,
+  euNationalId: 10,
+};
+const DEFAULT_SEVERITY = 3;
+
+// Minimum score per tier, highest first; anything below the last is Internal. One SSN or card
+// makes a document Restricted, a handful of them Highly Restricted.
+const TIER_THRESHOLDS: Array<[SensitivityTier, number]> = [
+  ["Highly Restricted", 30],
+  ["Restricted", 10],
+  ["Confidential", 3],
+];
+
+export const TIER_STYLES: Record<SensitivityTier, { header: string; footer: string; watermark: string; color: string }> = {
+  Internal: { header: "INTERNAL", footer: "Classification: Internal", watermark: "INTERNAL", color: "#44546A" },
+  Confidential: {
+    header: "CONFIDENTIAL",
+    footer: "Classification: Confidential – do not share outside the organisation",
+    watermark: "CONFIDENTIAL",
+    color: "#1F4E9A",
+  },
+  Restricted: {
+    header: "RESTRICTED",
+    footer: "Classification: Restricted – named recipients only",
+    watermark: "RESTRICTED",
+    color: "#B00020",
+  },
+  "Highly Restricted": {
+    header: "HIGHLY RESTRICTED",
+    footer: "Classification: Highly Restricted – do not copy, forward or print",
+    watermark: "HIGHLY RESTRICTED",
+    color: "#7A0016",
+  },
+};
+
+// Custom document properties written with the label.
+export const LABEL_PROPERTY = "SensitivityLabel";
+const SCORE_PROPERTY = "SensitivityScore";
+const DATE_PROPERTY = "SensitivityLabelDate";
+
+// Content control tags of the label elements.
+const HEADER_TAG = "redaction-label-header";
+const FOOTER_TAG = "redaction-label-footer";
+const WATERMARK_TAG = "redaction-label-watermark";
+const BANNER_TAG = "redaction-label-banner";
+
+/**
+ * Score detected occurrences per detector id. Repeats count with diminishing returns
+ * (1 + log2 n times the severity), so volume raises the tier without one kind swamping it.
+ */
+export function scoreSensitivity(counts: Record<SensitiveType, number>): SensitivityScore {
+  const contributions = Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => {
+      const severity = SEVERITY[type as BuiltInType] ?? DEFAULT_SEVERITY;
+      return { type, count, points: round(severity * (1 + Math.log2(count))) };
+    })
+    .sort((a, b) => b.points - a.points);
+  const score = round(contributions.reduce((n, c) => n + c.points, 0));
+  return { score, tier: tierFor(score), contributions };
+}
+
+export function tierFor(score: number): SensitivityTier {
+  return TIER_THRESHOLDS.find(([, min]) => score >= min)?.[0] ?? "Internal";
+}
+
+export function isTier(value: unknown): value is SensitivityTier {
+  return SENSITIVITY_TIERS.includes(value as SensitivityTier);
+}
+
+/**
+ * Write the tier for `score` into the document: header and watermark in the primary header of
+ * every section, a footer line, and the custom properties. Elements left by an earlier run are
+ * rewritten in place, so a changed tier upgrades or downgrades the label instead of stacking a
+ * second one. With `allowDowngrade` false (runs over part of the document) a higher tier already
+ * in the document is kept. When no section header can be reached, a banner paragraph at the top
+ * of the body carries the header text and the footer and watermark are skipped.
+ */
+export async function applySensitivityLabel(
+  context: any,
+  score: SensitivityScore,
+  allowDowngrade: boolean,
+  log: (line: string) => void,
+): Promise<SensitivityLabel> {
+  const previous = await readLabelProperty(context);
+  const lower = previous !== null && rank(score.tier) < rank(previous);
+  const applied = lower && !allowDowngrade ? previous : score.tier;
+  const action: LabelAction =
+    previous === null ? "applied"
+    : applied !== score.tier ? "kept"
+    : previous === applied ? "unchanged"
+    : lower ? "downgraded"
+    : "upgraded";
+
+  const style = TIER_STYLES[applied];
+  const sections = context.document.sections;
+  sections.load("items");
+  await context.sync();
+
+  let reachable = false;
+  for (const section of sections.items) {
+    try {
+      const header = section.getHeader(Word.HeaderFooterType.primary);
+      await writeLabelParagraph(context, header, HEADER_TAG, style.header, style.color, "Start");
+      reachable = true;
+      await writeWatermark(context, header, style.watermark);
+    } catch (e: any) {
+      log(`Label: header or watermark not written in a section (${e?.message ?? "not available"}).`);
+    }
+    try {
+      await writeLabelParagraph(context, section.getFooter(Word.HeaderFooterType.primary), FOOTER_TAG, style.footer, style.color, "End");
+    } catch (e: any) {
+      log(`Label: footer not written in a section (${e?.message ?? "not available"}).`);
+    }
+  }
+  if (!reachable) {
+    await writeLabelParagraph(context, context.document.body, BANNER_TAG, style.header, style.color, "Start");
+  }
+
+  try {
+    await writeLabelProperties(context, applied, score.score);
+  } catch (e: any) {
+    log(`Label: custom properties not written (${e?.message ?? "not available"}).`);
+  }
+  return { ...score, applied, previous, action };
+}
+
+// Rewrite the tagged paragraph of an earlier run, or insert a new one at `location`.
+async function writeLabelParagraph(
+  context: any,
+  body: any,
+  tag: string,
+  text: string,
+  color: string,
+  location: "Start" | "End",
+) {
+  const existing = body.contentControls.getByTag(tag);
+  existing.load("items");
+  await context.sync();
+
+  let control = existing.items[0];
+  if (control) {
+    control.insertText(text, Word.InsertLocation.replace);
+  } else {
+    const paragraph = body.insertParagraph(text, location === "Start" ? Word.InsertLocation.start : Word.InsertLocation.end);
+    paragraph.alignment = Word.Alignment.centered;
+    control = paragraph.insertContentControl();
+    control.tag = tag;
+    control.title = "Sensitivity label";
+  }
+  control.font.bold = true;
+  control.font.color = color;
+  await context.sync();
+}
+
+// The watermark is a rotated WordArt shape anchored in the header, as Word's own Watermark
+// command creates it; its paragraph is wrapped in a tagged content control like the other elements.
+async function writeWatermark(context: any, header: any, text: string) {
+  const existing = header.contentControls.getByTag(WATERMARK_TAG);
+  existing.load("items");
+  await context.sync();
+
+  let control = existing.items[0];
+  if (!control) {
+    control = header.insertParagraph("", Word.InsertLocation.end).insertContentControl();
+    control.tag = WATERMARK_TAG;
+    control.title = "Sensitivity watermark";
+  }
+  control.insertOoxml(watermarkOoxml(text), Word.InsertLocation.replace);
+  await context.sync();
+}
+
+async function readLabelProperty(context: any): Promise<SensitivityTier | null> {
+  if (!isSetSupported("WordApi", "1.3")) return null;
+  try {
+    const prop = context.document.properties.customProperties.getItemOrNullObject(LABEL_PROPERTY);
+    prop.load("value");
+    await context.sync();
+    return !prop.isNullObject && isTier(prop.value) ? prop.value : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeLabelProperties(context: any, tier: SensitivityTier, score: number) {
+  if (!isSetSupported("WordApi", "1.3")) throw new Error("custom properties need WordApi 1.3");
+  const custom = context.document.properties.customProperties;
+  custom.add(LABEL_PROPERTY, tier);
+  custom.add(SCORE_PROPERTY, score);
+  custom.add(DATE_PROPERTY, new Date().toISOString());
+  await context.sync();
+}
+
+function watermarkOoxml(text: string): string {
+  return `<pkg:package xmlns:pkg="http://schemas.microsoft.com/office/2006/xmlPackage">
+<pkg:part pkg:name="/_rels/.rels" pkg:contentType="application/vnd.openxmlformats-package.relationships+xml"><pkg:xmlData>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>
+</pkg:xmlData></pkg:part>
+<pkg:part pkg:name="/word/document.xml" pkg:contentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"><pkg:xmlData>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office"><w:body><w:p><w:r><w:pict>
+<v:shapetype id="_x0000_t136" coordsize="21600,21600" o:spt="136" adj="10800" path="m@7,l@8,m@5,21600l@6,21600e"><v:path textpathok="t" o:connecttype="custom"/><v:textpath on="t" fitshape="t"/><o:lock v:ext="edit" text="t" shapetype="t"/></v:shapetype>
+<v:shape id="RedactionSensitivityWatermark" type="#_x0000_t136" style="position:absolute;margin-left:0;margin-top:0;width:468pt;height:117pt;rotation:315;z-index:-251654144;mso-position-horizontal:center;mso-position-horizontal-relative:margin;mso-position-vertical:center;mso-position-vertical-relative:margin" o:allowincell="f" fillcolor="silver" stroked="f"><v:fill opacity=".5"/><v:textpath style="font-family:&quot;Calibri&quot;;font-size:1pt" string="${escapeXml(text)}"/></v:shape>
+</w:pict></w:r></w:p></w:body></w:document>
+</pkg:xmlData></pkg:part>
+</pkg:package>`;
+}
+
+function rank(tier: SensitivityTier): number {
+  return SENSITIVITY_TIERS.indexOf(tier);
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
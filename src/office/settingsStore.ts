@@ -0,0 +1,50 @@
+declare const Office: any;
+
+// Where a setting lives. "user" uses roaming settings when the host provides them (Outlook) and
+// falls back to browser storage; "document" uses the document's own settings so the value
+// travels with the file.
+export type SettingsScope = "user" | "document";
+
+const PREFIX = "redaction.";
+
+export function readSetting<T>(key: string, scope: SettingsScope, fallback: T): T {
+  try {
+    const raw = rawGet(PREFIX + key, scope);
+    if (raw === null || raw === undefined) return fallback;
+    return (typeof raw === "string" ? JSON.parse(raw) : raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function writeSetting(key: string, value: unknown, scope: SettingsScope): Promise<void> {
+  const json = JSON.stringify(value);
+  const store = officeSettings(scope);
+  if (!store) {
+    window.localStorage.setItem(PREFIX + key, json);
+    return;
+  }
+
+  store.set(PREFIX + key, json);
+  await new Promise<void>((resolve, reject) => {
+    store.saveAsync((res: any) => {
+      if (res?.status === Office.AsyncResultStatus.Failed) {
+        reject(new Error(res?.error?.message ?? "Could not save settings."));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+function rawGet(key: string, scope: SettingsScope): unknown {
+  const store = officeSettings(scope);
+  if (store) return store.get(key);
+  return window.localStorage.getItem(key);
+}
+
+function officeSettings(scope: SettingsScope): any {
+  if (typeof Office === "undefined") return null;
+  if (scope === "document") return Office?.context?.document?.settings ?? null;
+  return Office?.context?.roamingSettings ?? null;
+}
@@ -0,0 +1,185 @@
+import type { Detector, SensitiveMatch } from "./sensitivePatterns";
+import { readSetting, writeSetting, type SettingsScope } from "./settingsStore";
+
+// Organization-specific exceptions to detection. The allowlist holds known-safe values (the
+// switchboard number, the public support address, the company's own IBAN) that are never
+// reported; the deny-list holds literal terms (client codenames) that are always redacted,
+// whatever the policy profile.
+
+// "exact": the value, compared case-insensitively and also with separators ignored, so
+// "GB82 WEST 1234…" covers "GB82WEST1234…". "wildcard": "*" and "?" globs over the whole value,
+// e.g. "*@ourcompany.com". "regex": a pattern the whole value must match.
+export type AllowRule = { kind: "exact" | "wildcard" | "regex"; value: string };
+
+export type TermLists = {
+  allow: AllowRule[];
+  deny: string[];
+};
+
+export const TERM_LISTS_FORMAT = "redaction-term-lists";
+
+// Detector id of deny-list matches; never suppressed by the allowlist.
+export const DENY_LIST_ID = "denyList";
+
+export const EMPTY_TERM_LISTS: TermLists = { allow: [], deny: [] };
+
+const TERM_LISTS_KEY = "termLists";
+
+let activeLists: TermLists[] = [];
+let allowTests: Array<(value: string) => boolean> = [];
+let denyDetector: Detector | null = null;
+let fingerprint = "";
+
+/** Make `lists` (typically the user's and the document's) the ones detection consults. */
+export function setTermLists(...lists: TermLists[]) {
+  activeLists = lists;
+  const allow = lists.flatMap((l) => l.allow);
+  const deny = [...new Set(lists.flatMap((l) => l.deny).map((t) => t.trim()).filter(Boolean))];
+  allowTests = allow.flatMap((rule) => {
+    try {
+      return [compileAllowRule(rule)];
+    } catch {
+      // A malformed stored rule must not stop detection.
+      return [];
+    }
+  });
+  denyDetector = deny.length > 0 ? compileDenyList(deny) : null;
+  fingerprint = JSON.stringify({ allow, deny });
+}
+
+/** The lists last passed to setTermLists. */
+export function activeTermLists(): TermLists[] {
+  return activeLists;
+}
+
+/** True when `match` is a known-safe value that must not be reported. */
+export function isAllowlisted(match: SensitiveMatch): boolean {
+  return match.type !== DENY_LIST_ID && allowTests.some((test) => test(match.value));
+}
+
+/** The deny-list as a detector, when it has any terms. */
+export function denyListDetectors(): Detector[] {
+  return denyDetector ? [denyDetector] : [];
+}
+
+// Identifies the active lists for incremental runs, like the detector fingerprint.
+export function termListsFingerprint(): string {
+  return fingerprint;
+}
+
+export function loadTermLists(scope: SettingsScope): TermLists {
+  const saved = readSetting<unknown>(TERM_LISTS_KEY, scope, null);
+  try {
+    return saved ? validateTermLists(saved) : EMPTY_TERM_LISTS;
+  } catch {
+    return EMPTY_TERM_LISTS;
+  }
+}
+
+export async function saveTermLists(lists: TermLists, scope: SettingsScope): Promise<void> {
+  await writeSetting(TERM_LISTS_KEY, validateTermLists(lists), scope);
+}
+
+/**
+ * One rule per line as typed in the taskpane: "/…/" is a regex, anything with "*" or "?" a
+ * wildcard, the rest an exact value.
+ */
+export function parseAllowRule(line: string): AllowRule {
+  const text = line.trim();
+  if (text.length > 2 && text.startsWith("/") && text.endsWith("/")) return { kind: "regex", value: text.slice(1, -1) };
+  if (/[*?]/.test(text)) return { kind: "wildcard", value: text };
+  return { kind: "exact", value: text };
+}
+
+export function formatAllowRule(rule: AllowRule): string {
+  return rule.kind === "regex" ? `/${rule.value}/` : rule.value;
+}
+
+export function exportTermLists(lists: TermLists): string {
+  return JSON.stringify({ format: TERM_LISTS_FORMAT, version: 1, ...lists }, null, 2);
+}
+
+/** Parse an exported term lists file. Throws with a user-facing message naming the first problem. */
+export function parseTermLists(json: string): TermLists {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Not a JSON file.");
+  }
+  if (data?.format !== undefined && data.format !== TERM_LISTS_FORMAT) throw new Error("Not a term lists file.");
+  return validateTermLists(data);
+}
+
+function validateTermLists(data: any): TermLists {
+  const allow = data?.allow ?? [];
+  const deny = data?.deny ?? [];
+  if (!Array.isArray(allow) || !Array.isArray(deny)) throw new Error('"allow" and "deny" must be lists.');
+  const rules = allow.map((rule: any, i: number): AllowRule => {
+    if (!["exact", "wildcard", "regex"].includes(rule?.kind) || typeof rule.value !== "string" || !rule.value.trim()) {
+      throw new Error(`Allowlist entry ${i + 1}: needs a "kind" (exact, wildcard or regex) and a "value".`);
+    }
+    const parsed = { kind: rule.kind, value: rule.value.trim() } as AllowRule;
+    try {
+      compileAllowRule(parsed);
+    } catch (e: any) {
+      throw new Error(`Allowlist entry ${i + 1}: ${e?.message ?? String(e)}`);
+    }
+    return parsed;
+  });
+  if (deny.some((t: unknown) => typeof t !== "string")) throw new Error('"deny" must be a list of terms.');
+  return { allow: rules, deny: deny.map((t: string) => t.trim()).filter(Boolean) };
+}
+
+function compileAllowRule(rule: AllowRule): (value: string) => boolean {
+  if (rule.kind === "exact") {
+    const loose = normalize(rule.value);
+    const compact = alnum(rule.value);
+    return (value) => normalize(value) === loose || (compact !== "" && alnum(value) === compact);
+  }
+  let source = rule.value;
+  if (rule.kind === "wildcard") {
+    source = [...rule.value].map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : escapeRegExp(ch))).join("");
+  }
+  let re: RegExp;
+  try {
+    re = new RegExp(`^(?:${source})$`, "iu");
+  } catch (e: any) {
+    throw new Error(`Invalid pattern: ${e?.message ?? String(e)}`);
+  }
+  return (value) => re.test(value.trim());
+}
+
+// Terms match case-insensitively where they are not part of a longer word, longest first so
+// "Project Falcon Two" wins over "Project Falcon".
+function compileDenyList(terms: string[]): Detector {
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const re = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+  return {
+    id: DENY_LIST_ID,
+    label: "Always-redact term",
+    replacement: "[REDACTED]",
+    confidence: 1,
+    find: (text) =>
+      [...text.matchAll(re)].map((m) => ({
+        type: DENY_LIST_ID,
+        rule: DENY_LIST_ID,
+        confidence: 1,
+        value: m[0],
+        start: m.index ?? 0,
+        end: (m.index ?? 0) + m[0].length,
+      })),
+  };
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function alnum(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
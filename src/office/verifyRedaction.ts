@@ -0,0 +1,175 @@
+import { maskValue } from "./auditRecord";
+import { enumerateStories, loadStoryTexts, type Story } from "./documentStories";
+import { requireSet } from "./requirements";
+import type { SensitiveType } from "./sensitivePatterns";
+
+declare const Word: any;
+
+export type Residual = {
+  type: SensitiveType;
+  value: string;
+  // Story label, plus "(revision text)" when it only survives in tracked-change or OOXML content.
+  where: string;
+};
+
+/** Thrown by finalize mode when any original value can still be recovered from the document. */
+export class ResidualContentError extends Error {
+  constructor(
+    readonly residuals: Residual[],
+    revealValues = false,
+  ) {
+    super(
+      `Finalize failed: ${residuals.length} original value(s) still present in the document:\n` +
+        residuals.map((r) => `  ${r.type} in ${r.where}: ${revealValues ? r.value : maskValue(r.value)}`).join("\n"),
+    );
+    this.name = "ResidualContentError";
+  }
+}
+
+/**
+ * Accept every revision in every story and switch Track Changes off, so the redactions become
+ * the document's only content. Note this also accepts revisions that existed before the run.
+ */
+export async function acceptAllRevisions(context: any, log: (line: string) => void) {
+  requireSet("WordApi", "1.6");
+  const stories = (await enumerateStories(context, () => {})).filter((s) => s.body);
+
+  const collections = stories.map((s) => {
+    const changes = s.body.getTrackedChanges();
+    changes.load("items");
+    return changes;
+  });
+  await context.sync();
+
+  let accepted = 0;
+  for (const changes of collections) {
+    accepted += changes.items.length;
+    if (changes.items.length > 0) changes.acceptAll();
+  }
+  context.document.changeTrackingMode = Word.ChangeTrackingMode.off;
+  await context.sync();
+  log(`Finalize: accepted ${accepted} revision(s) and turned Track Changes off.`);
+}
+
+// A span the run is about to replace. `wholeWord` is false when the span sits inside a longer
+// word or number ("ID123-45-6789").
+export type PlannedRedaction = { type: SensitiveType; value: string; storyId: string; wholeWord: boolean };
+
+// What verification expects to find once the run is done: for each value (lower-cased) and story
+// id, how many occurrences may remain visibly and in the OOXML. Values are counted as whole words
+// ("Ann" is not in "Annual"), or anywhere in the text when the run redacts one inside a longer word.
+export type VerificationBaseline = {
+  stories: Story[];
+  values: Map<string, CountedValue>;
+  remaining: Map<string, { visible: number; ooxml: number }>;
+};
+
+/**
+ * Before the run writes anything, count each value about to be redacted in every story (or just
+ * `stories`), less the spans the run will replace. Occurrences it did not decide to redact — held
+ * for review, allowlisted, outside an incremental scope, or not sensitive where they stand — are
+ * expected to remain, so findResiduals only answers for what the run replaced.
+ */
+export async function countBeforeRedaction(
+  context: any,
+  planned: PlannedRedaction[],
+  stories?: Story[],
+): Promise<VerificationBaseline> {
+  const scope = stories ?? (await enumerateStories(context, () => {}));
+  const values = new Map<string, CountedValue>();
+  for (const p of planned) {
+    if (!p.value.trim()) continue;
+    const substring = !p.wholeWord || values.get(valueKey(p.value))?.substring === true;
+    values.set(valueKey(p.value), { type: p.type, value: p.value.trim(), substring });
+  }
+
+  const remaining = new Map<string, { visible: number; ooxml: number }>();
+  if (values.size === 0) return { stories: scope, values, remaining };
+  for (const story of await readStories(context, scope)) {
+    for (const [key, counted] of values) {
+      remaining.set(`${story.id}\u0000${key}`, {
+        visible: countValue(story.text, counted),
+        ooxml: countValue(story.ooxmlText ?? "", counted),
+      });
+    }
+  }
+  for (const p of planned) {
+    const left = remaining.get(`${p.storyId}\u0000${valueKey(p.value)}`);
+    if (!left) continue;
+    left.visible--;
+    left.ooxml--;
+  }
+  return { stories: scope, values, remaining };
+}
+
+/**
+ * Re-read the stories counted by countBeforeRedaction — visible text and the OOXML (which keeps
+ * deleted text as <w:delText>) — and report every value found more often than the run meant to
+ * leave it.
+ */
+export async function findResiduals(context: any, baseline: VerificationBaseline): Promise<Residual[]> {
+  if (baseline.values.size === 0) return [];
+
+  const residuals: Residual[] = [];
+  for (const story of await readStories(context, baseline.stories)) {
+    for (const [key, counted] of baseline.values) {
+      const left = baseline.remaining.get(`${story.id}\u0000${key}`) ?? { visible: 0, ooxml: 0 };
+      const original = { type: counted.type, value: counted.value };
+      if (countValue(story.text, counted) > left.visible) {
+        residuals.push({ ...original, where: story.label });
+      } else if (story.ooxmlText !== null && countValue(story.ooxmlText, counted) > left.ooxml) {
+        residuals.push({ ...original, where: `${story.label} (revision text)` });
+      }
+    }
+  }
+  return residuals;
+}
+
+/** Whether `text.slice(start, end)` stands as a whole word, the way verification counts values. */
+export function isWholeWord(text: string, start: number, end: number): boolean {
+  return !WORD_CHAR.test(text[start - 1] ?? "") && !WORD_CHAR.test(text[end] ?? "");
+}
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+type CountedValue = { type: SensitiveType; value: string; substring: boolean };
+
+function valueKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+// Visible text and, for stories with a body, the text of their OOXML. Comments have no OOXML.
+async function readStories(context: any, stories: Story[]) {
+  const texts = await loadStoryTexts(context, stories);
+  const ooxml = texts.map((t) => (t.story.body ? (t.story.range ?? t.story.body).getOoxml() : null));
+  await context.sync();
+  return texts.map((t, i) => ({
+    id: t.story.id,
+    label: t.story.label,
+    text: t.doc.text,
+    ooxmlText: ooxml[i] ? ooxmlText(String(ooxml[i].value ?? "")) : null,
+  }));
+}
+
+function countValue(text: string, { value, substring }: CountedValue): number {
+  return text.match(valuePattern(value, substring))?.length ?? 0;
+}
+
+// Case-insensitive, and unless `substring`, not inside a longer word or number.
+function valuePattern(value: string, substring: boolean): RegExp {
+  const escaped = value.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(substring ? escaped : `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+// Text of every run, including deleted (<w:delText>) and hidden runs, paragraph per line.
+function ooxmlText(ooxml: string): string {
+  return ooxml
+    .split(/<\/w:p>/)
+    .map((p) => [...p.matchAll(/<w:(?:t|delText)\b[^>]*>([^<]*)<\/w:(?:t|delText)>/g)].map((m) => m[1]).join(""))
+    .join("\n")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
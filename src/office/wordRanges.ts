@@ -0,0 +1,316 @@
+import type { RedactionFont } from "./redactionStyles";
+import type { SensitiveMatch } from "./sensitivePatterns";
+
+declare const Word: any;
+
+// Text of a Word container, built paragraph by paragraph so that matcher offsets can be mapped
+// back to the paragraph they came from. Paragraphs are joined with "\n".
+export type DocumentText = {
+  text: string;
+  paragraphs: any[];
+  starts: number[];
+};
+
+export type LocatedMatch = {
+  match: SensitiveMatch;
+  // The span's range; for a span crossing paragraph boundaries, its part in the first paragraph.
+  range: any;
+  // Its parts in the following paragraphs, removed when the span is replaced.
+  continuation: any[];
+};
+
+// What a located span is rewritten to. `font` is applied to the inserted text, e.g. the black
+// highlight of bar-style redactions, so every span written in a style looks the same.
+export type Replacement = { text: string; font?: RedactionFont };
+
+// Upper bounds for one locate/replace round trip. Word rejects oversized batches (payload limits
+// on Word on the web) and a single huge sync blocks the taskpane for its whole duration.
+export const CHUNK_MAX_PARAGRAPHS = 40;
+export const CHUNK_MAX_SEARCHES = 120;
+
+const SEARCH_OPTIONS = {
+  matchCase: false,
+  matchWholeWord: false,
+  ignorePunct: false,
+  ignoreSpace: false,
+};
+
+// Longest search text Word accepts. Longer values are found as a head and a tail search joined
+// with expandTo.
+const MAX_SEARCH_LENGTH = 255;
+
+// One search hit to pick: the `occurrence`-th item of a loaded search collection.
+type PendingHit = { ranges: any; occurrence: number };
+
+export async function loadDocumentText(context: any, container: any): Promise<DocumentText> {
+  const paragraphs = container.paragraphs;
+  paragraphs.load("items/text");
+  await context.sync();
+
+  const items: any[] = paragraphs.items ?? [];
+  const starts: number[] = [];
+  let text = "";
+  for (const p of items) {
+    if (starts.length > 0) text += "\n";
+    starts.push(text.length);
+    text += p.text ?? "";
+  }
+  return { text, paragraphs: items, starts };
+}
+
+/**
+ * Like loadDocumentText, but limited to `range`: each paragraph the range touches contributes
+ * only the part inside the range, so a partial selection never exposes its neighbours.
+ */
+export async function loadRangeText(context: any, range: any): Promise<DocumentText> {
+  const paragraphs = range.paragraphs;
+  paragraphs.load("items");
+  await context.sync();
+
+  const parts = (paragraphs.items ?? []).map((p: any) => {
+    const part = p.getRange("Content").intersectWithOrNullObject(range);
+    part.load("text");
+    return part;
+  });
+  await context.sync();
+
+  const items = parts.filter((r: any) => !r.isNullObject);
+  const starts: number[] = [];
+  let text = "";
+  for (const r of items) {
+    if (starts.length > 0) text += "\n";
+    starts.push(text.length);
+    text += (r.text ?? "").replace(/\r$/, "");
+  }
+  return { text, paragraphs: items, starts };
+}
+
+/** The same text restricted to the paragraphs at `indices` (offsets are recomputed). */
+export function subsetDocumentText(doc: DocumentText, indices: number[]): DocumentText {
+  const paragraphs = indices.map((i) => doc.paragraphs[i]);
+  const starts: number[] = [];
+  let text = "";
+  for (const p of paragraphs) {
+    if (starts.length > 0) text += "\n";
+    starts.push(text.length);
+    text += p.text ?? "";
+  }
+  return { text, paragraphs, starts };
+}
+
+/**
+ * Resolve matcher spans to Word ranges. Word has no offset-based range API, so each span is
+ * found as the k-th search hit for its value inside its own paragraph, where k is the number of
+ * earlier occurrences of that value in the paragraph text. A span crossing paragraph boundaries
+ * is found as one part per paragraph. All searches share a single sync.
+ *
+ * Spans whose offsets don't fit the text, or whose occurrence Word does not report, are returned
+ * in `unresolved`.
+ */
+export async function locateMatches(
+  context: any,
+  doc: DocumentText,
+  matches: SensitiveMatch[],
+): Promise<{ located: LocatedMatch[]; unresolved: SensitiveMatch[] }> {
+  const unresolved: SensitiveMatch[] = [];
+  const pending: Array<{ match: SensitiveMatch; parts: Array<{ head: PendingHit; tail?: PendingHit }> }> = [];
+  const searches = new Map<string, any>();
+
+  const find = (p: number, value: string, localStart: number): PendingHit => {
+    const key = `${p}\u0000${value.toLowerCase()}`;
+    let ranges = searches.get(key);
+    if (!ranges) {
+      ranges = doc.paragraphs[p].search(searchText(value), SEARCH_OPTIONS);
+      ranges.load("items");
+      searches.set(key, ranges);
+    }
+    return { ranges, occurrence: countBefore(paragraphText(doc, p), value, localStart) };
+  };
+
+  for (const match of matches) {
+    const parts = spanParts(doc, match);
+    if (!parts) {
+      unresolved.push(match);
+      continue;
+    }
+    pending.push({
+      match,
+      parts: parts.map(({ paragraph, start, value }) => {
+        if (searchText(value).length <= MAX_SEARCH_LENGTH) return { head: find(paragraph, value, start) };
+        const head = longestFitting(value, 1);
+        const tail = longestFitting(value, -1);
+        return { head: find(paragraph, head, start), tail: find(paragraph, tail, start + value.length - tail.length) };
+      }),
+    });
+  }
+
+  if (pending.length > 0) await context.sync();
+
+  const located: LocatedMatch[] = [];
+  for (const { match, parts } of pending) {
+    const ranges = parts.map(({ head, tail }) => {
+      const first = head.ranges.items?.[head.occurrence];
+      if (!first || !tail) return first;
+      const last = tail.ranges.items?.[tail.occurrence];
+      return last ? first.expandTo(last) : undefined;
+    });
+    if (ranges.every(Boolean)) located.push({ match, range: ranges[0], continuation: ranges.slice(1) });
+    else unresolved.push(match);
+  }
+  return { located, unresolved };
+}
+
+/**
+ * Split spans into chunks of whole paragraphs, each needing at most CHUNK_MAX_PARAGRAPHS
+ * paragraphs and CHUNK_MAX_SEARCHES distinct searches (one paragraph is never split, so a single
+ * very dense paragraph can exceed the search bound on its own).
+ */
+export function chunkMatches<T extends SensitiveMatch>(doc: DocumentText, matches: T[]): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let paragraphs = new Set<number>();
+  let searches = new Set<string>();
+
+  for (const m of [...matches].sort((a, b) => a.start - b.start)) {
+    const [p, last] = paragraphRange(doc, m);
+    const key = `${p}\u0000${m.value.toLowerCase()}`;
+    const newParagraph = !paragraphs.has(p);
+    const full =
+      paragraphs.size >= CHUNK_MAX_PARAGRAPHS || (searches.size >= CHUNK_MAX_SEARCHES && !searches.has(key));
+    if (newParagraph && full && current.length > 0) {
+      chunks.push(current);
+      current = [];
+      paragraphs = new Set();
+      searches = new Set();
+    }
+    current.push(m);
+    // A span running on into later paragraphs edits them too; matches there stay in this chunk.
+    for (let i = p; i <= last; i++) paragraphs.add(i);
+    searches.add(key);
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Halve a chunk at a paragraph boundary, for retrying a chunk Word rejected. Returns null for a
+ * single-paragraph chunk: splitting inside a paragraph would invalidate the occurrence counting
+ * of the second half once the first half is replaced.
+ */
+export function splitChunk<T extends SensitiveMatch>(doc: DocumentText, chunk: T[]): [T[], T[]] | null {
+  // Groups of spans sharing paragraphs; a span crossing into the next paragraph joins them.
+  const groups: T[][] = [];
+  let groupEnd = -1;
+  for (const m of [...chunk].sort((a, b) => a.start - b.start)) {
+    const [p, last] = paragraphRange(doc, m);
+    if (p > groupEnd) groups.push([]);
+    groups[groups.length - 1].push(m);
+    groupEnd = Math.max(groupEnd, last);
+  }
+  if (groups.length < 2) return null;
+  const half = Math.ceil(groups.length / 2);
+  return [groups.slice(0, half).flat(), groups.slice(half).flat()];
+}
+
+/**
+ * Keep the first of any overlapping spans (earliest start, then longest), so a value nested in a
+ * longer detected value is not replaced twice.
+ */
+export function dropOverlaps<T extends SensitiveMatch>(matches: T[]): T[] {
+  const sorted = [...matches].sort((a, b) => a.start - b.start || b.end - a.end);
+  const out: T[] = [];
+  let lastEnd = -1;
+  for (const m of sorted) {
+    if (m.start < lastEnd) continue;
+    out.push(m);
+    lastEnd = m.end;
+  }
+  return out;
+}
+
+export function replaceLocated(located: LocatedMatch[], replacementFor: (m: SensitiveMatch) => Replacement) {
+  for (const { match, range, continuation } of located) {
+    const { text, font } = replacementFor(match);
+    const inserted = range.insertText(text, Word.InsertLocation.replace);
+    if (font) Object.assign(inserted.font, font);
+    for (const part of continuation) part.delete();
+  }
+}
+
+// The span cut at paragraph boundaries, trimmed, with offsets local to each paragraph. Null when
+// its offsets don't fit the text.
+function spanParts(doc: DocumentText, match: SensitiveMatch): Array<{ paragraph: number; start: number; value: string }> | null {
+  const [first, last] = paragraphRange(doc, match);
+  if (first < 0) return null;
+  const parts: Array<{ paragraph: number; start: number; value: string }> = [];
+  for (let p = first; p <= last; p++) {
+    const text = paragraphText(doc, p);
+    const from = Math.max(0, match.start - doc.starts[p]);
+    const to = match.end - doc.starts[p];
+    if (p === last && to > text.length) return null;
+    const raw = text.slice(from, Math.min(to, text.length));
+    const value = raw.trim();
+    if (value) parts.push({ paragraph: p, start: from + raw.indexOf(value), value });
+  }
+  return parts.length > 0 ? parts : null;
+}
+
+// Paragraph `p` as it read when `doc` was loaded.
+function paragraphText(doc: DocumentText, p: number): string {
+  return doc.text.slice(doc.starts[p], p + 1 < doc.starts.length ? doc.starts[p + 1] - 1 : doc.text.length);
+}
+
+// First and last paragraph a span covers.
+function paragraphRange(doc: DocumentText, m: SensitiveMatch): [number, number] {
+  const first = paragraphIndexAt(doc, m.start);
+  return [first, Math.max(first, paragraphIndexAt(doc, Math.max(m.start, m.end - 1)))];
+}
+
+// Word's search text for `value`: "^" introduces special characters (^p, ^t, ^#…), so a literal
+// one is written "^^".
+function searchText(value: string): string {
+  return value.replace(/\^/g, "^^");
+}
+
+// The longest start (direction 1) or end (-1) of `value` whose search text fits Word's limit.
+function longestFitting(value: string, direction: 1 | -1): string {
+  let n = 0;
+  let length = 0;
+  while (n < value.length) {
+    const ch = direction > 0 ? value[n] : value[value.length - 1 - n];
+    length += ch === "^" ? 2 : 1;
+    if (length > MAX_SEARCH_LENGTH) break;
+    n += 1;
+  }
+  return direction > 0 ? value.slice(0, n) : value.slice(value.length - n);
+}
+
+function paragraphIndexAt(doc: DocumentText, offset: number): number {
+  let lo = 0;
+  let hi = doc.starts.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (doc.starts[mid] <= offset) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Non-overlapping, case-insensitive occurrences of `value` that start before `offset`,
+// matching how Word's search enumerates hits.
+function countBefore(text: string, value: string, offset: number): number {
+  const haystack = text.toLowerCase();
+  const needle = value.toLowerCase();
+  let count = 0;
+  let idx = haystack.indexOf(needle);
+  while (idx >= 0 && idx < offset) {
+    count += 1;
+    idx = haystack.indexOf(needle, idx + needle.length);
+  }
+  return count;
+}
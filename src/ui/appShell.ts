@@ -1,30 +1,144 @@
+import { getDetectors, LOCALES } from "../office/detectorRegistry";
+import type { ComplianceCheck } from "../office/complianceCheck";
+import type { DetectionProvider } from "../office/detectionProviders";
+import type { HostKind, HostRedactionResult } from "../office/hostRedaction";
+import { HOST_ADAPTERS, HOST_NAMES } from "../office/hosts";
+import type { ImageRedactionMode } from "../office/imageRedaction";
+import { profileDetectors, type PolicyProfile } from "../office/policyProfiles";
+import type { RedactionMode } from "../office/pseudonymizer";
+import type { RedactionScope } from "../office/redactionScope";
+import type { RedactionStyle } from "../office/redactionStyles";
+import type { StoredVault, VaultRecord } from "../office/redactionVault";
+import type { SettingsScope } from "../office/settingsStore";
+import type { TermLists } from "../office/termLists";
+import { SANITIZE_LABELS, type SanitizeCategory, type SanitizeOptions } from "../office/sanitizeMetadata";
+import type { CustomPatternDef } from "../office/detectorRegistry";
+import {
+  AUTO_REDACT_MIN_CONFIDENCE,
+  type CandidateDecision,
+  type RedactionCandidate,
+  type RedactionProgress,
+  type RedactionResult,
+} from "../office/runRedactionWorkflow";
+import type { DetectorLocale, SensitiveType } from "../office/sensitivePatterns";
+import { compliancePanel } from "./compliancePanel";
+import { customPatternsPanel } from "./customPatternsPanel";
+import { el, smallBtn } from "./dom";
+import { replacementStylesPanel } from "./replacementStylesPanel";
+import { restorePanel } from "./restorePanel";
+import { termListsPanel } from "./termListsPanel";
+
 export type AppState = {
   officeReady: boolean;
+  // Office host the taskpane is loaded in. Word gets the full workflow; Excel, PowerPoint and
+  // Outlook get one-click redaction and the check through their host adapter.
+  host: HostKind;
+  hostResult: HostRedactionResult | null;
   running: boolean;
+  // Set while a run writes to the document; drives the progress bar.
+  progress: RedactionProgress | null;
   logs: string[];
-  lastResult:
-    | null
-    | {
-        trackChangesEnabled: boolean;
-        headerUpdated: boolean;
-        emails: number;
-        phones: number;
-        ssns: number;
-        cards: number;
-        bankAccounts: number;
-        insurancePolicies: number;
-        employeeIds: number;
-        medicalRecordNumbers: number;
-        redactionsTotal: number;
-      };
+  // Preview-and-approve: null until a scan has run.
+  candidates: RedactionCandidate[] | null;
+  selectedCandidateId: string | null;
+  lastResult: RedactionResult | null;
+  // Latest pre-distribution check; cleared when the document is changed by a run.
+  compliance: ComplianceCheck | null;
+  stampWhenClean: boolean;
+  // Whether Word opens the check with this document (a setting stored in the file).
+  checkOnOpen: boolean;
+  view: "main" | "settings" | "restore";
+  customPatterns: CustomPatternDef[];
+  // The user's replacement style per detector id, over the active profile's. Ignored while the
+  // administrator's profile is locked.
+  styleOverrides: Record<SensitiveType, RedactionStyle>;
+  // Allowlist and always-redact terms, stored per user and per document; detection uses both.
+  termLists: Record<SettingsScope, TermLists>;
+  termListsScope: SettingsScope;
+  // Problem with the last saved or imported term lists; shown in that panel only.
+  termListsError: string | null;
+  // Error shown in the settings or restore view.
+  settingsError: string | null;
+  mode: RedactionMode;
+  batchKey: string;
+  sanitizeEnabled: boolean;
+  sanitize: SanitizeOptions;
+  // What one-click runs do with pictures showing sensitive text (read with local OCR).
+  images: ImageRedactionMode | "off";
+  finalize: boolean;
+  revealValues: boolean;
+  // Selectable policy profiles (admin, built-in, imported) and the active one. When the
+  // administrator's profile is locked it is the only entry and the picker is disabled.
+  profiles: PolicyProfile[];
+  profileId: string;
+  profileLocked: boolean;
+  // Regions whose national identifiers are looked for in this document.
+  locales: DetectorLocale[];
+  // External detection services deployed by the administrator, asked alongside the detectors.
+  providers: DetectionProvider[];
+  scope: RedactionScope;
+  // Encrypted undo vault for the next run; the passphrase stays in memory only.
+  vaultEnabled: boolean;
+  vaultPassphrase: string;
+  // Restore view: vaults found in the document (null while loading) and the one opened.
+  storedVaults: StoredVault[] | null;
+  openedVault: { stored: StoredVault; record: VaultRecord; selected: string[] } | null;
 };
 
-type AppHandlers = {
+export type AppHandlers = {
   onRun: () => void;
+  onCancel: () => void;
+  onScan: () => void;
+  onCheck: () => void;
+  onStampWhenCleanChange: (enabled: boolean) => void;
+  onCheckOnOpenChange: (enabled: boolean) => void;
+  onApply: () => void;
+  onDecide: (id: string, decision: CandidateDecision) => void;
+  onReclassify: (id: string, type: SensitiveType) => void;
+  onSelectCandidate: (id: string) => void;
+  onToggleSettings: () => void;
+  onSavePattern: (def: CustomPatternDef) => void;
+  onDeletePattern: (id: string) => void;
+  onStyleChange: (type: SensitiveType, style: RedactionStyle | null) => void;
+  onTermListsScopeChange: (scope: SettingsScope) => void;
+  onSaveTermLists: (lists: TermLists) => void;
+  onImportTermLists: (json: string) => void;
+  onExportTermLists: () => void;
+  onScopeChange: (scope: RedactionScope) => void;
+  onModeChange: (mode: RedactionMode) => void;
+  onBatchKeyChange: (key: string) => void;
+  onExportMapping: (passphrase: string) => void;
+  onSanitizeChange: (enabled: boolean, options: SanitizeOptions) => void;
+  onImagesChange: (images: ImageRedactionMode | "off") => void;
+  onFinalizeChange: (enabled: boolean) => void;
+  onRevealValuesChange: (reveal: boolean) => void;
+  onExportAudit: (format: AuditExportFormat) => void;
+  onProfileChange: (id: string) => void;
+  onLocalesChange: (locales: DetectorLocale[]) => void;
+  onImportProfiles: (json: string) => void;
+  onExportProfile: () => void;
+  onVaultChange: (enabled: boolean, passphrase: string) => void;
+  onExportVault: () => void;
+  onToggleRestore: () => void;
+  onOpenVault: (runId: string, passphrase: string) => void;
+  onImportVault: (json: string, passphrase: string) => void;
+  onDeleteVault: (runId: string) => void;
+  onSelectVaultEntry: (id: string, selected: boolean) => void;
+  onRestore: (selectedOnly: boolean) => void;
+  onCloseVault: () => void;
 };
 
+export type AuditExportFormat = "json" | "csv" | "certificate";
+
+
 let root: HTMLElement | null = null;
 let handlers: AppHandlers | null = null;
+// Parts of the current tree that change while a run is going, updated in place (appendLogLine,
+// updateProgress) rather than by rebuilding the pane for every log line and scanned window.
+let logList: HTMLElement | null = null;
+let progressParts: { label: HTMLElement; fill: HTMLElement; determinate: boolean } | null = null;
+
+const SHOWN_LOG_LINES = 120;
 
 export function renderAppShell(state: AppState, h: AppHandlers) {
   handlers = h;
@@ -40,7 +154,27 @@ export function setAppState(state: AppState) {
   root.appendChild(buildTree(state));
 }
 
+/** Add `line` to the log shown, if any; the caller keeps AppState.logs in step. */
+export function appendLogLine(line: string) {
+  if (!logList) return;
+  logList.appendChild(logLine(line));
+  while (logList.childElementCount > SHOWN_LOG_LINES) logList.firstElementChild?.remove();
+}
+
+/** Show `state.progress`, patching the progress bar when one of the same kind is on screen. */
+export function updateProgress(state: AppState) {
+  const progress = state.progress;
+  if (!progress || !progressParts || progressParts.determinate !== progress.total > 0) {
+    setAppState(state);
+    return;
+  }
+  progressParts.label.textContent = progressText(progress);
+  if (progress.total) progressParts.fill.style.width = progressWidth(progress);
+}
+
 function buildTree(state: AppState): HTMLElement {
+  logList = null;
+  progressParts = null;
   const wrap = el("div", "wrap");
   const card = el("div", "card");
   wrap.appendChild(card);
@@ -56,17 +190,61 @@ function buildTree(state: AppState): HTMLElement {
   titleRow.appendChild(title);
 
   const badge = el("div", "badge");
-  badge.textContent = state.officeReady ? "Connected to Word" : "Not connected";
+  badge.textContent = state.officeReady ? `Connected to ${HOST_NAMES[state.host]}` : "Not connected";
   titleRow.appendChild(badge);
 
   const subtitle = el("p", "subtitle");
-  subtitle.textContent =
-    "One click will enable Track Changes (if supported), add a CONFIDENTIAL header, and redact emails, phone numbers, SSNs, credit/debit cards, common bank identifiers, insurance policy numbers, employee IDs, and MRNs across the entire document.";
+  const profile = currentProfile(state);
+  const labels = profileDetectors(profile, state.locales).map((d) => d.label);
+  const steps = state.host !== "word" ? [
+    profile.header ? `add “${profile.header.text}” as ${HOST_ADAPTERS[state.host].banner}` : null,
+    `redact ${labels.join(", ")} in this ${HOST_ITEMS[state.host]}`,
+  ] : [
+    profile.trackChanges ? "enable Track Changes (if supported)" : null,
+    profile.sensitivityLabels
+      ? "label it Internal to Highly Restricted by what it contains (header, footer, watermark)"
+      : profile.header ? `add a “${profile.header.text}” header` : null,
+    `redact ${labels.join(", ")} ${SCOPE_PHRASES[state.scope]}`,
+    { mask: "black out the same in pictures", remove: "remove pictures showing any of it", off: null }[state.images],
+  ].filter(Boolean);
+  const providers = state.providers.length
+    ? ` Findings from ${state.providers.map((p) => p.name).join(", ")} are merged in.`
+    : "";
+  subtitle.textContent = `One click will ${steps.join(", ")}.${providers}`;
   header.appendChild(subtitle);
 
+  const links = el("div", "reviewBulk headerLink");
+  header.appendChild(links);
+  if (state.view === "main") {
+    links.appendChild(smallBtn("Settings", state.running, () => handlers?.onToggleSettings()));
+    if (state.host === "word") links.appendChild(smallBtn("Undo / restore", state.running, () => handlers?.onToggleRestore()));
+  } else {
+    links.appendChild(
+      smallBtn("← Back", state.running, () =>
+        state.view === "settings" ? handlers?.onToggleSettings() : handlers?.onToggleRestore(),
+      ),
+    );
+  }
+
   const content = el("div", "content");
   card.appendChild(content);
 
+  if (state.view === "settings" && handlers) {
+    content.appendChild(customPatternsPanel(state, handlers));
+    content.appendChild(replacementStylesPanel(state, handlers));
+    content.appendChild(termListsPanel(state, handlers));
+    return wrap;
+  }
+  if (state.view === "restore" && handlers) {
+    content.appendChild(restorePanel(state, handlers));
+    content.appendChild(logView(state));
+    return wrap;
+  }
+  if (state.host !== "word") {
+    hostView(state, content);
+    return wrap;
+  }
+
   const btn = document.createElement("button");
   btn.className = "primaryBtn";
   btn.textContent = state.running ? "Running…" : "Redact & Mark Confidential";
@@ -74,6 +252,26 @@ function buildTree(state: AppState): HTMLElement {
   btn.addEventListener("click", () => handlers?.onRun());
   content.appendChild(btn);
 
+  if (state.running && state.progress) content.appendChild(progressBar(state.progress));
+
+  content.appendChild(policyControls(state));
+  content.appendChild(localeControls(state));
+  content.appendChild(modeControls(state));
+  content.appendChild(imageControls(state));
+  content.appendChild(sanitizeControls(state));
+  content.appendChild(finalizeControls(state));
+  content.appendChild(vaultControls(state));
+
+  const scanBtn = document.createElement("button");
+  scanBtn.className = "secondaryBtn";
+  scanBtn.textContent = state.candidates ? "Re-scan for review" : "Scan & review first";
+  scanBtn.disabled = !state.officeReady || state.running;
+  scanBtn.addEventListener("click", () => handlers?.onScan());
+  content.appendChild(scanBtn);
+
+  if (state.candidates) content.appendChild(reviewPanel(state));
+  if (handlers) content.appendChild(compliancePanel(state, handlers));
+
   const grid2 = el("div", "grid2");
   content.appendChild(grid2);
 
@@ -90,17 +288,432 @@ function buildTree(state: AppState): HTMLElement {
     ),
   );
 
+  if (state.lastResult?.pseudonyms.length) content.appendChild(mappingExport(state));
+  if (state.lastResult?.audit) content.appendChild(auditExport(state));
+  if (state.lastResult?.vault) content.appendChild(vaultExport(state));
+
+  content.appendChild(
+    checkbox("Show raw values in the log (masked by default)", state.revealValues, state.running, (checked) =>
+      handlers?.onRevealValuesChange(checked),
+    ),
+  );
+
+  content.appendChild(logView(state));
+  return wrap;
+}
+
+const HOST_ITEMS: Record<Exclude<HostKind, "word">, string> = {
+  excel: "workbook (cells, comments and sheet names)",
+  powerpoint: "presentation (slide text; speaker notes are checked only)",
+  outlook: "message (subject and body)",
+};
+
+// Main view outside Word: the host adapters have no tracking, review, vault or picture pass.
+function hostView(state: AppState, content: HTMLElement) {
+  const btn = document.createElement("button");
+  btn.className = "primaryBtn";
+  btn.textContent = state.running ? "Running…" : "Redact & Mark Confidential";
+  btn.disabled = !state.officeReady || state.running;
+  btn.addEventListener("click", () => handlers?.onRun());
+  content.appendChild(btn);
+  if (state.running && state.progress) content.appendChild(progressBar(state.progress));
+
+  content.appendChild(policyControls(state));
+  content.appendChild(localeControls(state));
+  if (handlers) content.appendChild(compliancePanel(state, handlers));
+
+  const grid2 = el("div", "grid2");
+  content.appendChild(grid2);
+  const result = state.hostResult;
+  grid2.appendChild(metric("Host", HOST_NAMES[state.host], state.officeReady ? "ok" : "bad"));
+  grid2.appendChild(
+    metric(
+      "Last run",
+      result ? `${result.redactionsTotal} redactions` : state.running ? "In progress" : "Not run yet",
+      result && result.flagged.length === 0 ? "ok" : result ? "bad" : state.running ? "ok" : "bad",
+    ),
+  );
+
+  content.appendChild(
+    checkbox("Show raw values in the log (masked by default)", state.revealValues, state.running, (checked) =>
+      handlers?.onRevealValuesChange(checked),
+    ),
+  );
+  content.appendChild(logView(state));
+}
+
+function logView(state: AppState): HTMLElement {
   const log = el("div", "log");
-  content.appendChild(log);
-  for (const line of state.logs.slice(-120)) {
-    const ln = el("div", "logLine");
-    ln.textContent = line;
-    log.appendChild(ln);
+  for (const line of state.logs.slice(-SHOWN_LOG_LINES)) log.appendChild(logLine(line));
+  logList = log;
+  return log;
+}
+
+function logLine(line: string): HTMLElement {
+  const ln = el("div", "logLine");
+  ln.textContent = line;
+  return ln;
+}
+
+function progressBar(progress: RedactionProgress): HTMLElement {
+  const wrap = el("div", "progress");
+
+  const row = el("div", "progressRow");
+  wrap.appendChild(row);
+  const label = el("div", "progressLabel");
+  label.textContent = progressText(progress);
+  row.appendChild(label);
+  row.appendChild(smallBtn("Cancel", false, () => handlers?.onCancel()));
+
+  const track = el("div", "progressTrack");
+  wrap.appendChild(track);
+  const fill = el("div", progress.total ? "progressFill" : "progressFill indeterminate");
+  if (progress.total) fill.style.width = progressWidth(progress);
+  track.appendChild(fill);
+  progressParts = { label, fill, determinate: progress.total > 0 };
+  return wrap;
+}
+
+function progressText(progress: RedactionProgress): string {
+  return progress.total
+    ? `${progress.label}: ${progress.done.toLocaleString()} of ${progress.total.toLocaleString()} ${progress.unit ?? "span(s)"}`
+    : `${progress.label}…`;
+}
+
+function progressWidth(progress: RedactionProgress): string {
+  return `${Math.round((100 * progress.done) / progress.total)}%`;
+}
+
+const SCOPE_PHRASES: Record<RedactionScope, string> = {
+  document: "across the entire document",
+  selection: "in the current selection",
+  incremental: "in content added or changed since the last incremental run",
+};
+
+export function currentProfile(state: AppState): PolicyProfile {
+  return state.profiles.find((p) => p.id === state.profileId) ?? state.profiles[0];
+}
+
+function policyControls(state: AppState): HTMLElement {
+  const row = el("div", "modeRow");
+  const profile = currentProfile(state);
+
+  const picker = document.createElement("select");
+  picker.className = "settingsInput";
+  picker.disabled = state.running || state.profileLocked;
+  for (const p of state.profiles) {
+    const opt = document.createElement("option");
+    opt.value = p.id;
+    opt.textContent = `Policy: ${p.name}`;
+    opt.selected = p.id === profile.id;
+    picker.appendChild(opt);
   }
+  picker.addEventListener("change", () => handlers?.onProfileChange(picker.value));
+  row.appendChild(picker);
 
+  const info = el("div", "reviewContext");
+  const classification = profile.classification ? `${profile.classification} · ` : "";
+  info.textContent = state.profileLocked
+    ? `${classification}Set by your administrator.`
+    : `${classification}${profile.description}`;
+  row.appendChild(info);
+
+  if (state.profileLocked) return row;
+
+  const file = document.createElement("input");
+  file.type = "file";
+  file.accept = ".json,application/json";
+  file.hidden = true;
+  file.addEventListener("change", async () => {
+    const chosen = file.files?.[0];
+    if (chosen) handlers?.onImportProfiles(await chosen.text());
+  });
+  row.appendChild(file);
+
+  const buttons = el("div", "reviewBulk");
+  buttons.appendChild(smallBtn("Import profiles…", state.running, () => file.click()));
+  buttons.appendChild(smallBtn("Export profile", state.running, () => handlers?.onExportProfile()));
+  row.appendChild(buttons);
+  return row;
+}
+
+function localeControls(state: AppState): HTMLElement {
+  const box = el("div", "modeRow");
+  const head = el("div", "reviewHead");
+  head.textContent = "National IDs for this document:";
+  box.appendChild(head);
+
+  const list = el("div", "checkList");
+  for (const { id, label } of LOCALES) {
+    list.appendChild(
+      checkbox(label, state.locales.includes(id), state.running, (checked) =>
+        handlers?.onLocalesChange(checked ? [...state.locales, id] : state.locales.filter((l) => l !== id)),
+      ),
+    );
+  }
+  box.appendChild(list);
+  return box;
+}
+
+function modeControls(state: AppState): HTMLElement {
+  const row = el("div", "modeRow");
+
+  const scope = document.createElement("select");
+  scope.className = "settingsInput";
+  scope.disabled = state.running;
+  for (const [value, label] of [
+    ["document", "Whole document"],
+    ["selection", "Selection only"],
+    ["incremental", "New or changed content only (incremental)"],
+  ] as const) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    opt.selected = state.scope === value;
+    scope.appendChild(opt);
+  }
+  scope.addEventListener("change", () => handlers?.onScopeChange(scope.value as RedactionScope));
+  row.appendChild(scope);
+
+  const mode = document.createElement("select");
+  mode.className = "settingsInput";
+  mode.disabled = state.running;
+  for (const [value, label] of [
+    ["redact", "Replace with [REDACTED] markers"],
+    ["pseudonymize", "Pseudonymize (stable tokens)"],
+  ] as const) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    opt.selected = state.mode === value;
+    mode.appendChild(opt);
+  }
+  mode.addEventListener("change", () => handlers?.onModeChange(mode.value as RedactionMode));
+  row.appendChild(mode);
+
+  if (state.mode === "pseudonymize") {
+    const key = document.createElement("input");
+    key.type = "password";
+    key.className = "settingsInput";
+    key.placeholder = "Batch key (optional, same tokens across documents)";
+    key.value = state.batchKey;
+    key.disabled = state.running;
+    key.addEventListener("change", () => handlers?.onBatchKeyChange(key.value));
+    row.appendChild(key);
+  }
+
+  return row;
+}
+
+function imageControls(state: AppState): HTMLElement {
+  const row = el("div", "modeRow");
+  const images = document.createElement("select");
+  images.className = "settingsInput";
+  images.disabled = state.running;
+  for (const [value, label] of [
+    ["mask", "Pictures: black out sensitive text (OCR)"],
+    ["remove", "Pictures: remove those with sensitive text (OCR)"],
+    ["off", "Pictures: leave as they are"],
+  ] as const) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    opt.selected = state.images === value;
+    images.appendChild(opt);
+  }
+  images.addEventListener("change", () => handlers?.onImagesChange(images.value as AppState["images"]));
+  row.appendChild(images);
+  return row;
+}
+
+function sanitizeControls(state: AppState): HTMLElement {
+  const box = el("div", "modeRow");
+  box.appendChild(
+    checkbox("Sanitize metadata & hidden content", state.sanitizeEnabled, state.running, (checked) =>
+      handlers?.onSanitizeChange(checked, state.sanitize),
+    ),
+  );
+  if (!state.sanitizeEnabled) return box;
+
+  const list = el("div", "checkList");
+  for (const [category, label] of Object.entries(SANITIZE_LABELS) as Array<[SanitizeCategory, string]>) {
+    list.appendChild(
+      checkbox(label, state.sanitize[category], state.running, (checked) =>
+        handlers?.onSanitizeChange(true, { ...state.sanitize, [category]: checked }),
+      ),
+    );
+  }
+  box.appendChild(list);
+  return box;
+}
+
+function finalizeControls(state: AppState): HTMLElement {
+  const box = el("div", "modeRow");
+  box.appendChild(
+    checkbox(
+      "Finalize: accept redaction revisions, turn tracking off and verify originals are gone",
+      state.finalize,
+      state.running,
+      (checked) => handlers?.onFinalizeChange(checked),
+    ),
+  );
+  return box;
+}
+
+function vaultControls(state: AppState): HTMLElement {
+  const box = el("div", "modeRow");
+  box.appendChild(
+    checkbox("Keep an encrypted undo vault of the original values", state.vaultEnabled, state.running, (checked) =>
+      handlers?.onVaultChange(checked, state.vaultPassphrase),
+    ),
+  );
+  if (!state.vaultEnabled) return box;
+
+  const key = document.createElement("input");
+  key.type = "password";
+  key.className = "settingsInput";
+  key.placeholder = "Vault passphrase (needed to restore)";
+  key.value = state.vaultPassphrase;
+  key.disabled = state.running;
+  key.addEventListener("change", () => handlers?.onVaultChange(true, key.value));
+  box.appendChild(key);
+  return box;
+}
+
+export function checkbox(label: string, checked: boolean, disabled: boolean, onChange: (checked: boolean) => void) {
+  const wrap = el("label", "checkRow");
+  const input = document.createElement("input");
+  input.type = "checkbox";
+  input.checked = checked;
+  input.disabled = disabled;
+  input.addEventListener("change", () => onChange(input.checked));
+  const text = el("span");
+  text.textContent = label;
+  wrap.appendChild(input);
+  wrap.appendChild(text);
   return wrap;
 }
 
+function mappingExport(state: AppState): HTMLElement {
+  const row = el("div", "modeRow");
+
+  const head = el("div", "reviewHead");
+  head.textContent = `${state.lastResult?.pseudonyms.length ?? 0} pseudonym(s) issued. Export the mapping to allow authorized reversal:`;
+  row.appendChild(head);
+
+  const passphrase = document.createElement("input");
+  passphrase.type = "password";
+  passphrase.className = "settingsInput";
+  passphrase.placeholder = "Passphrase to encrypt the mapping";
+  row.appendChild(passphrase);
+
+  row.appendChild(
+    smallBtn("Export encrypted mapping", state.running, () => handlers?.onExportMapping(passphrase.value)),
+  );
+  return row;
+}
+
+function auditExport(state: AppState): HTMLElement {
+  const row = el("div", "modeRow");
+
+  const head = el("div", "reviewHead");
+  head.textContent = `Audit record: ${state.lastResult?.audit?.entries.length ?? 0} span(s), values stored as salted hashes.`;
+  row.appendChild(head);
+
+  const buttons = el("div", "reviewBulk");
+  buttons.appendChild(smallBtn("Export JSON", state.running, () => handlers?.onExportAudit("json")));
+  buttons.appendChild(smallBtn("Export CSV", state.running, () => handlers?.onExportAudit("csv")));
+  buttons.appendChild(smallBtn("Certificate", state.running, () => handlers?.onExportAudit("certificate")));
+  row.appendChild(buttons);
+  return row;
+}
+
+function vaultExport(state: AppState): HTMLElement {
+  const row = el("div", "modeRow");
+  const head = el("div", "reviewHead");
+  head.textContent = `Undo vault: ${state.lastResult?.vault?.count ?? 0} original value(s), encrypted.`;
+  row.appendChild(head);
+  row.appendChild(smallBtn("Export undo vault", state.running, () => handlers?.onExportVault()));
+  return row;
+}
+
+function reviewPanel(state: AppState): HTMLElement {
+  const candidates = state.candidates ?? [];
+  const panel = el("div", "review");
+
+  const head = el("div", "reviewHead");
+  const accepted = candidates.filter((c) => c.decision === "accepted").length;
+  const rejected = candidates.filter((c) => c.decision === "rejected").length;
+  head.textContent = `Review: ${candidates.length} candidate(s) · ${accepted} accepted · ${rejected} rejected`;
+  panel.appendChild(head);
+
+  const bulk = el("div", "reviewBulk");
+  bulk.appendChild(smallBtn("Accept all", state.running, () => {
+    for (const c of candidates) handlers?.onDecide(c.id, "accepted");
+  }));
+  bulk.appendChild(smallBtn("Reject all", state.running, () => {
+    for (const c of candidates) handlers?.onDecide(c.id, "rejected");
+  }));
+  panel.appendChild(bulk);
+
+  if (candidates.length === 0) {
+    const empty = el("p", "reviewEmpty");
+    empty.textContent = "Nothing detected.";
+    panel.appendChild(empty);
+  }
+
+  for (const c of candidates) {
+    const row = el("div", `reviewRow ${c.decision}${c.id === state.selectedCandidateId ? " selected" : ""}`);
+
+    const info = el("div", "reviewInfo");
+    info.title = "Show in document";
+    info.addEventListener("click", () => handlers?.onSelectCandidate(c.id));
+    const value = el("div", "reviewValue");
+    value.textContent = `${c.value}  ×${c.occurrences}`;
+    if (c.confidence < AUTO_REDACT_MIN_CONFIDENCE) {
+      const tag = el("span", "lowConfidence");
+      tag.textContent = ` low confidence (${Math.round(c.confidence * 100)}%)`;
+      value.appendChild(tag);
+    }
+    const ctx = el("div", "reviewContext");
+    ctx.textContent = c.context;
+    info.appendChild(value);
+    info.appendChild(ctx);
+    row.appendChild(info);
+
+    const actions = el("div", "reviewActions");
+    const type = document.createElement("select");
+    type.className = "reviewType";
+    type.disabled = state.running;
+    // Where detectors disagreed on this value, say why this type was chosen.
+    const resolution = c.matches.find((m) => m.resolution)?.resolution;
+    if (resolution) type.title = resolution.reason;
+    for (const d of getDetectors()) {
+      const opt = document.createElement("option");
+      opt.value = d.id;
+      opt.textContent = d.label;
+      opt.selected = d.id === c.type;
+      type.appendChild(opt);
+    }
+    type.addEventListener("change", () => handlers?.onReclassify(c.id, type.value as SensitiveType));
+    actions.appendChild(type);
+    actions.appendChild(smallBtn("✓", state.running, () => handlers?.onDecide(c.id, "accepted")));
+    actions.appendChild(smallBtn("✕", state.running, () => handlers?.onDecide(c.id, "rejected")));
+    row.appendChild(actions);
+
+    panel.appendChild(row);
+  }
+
+  const apply = document.createElement("button");
+  apply.className = "primaryBtn";
+  apply.textContent = `Redact ${accepted} approved`;
+  apply.disabled = !state.officeReady || state.running || accepted === 0;
+  apply.addEventListener("click", () => handlers?.onApply());
+  panel.appendChild(apply);
+
+  return panel;
+}
+
 function metric(label: string, value: string, tone: "ok" | "bad") {
   const pill = el("div", "pill");
   const l = el("p", "pillLabel");
@@ -111,11 +724,3 @@ function metric(label: string, value: string, tone: "ok" | "bad") {
   pill.appendChild(v);
   return pill;
 }
-
-function el(tag: string, className?: string) {
-  const e = document.createElement(tag);
-  if (className) e.className = className;
-  return e;
-}
-
-
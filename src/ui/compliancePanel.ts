@@ -0,0 +1,74 @@
+import { maskValue } from "../office/auditRecord";
+import { detectorLabel } from "../office/detectorRegistry";
+import { checkbox, type AppHandlers, type AppState } from "./appShell";
+import { el } from "./dom";
+
+const SHOWN_FINDINGS = 50;
+
+export function compliancePanel(state: AppState, handlers: AppHandlers): HTMLElement {
+  const panel = el("div", "modeRow");
+
+  const btn = document.createElement("button");
+  btn.className = "secondaryBtn";
+  btn.textContent = state.host === "outlook" ? "Check message (no changes)" : "Check document (no changes)";
+  btn.disabled = !state.officeReady || state.running;
+  btn.addEventListener("click", () => handlers.onCheck());
+  panel.appendChild(btn);
+
+  // Outlook items have no document settings to hold a stamp or the check-on-open flag.
+  if (state.host !== "outlook") {
+    panel.appendChild(
+      checkbox("Stamp the document as verified clean when the check passes", state.stampWhenClean, state.running, (checked) =>
+        handlers.onStampWhenCleanChange(checked),
+      ),
+    );
+    panel.appendChild(
+      checkbox("Run this check whenever the document is opened", state.checkOnOpen, state.running, (checked) =>
+        handlers.onCheckOnOpenChange(checked),
+      ),
+    );
+  }
+
+  const check = state.compliance;
+  if (!check) return panel;
+  const { report } = check;
+
+  const verdict = el("div", `verdict ${report.passed ? "ok" : "bad"}`);
+  verdict.textContent = report.passed
+    ? `Passed · ${report.profileName}`
+    : `Failed · ${report.blocking} finding(s) must be redacted before sharing (${report.profileName})`;
+  panel.appendChild(verdict);
+
+  const stamp = el("div", "reviewContext");
+  stamp.textContent =
+    check.stampStatus === "valid"
+      ? `Verified clean on ${new Date(check.stamp!.checkedAt).toLocaleString()} · SHA-256 ${check.stamp!.documentHash.slice(0, 12)}…`
+      : check.stampStatus === "stale"
+        ? "The document's verified-clean stamp is out of date: the content changed since it was checked."
+        : "Not stamped.";
+  panel.appendChild(stamp);
+
+  for (const f of report.findings.slice(0, SHOWN_FINDINGS)) {
+    const row = el("div", "reviewRow");
+    const info = el("div", "reviewInfo");
+    const value = el("div", "reviewValue");
+    value.textContent = `${detectorLabel(f.type)}: ${state.revealValues ? f.value : maskValue(f.value)}`;
+    if (!f.blocking) {
+      const tag = el("span", "lowConfidence");
+      tag.textContent = ` low confidence (${Math.round(f.confidence * 100)}%), not blocking`;
+      value.appendChild(tag);
+    }
+    const ctx = el("div", "reviewContext");
+    ctx.textContent = `[${f.storyLabel}] ${state.revealValues ? f.context : f.context.split(f.value).join(maskValue(f.value))}`;
+    info.appendChild(value);
+    info.appendChild(ctx);
+    row.appendChild(info);
+    panel.appendChild(row);
+  }
+  if (report.findings.length > SHOWN_FINDINGS) {
+    const more = el("div", "reviewContext");
+    more.textContent = `…and ${report.findings.length - SHOWN_FINDINGS} more.`;
+    panel.appendChild(more);
+  }
+  return panel;
+}
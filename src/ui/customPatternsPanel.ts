@@ -0,0 +1,130 @@
+import { newCustomPatternId, testCustomPattern, type CustomPatternDef } from "../office/detectorRegistry";
+import type { AppHandlers, AppState } from "./appShell";
+import { el, smallBtn } from "./dom";
+
+type Draft = {
+  label: string;
+  pattern: string;
+  keywords: string;
+  replacement: string;
+  sample: string;
+};
+
+// The draft lives outside AppState: it changes on every keystroke and the shell re-renders the
+// whole tree on state changes, which would steal focus from the inputs.
+let draft: Draft = emptyDraft();
+
+export function customPatternsPanel(state: AppState, handlers: AppHandlers): HTMLElement {
+  const panel = el("div", "settings");
+
+  const head = el("div", "reviewHead");
+  head.textContent = `Custom patterns (${state.customPatterns.length}) · saved to your settings`;
+  panel.appendChild(head);
+
+  for (const def of state.customPatterns) {
+    const row = el("div", "reviewRow");
+    const info = el("div", "reviewInfo");
+    const name = el("div", "reviewValue");
+    name.textContent = def.label;
+    const detail = el("div", "reviewContext");
+    detail.textContent = `/${def.pattern}/ → ${def.replacement || "[REDACTED {label}]"}${def.keywords.length ? ` · near: ${def.keywords.join(", ")}` : ""}`;
+    info.appendChild(name);
+    info.appendChild(detail);
+    row.appendChild(info);
+    row.appendChild(smallBtn("Delete", state.running, () => handlers.onDeletePattern(def.id)));
+    panel.appendChild(row);
+  }
+
+  const form = el("div", "settingsForm");
+  form.appendChild(field("Label", "Matter number", "label"));
+  form.appendChild(field("Pattern (regex)", "\\bM-\\d{5}\\b", "pattern"));
+  form.appendChild(field("Context keywords (comma-separated, optional)", "matter, case", "keywords"));
+  form.appendChild(field("Replacement", "[REDACTED {label}]", "replacement"));
+
+  const sample = document.createElement("textarea");
+  sample.className = "settingsInput";
+  sample.rows = 3;
+  sample.placeholder = "Paste sample text to test the pattern…";
+  sample.value = draft.sample;
+  form.appendChild(sample);
+
+  const preview = el("div", "reviewContext");
+  form.appendChild(preview);
+
+  const refresh = () => renderPreview(preview);
+  form.addEventListener("input", (e) => {
+    const target = e.target as HTMLInputElement | HTMLTextAreaElement;
+    const key = target.dataset.key as keyof Draft | undefined;
+    if (key) draft[key] = target.value;
+    else if (target === sample) draft.sample = sample.value;
+    refresh();
+  });
+  refresh();
+
+  if (state.settingsError) {
+    const err = el("div", "settingsError");
+    err.textContent = state.settingsError;
+    form.appendChild(err);
+  }
+
+  const add = document.createElement("button");
+  add.className = "primaryBtn";
+  add.textContent = "Add pattern";
+  add.disabled = state.running;
+  add.addEventListener("click", () => handlers.onSavePattern(toDef(draft)));
+  form.appendChild(add);
+
+  panel.appendChild(form);
+  return panel;
+}
+
+/** Called by the host after a pattern was saved successfully. */
+export function resetPatternDraft() {
+  draft = emptyDraft();
+}
+
+function field(label: string, placeholder: string, key: keyof Draft) {
+  const wrap = el("label", "settingsField");
+  const l = el("span", "pillLabel");
+  l.textContent = label;
+  const input = document.createElement("input");
+  input.className = "settingsInput";
+  input.placeholder = placeholder;
+  input.value = draft[key];
+  input.dataset.key = key;
+  wrap.appendChild(l);
+  wrap.appendChild(input);
+  return wrap;
+}
+
+function renderPreview(target: HTMLElement) {
+  if (!draft.pattern || !draft.sample) {
+    target.textContent = "Matches will appear here.";
+    return;
+  }
+  try {
+    const matches = testCustomPattern(toDef({ ...draft, label: draft.label || "Preview" }), draft.sample);
+    target.textContent = matches.length
+      ? `${matches.length} match(es): ${matches.map((m) => m.value).join(" · ")}`
+      : "No matches.";
+  } catch (e: any) {
+    target.textContent = e?.message ?? String(e);
+  }
+}
+
+function toDef(d: Draft): CustomPatternDef {
+  return {
+    id: newCustomPatternId(d.label),
+    label: d.label,
+    pattern: d.pattern,
+    keywords: d.keywords
+      .split(",")
+      .map((k) => k.trim())
+      .filter(Boolean),
+    replacement: d.replacement,
+  };
+}
+
+function emptyDraft(): Draft {
+  return { label: "", pattern: "", keywords: "", replacement: "", sample: "" };
+}
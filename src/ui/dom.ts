@@ -0,0 +1,25 @@
+export function el(tag: string, className?: string) {
+  const e = document.createElement(tag);
+  if (className) e.className = className;
+  return e;
+}
+
+export function smallBtn(label: string, disabled: boolean, onClick: () => void) {
+  const b = document.createElement("button");
+  b.className = "smallBtn";
+  b.textContent = label;
+  b.disabled = disabled;
+  b.addEventListener("click", onClick);
+  return b;
+}
+
+export function downloadFile(name: string, content: string, mime = "application/json") {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
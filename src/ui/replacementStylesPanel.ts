@@ -0,0 +1,60 @@
+import { profileDetectors } from "../office/policyProfiles";
+import {
+  DEFAULT_STYLE,
+  describeStyle,
+  STYLE_LABELS,
+  type RedactionStyle,
+  type RedactionStyleKind,
+} from "../office/redactionStyles";
+import { currentProfile, type AppHandlers, type AppState } from "./appShell";
+import { el } from "./dom";
+
+// Presets offered per detector; "keepLast" keeps four characters, as card and account numbers
+// are usually quoted. Profiles can set any count.
+const PRESETS: Record<RedactionStyleKind, RedactionStyle> = {
+  label: { kind: "label" },
+  mask: { kind: "mask" },
+  keepLast: { kind: "keepLast", count: 4 },
+  keepDomain: { kind: "keepDomain" },
+  blackBox: { kind: "blackBox" },
+};
+
+export function replacementStylesPanel(state: AppState, handlers: AppHandlers): HTMLElement {
+  const panel = el("div", "settings");
+  const profile = currentProfile(state);
+
+  const head = el("div", "reviewHead");
+  head.textContent = state.profileLocked
+    ? "Replacement styles · set by your administrator's policy"
+    : "Replacement styles · saved to your settings";
+  panel.appendChild(head);
+
+  for (const detector of profileDetectors(profile, state.locales)) {
+    const row = el("div", "reviewRow");
+    const name = el("div", "reviewValue");
+    name.textContent = detector.label;
+    row.appendChild(name);
+
+    const select = document.createElement("select");
+    select.className = "settingsInput";
+    select.disabled = state.running || state.profileLocked;
+    const override = state.profileLocked ? undefined : state.styleOverrides[detector.id];
+    const options: Array<[string, string]> = [
+      ["", `Policy default: ${describeStyle(detector.style ?? DEFAULT_STYLE)}`],
+      ...(Object.entries(STYLE_LABELS) as Array<[RedactionStyleKind, string]>),
+    ];
+    for (const [value, label] of options) {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = label;
+      opt.selected = (override?.kind ?? "") === value;
+      select.appendChild(opt);
+    }
+    select.addEventListener("change", () =>
+      handlers.onStyleChange(detector.id, select.value ? PRESETS[select.value as RedactionStyleKind] : null),
+    );
+    row.appendChild(select);
+    panel.appendChild(row);
+  }
+  return panel;
+}
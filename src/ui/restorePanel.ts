@@ -0,0 +1,121 @@
+import { maskValue } from "../office/auditRecord";
+import { detectorLabel } from "../office/detectorRegistry";
+import type { AppHandlers, AppState } from "./appShell";
+import { el, smallBtn } from "./dom";
+
+// Kept outside AppState for the same reason as the pattern draft, and so the passphrase is never
+// part of the state that gets re-rendered.
+let passphrase = "";
+
+export function restorePanel(state: AppState, handlers: AppHandlers): HTMLElement {
+  const panel = el("div", "settings");
+
+  const head = el("div", "reviewHead");
+  head.textContent = "Undo / restore from an encrypted vault";
+  panel.appendChild(head);
+
+  const help = el("div", "reviewContext");
+  help.textContent =
+    "Runs made with an undo vault store the original values, encrypted with your passphrase, in the document. " +
+    "Open one to restore all or selected values, or open an exported vault file.";
+  panel.appendChild(help);
+
+  const input = document.createElement("input");
+  input.type = "password";
+  input.className = "settingsInput";
+  input.placeholder = "Vault passphrase";
+  input.value = passphrase;
+  input.addEventListener("input", () => (passphrase = input.value));
+  panel.appendChild(input);
+
+  if (state.settingsError) {
+    const err = el("div", "settingsError");
+    err.textContent = state.settingsError;
+    panel.appendChild(err);
+  }
+
+  if (state.openedVault) {
+    panel.appendChild(entryList(state, handlers));
+    return panel;
+  }
+
+  const vaults = state.storedVaults;
+  if (!vaults) {
+    const loading = el("div", "reviewContext");
+    loading.textContent = "Looking for vaults in the document…";
+    panel.appendChild(loading);
+  } else if (vaults.length === 0) {
+    const none = el("div", "reviewContext");
+    none.textContent = "No vaults stored in this document.";
+    panel.appendChild(none);
+  }
+  for (const v of vaults ?? []) {
+    const row = el("div", "reviewRow");
+    const info = el("div", "reviewInfo");
+    const name = el("div", "reviewValue");
+    name.textContent = new Date(v.createdAt).toLocaleString();
+    const detail = el("div", "reviewContext");
+    detail.textContent = `${v.count} value(s) · run ${v.runId.slice(0, 8)}`;
+    info.appendChild(name);
+    info.appendChild(detail);
+    row.appendChild(info);
+    row.appendChild(smallBtn("Open", state.running, () => handlers.onOpenVault(v.runId, passphrase)));
+    row.appendChild(smallBtn("Delete", state.running, () => handlers.onDeleteVault(v.runId)));
+    panel.appendChild(row);
+  }
+
+  const file = document.createElement("input");
+  file.type = "file";
+  file.accept = ".json,application/json";
+  file.hidden = true;
+  file.addEventListener("change", async () => {
+    const chosen = file.files?.[0];
+    if (chosen) handlers.onImportVault(await chosen.text(), passphrase);
+  });
+  panel.appendChild(file);
+  panel.appendChild(smallBtn("Open vault file…", state.running, () => file.click()));
+  return panel;
+}
+
+function entryList(state: AppState, handlers: AppHandlers): HTMLElement {
+  const { record, selected } = state.openedVault!;
+  const box = el("div", "settingsForm");
+
+  const head = el("div", "reviewHead");
+  head.textContent = `${record.policy} · ${new Date(record.createdAt).toLocaleString()} · ${selected.length} of ${record.entries.length} selected`;
+  box.appendChild(head);
+
+  for (const entry of record.entries) {
+    const row = el("label", "reviewRow");
+    const check = document.createElement("input");
+    check.type = "checkbox";
+    check.checked = selected.includes(entry.id);
+    check.disabled = state.running;
+    check.addEventListener("change", () => handlers.onSelectVaultEntry(entry.id, check.checked));
+    row.appendChild(check);
+
+    const info = el("div", "reviewInfo");
+    const value = el("div", "reviewValue");
+    value.textContent = `${state.revealValues ? entry.original : maskValue(entry.original)} ← ${entry.replacement}`;
+    const detail = el("div", "reviewContext");
+    detail.textContent = `${detectorLabel(entry.type)} · ${entry.story}`;
+    info.appendChild(value);
+    info.appendChild(detail);
+    row.appendChild(info);
+    box.appendChild(row);
+  }
+
+  const buttons = el("div", "reviewBulk");
+  buttons.appendChild(smallBtn("Restore all", state.running, () => handlers.onRestore(false)));
+  buttons.appendChild(
+    smallBtn(`Restore ${selected.length} selected`, state.running || selected.length === 0, () => handlers.onRestore(true)),
+  );
+  buttons.appendChild(smallBtn("Close vault", state.running, () => handlers.onCloseVault()));
+  box.appendChild(buttons);
+  return box;
+}
+
+/** Called by the host once a vault has been opened, so the passphrase doesn't linger in the DOM. */
+export function clearVaultPassphrase() {
+  passphrase = "";
+}
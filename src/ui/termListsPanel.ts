@@ -0,0 +1,114 @@
+import { formatAllowRule, parseAllowRule, type TermLists } from "../office/termLists";
+import type { SettingsScope } from "../office/settingsStore";
+import type { AppHandlers, AppState } from "./appShell";
+import { el, smallBtn } from "./dom";
+
+// Edited text per scope, kept outside AppState for the same reason as the custom pattern draft:
+// re-rendering on every keystroke would steal focus. Dropped once saved or reloaded.
+const drafts: Partial<Record<SettingsScope, { allow: string; deny: string }>> = {};
+
+export function termListsPanel(state: AppState, handlers: AppHandlers): HTMLElement {
+  const panel = el("div", "settings");
+  const scope = state.termListsScope;
+  const lists = state.termLists[scope];
+  const draft = (drafts[scope] ??= {
+    allow: lists.allow.map(formatAllowRule).join("\n"),
+    deny: lists.deny.join("\n"),
+  });
+
+  const head = el("div", "reviewHead");
+  head.textContent = `Allowlist (${lists.allow.length}) and always-redact terms (${lists.deny.length})`;
+  panel.appendChild(head);
+
+  const form = el("div", "settingsForm");
+
+  const picker = document.createElement("select");
+  picker.className = "settingsInput";
+  picker.disabled = state.running;
+  // Outlook items have no document settings, so only the user's lists exist there.
+  const scopes = [
+    ["user", "Mine (every document)"],
+    ["document", "This document (travels with the file)"],
+  ] as const;
+  for (const [value, label] of state.host === "outlook" ? scopes.slice(0, 1) : scopes) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    opt.selected = scope === value;
+    picker.appendChild(opt);
+  }
+  picker.addEventListener("change", () => handlers.onTermListsScopeChange(picker.value as SettingsScope));
+  form.appendChild(picker);
+
+  form.appendChild(
+    area(
+      "Never flag (one per line: a value, a wildcard like *@ourcompany.com, or /regex/)",
+      "+44 20 7946 0000\n*@ourcompany.com",
+      draft.allow,
+      (value) => (draft.allow = value),
+    ),
+  );
+  form.appendChild(
+    area("Always redact (one term per line)", "Project Falcon", draft.deny, (value) => (draft.deny = value)),
+  );
+
+  if (state.termListsError) {
+    const err = el("div", "settingsError");
+    err.textContent = state.termListsError;
+    form.appendChild(err);
+  }
+
+  const file = document.createElement("input");
+  file.type = "file";
+  file.accept = ".json,application/json";
+  file.hidden = true;
+  file.addEventListener("change", async () => {
+    const chosen = file.files?.[0];
+    if (chosen) handlers.onImportTermLists(await chosen.text());
+  });
+  form.appendChild(file);
+
+  const buttons = el("div", "modeRow");
+  const save = document.createElement("button");
+  save.className = "primaryBtn";
+  save.textContent = "Save lists";
+  save.disabled = state.running;
+  save.addEventListener("click", () => handlers.onSaveTermLists(toLists(draft)));
+  buttons.appendChild(save);
+  buttons.appendChild(smallBtn("Import…", state.running, () => file.click()));
+  buttons.appendChild(smallBtn("Export", state.running, () => handlers.onExportTermLists()));
+  form.appendChild(buttons);
+
+  panel.appendChild(form);
+  return panel;
+}
+
+/** Forget edits so the panel shows the stored lists again (after a save or import). */
+export function resetTermListsDrafts() {
+  delete drafts.user;
+  delete drafts.document;
+}
+
+function area(label: string, placeholder: string, value: string, onInput: (value: string) => void): HTMLElement {
+  const wrap = el("label", "settingsField");
+  const l = el("span", "pillLabel");
+  l.textContent = label;
+  wrap.appendChild(l);
+  const input = document.createElement("textarea");
+  input.className = "settingsInput";
+  input.rows = 4;
+  input.placeholder = placeholder;
+  input.value = value;
+  input.addEventListener("input", () => onInput(input.value));
+  wrap.appendChild(input);
+  return wrap;
+}
+
+function toLists(draft: { allow: string; deny: string }): TermLists {
+  const lines = (text: string) =>
+    text
+      .split("\n")
+      .map((l) => l.trim())
+      .filter(Boolean);
+  return { allow: lines(draft.allow).map(parseAllowRule), deny: lines(draft.deny) };
+}
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { DetectionCancelledError, detectionConfig, detectMatches } from "../src/office/backgroundDetection";
+import { CHUNK_SIZE, chunkWindows, scanInChunks } from "../src/office/detectionChunks";
+import { BUILT_IN_PROFILES, profileDetectors } from "../src/office/policyProfiles";
+import { runRedactionWorkflow } from "../src/office/runRedactionWorkflow";
+import { findSensitiveMatches } from "../src/office/sensitivePatterns";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+const internal = { ...BUILT_IN_PROFILES.find((p) => p.id === "internal")!, header: null };
+const detectors = profileDetectors(internal);
+
+afterEach(() => uninstallFakeOffice());
+
+describe("chunked detection", () => {
+  it("covers the text with overlapping windows", () => {
+    expect(chunkWindows(250, 100, 30)).toEqual([
+      { start: 0, end: 100, from: 0, to: 130 },
+      { start: 100, end: 200, from: 70, to: 230 },
+      { start: 200, end: 250, from: 170, to: 250 },
+    ]);
+    expect(chunkWindows(0)).toEqual([]);
+  });
+
+  it("finds values straddling window boundaries once, as a whole-text scan does", () => {
+    const text = [
+      "Contact jane.doe@example.com about the renewal.",
+      "Her SSN is 123-45-6789 and her card 4111 1111 1111 1111 expires soon.",
+      "Call 212-555-1212 or write to ops@example.org before Friday.",
+    ]
+      .join(" ")
+      .repeat(6);
+    const whole = findSensitiveMatches(text, detectors);
+
+    for (const size of [37, 64, 100]) {
+      const chunked = [...scanInChunks([{ id: "body", text }], detectors, size, 120)].flatMap((c) => c.matches);
+      expect(chunked).toEqual(whole);
+    }
+  });
+
+  it("reports the characters scanned with each window", () => {
+    const texts = [
+      { id: "a", text: "x".repeat(150) },
+      { id: "b", text: "y".repeat(60) },
+    ];
+    expect([...scanInChunks(texts, detectors, 100, 10)].map((c) => [c.storyId, c.done, c.total])).toEqual([
+      ["a", 100, 210],
+      ["a", 150, 210],
+      ["b", 210, 210],
+    ]);
+  });
+});
+
+describe("detectMatches", () => {
+  const row = "Invoice for jane.doe@example.com, SSN 123-45-6789. ";
+  const long = row.repeat(Math.ceil((2.5 * CHUNK_SIZE) / row.length));
+
+  it("streams matches window by window and returns them all", async () => {
+    const streamed: number[] = [];
+
+    const matches = await detectMatches([{ id: "body", text: long }], detectionConfig(internal), {
+      onMatches: (_found, done) => streamed.push(done),
+    });
+
+    expect(streamed).toEqual([CHUNK_SIZE, 2 * CHUNK_SIZE, long.length]);
+    expect(matches).toEqual(findSensitiveMatches(long, detectors).map((m) => ({ ...m, storyId: "body" })));
+  });
+
+  it("stops when cancelled", async () => {
+    const controller = new AbortController();
+
+    const run = detectMatches([{ id: "body", text: long }], detectionConfig(internal), {
+      signal: controller.signal,
+      onMatches: () => controller.abort(),
+    });
+
+    await expect(run).rejects.toBeInstanceOf(DetectionCancelledError);
+  });
+
+  it("leaves the document alone when a run is cancelled while scanning", async () => {
+    const doc = installFakeOffice({ body: ["Her SSN is 123-45-6789."] });
+    const controller = new AbortController();
+
+    const run = runRedactionWorkflow(() => {}, {
+      profile: internal,
+      signal: controller.signal,
+      onProgress: (p) => p.label.startsWith("Scanning") && controller.abort(),
+    });
+
+    await expect(run).rejects.toBeInstanceOf(DetectionCancelledError);
+    expect(doc.body.lines).toEqual(["Her SSN is 123-45-6789."]);
+  });
+});
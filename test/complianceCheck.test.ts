@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { isCheckOnOpen, readCleanStamp, setCheckOnOpen } from "../src/office/complianceCheck";
+import { BUILT_IN_PROFILES } from "../src/office/policyProfiles";
+import { checkDocument } from "../src/office/runRedactionWorkflow";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+const internal = { ...BUILT_IN_PROFILES.find((p) => p.id === "internal")!, header: null };
+const quiet = () => {};
+
+afterEach(() => uninstallFakeOffice());
+
+describe("checkDocument", () => {
+  it("fails on residual PII and changes nothing", async () => {
+    const body = ["Employee SSN 123-45-6789.", "Card 4111 1111 1111 1111 on file."];
+    const doc = installFakeOffice({ body, headers: { "1.primary": ["Call 212-555-1212"] } });
+
+    const { report, stampStatus } = await checkDocument(quiet, { profile: internal }, true);
+
+    expect(report.passed).toBe(false);
+    expect(report.findings.map((f) => [f.type, f.storyLabel])).toEqual(
+      expect.arrayContaining([
+        ["ssn", "Body"],
+        ["card", "Body"],
+        ["phone", expect.stringContaining("Header")],
+      ]),
+    );
+    expect(doc.body.lines).toEqual(body);
+    expect(doc.changeTrackingMode).toBe("Off");
+    expect(stampStatus).toBe("none");
+    expect(readCleanStamp()).toBeNull();
+  });
+
+  it("passes with low-confidence hits as warnings and stamps the content hash", async () => {
+    installFakeOffice({ body: ["Met Sarah Grantley about the roadmap."] });
+
+    const { report, stamp, stampStatus } = await checkDocument(quiet, { profile: internal }, true);
+
+    expect(report.passed).toBe(true);
+    expect(report.warnings).toBe(1);
+    expect(stampStatus).toBe("valid");
+    expect(stamp).toEqual(readCleanStamp());
+    expect(stamp?.documentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("reports a stamp made for other content as stale", async () => {
+    installFakeOffice({ body: ["Quarterly roadmap."] });
+    const { stamp } = await checkDocument(quiet, { profile: internal }, true);
+
+    const edited = installFakeOffice({ body: ["Quarterly roadmap, now with SSN 123-45-6789."] });
+    edited.settings.set("redaction.cleanStamp", JSON.stringify(stamp));
+    const lines: string[] = [];
+    const result = await checkDocument((l) => lines.push(l), { profile: internal });
+
+    expect(result.stampStatus).toBe("stale");
+    expect(lines.some((l) => l.includes("no longer matches"))).toBe(true);
+  });
+
+  it("judges against the active profile", async () => {
+    installFakeOffice({ body: ["Mail jane.doe@example.com"] });
+    const pci = BUILT_IN_PROFILES.find((p) => p.id === "pci")!;
+
+    expect((await checkDocument(quiet, { profile: pci })).report.passed).toBe(true);
+    expect((await checkDocument(quiet, { profile: internal })).report.passed).toBe(false);
+  });
+});
+
+describe("check on open", () => {
+  it("sets Word's auto-show setting in the document", async () => {
+    const doc = installFakeOffice({ body: [] });
+
+    await setCheckOnOpen(true);
+    expect(doc.settings.get("Office.AutoShowTaskpaneWithDocument")).toBe(true);
+    expect(isCheckOnOpen()).toBe(true);
+
+    await setCheckOnOpen(false);
+    expect(isCheckOnOpen()).toBe(false);
+  });
+});
@@ -0,0 +1,220 @@
+import type { BuiltInType, SensitiveType } from "../src/office/sensitivePatterns";
+
+// Labeled examples for the built-in detectors. Every sensitive value in a `text` is listed in its
+// `expected`, so any other hit at or above the auto-redact threshold counts as a false positive.
+// Negatives are texts that look similar but must not produce a hit of their type.
+export type CorpusCase = {
+  text: string;
+  expected: Array<[SensitiveType, string]>;
+};
+
+export type DetectorCorpus = {
+  positive: CorpusCase[];
+  negative: string[];
+};
+
+export const CORPUS: Record<BuiltInType, DetectorCorpus> = {
+  email: {
+    positive: [
+      { text: "write to jane.doe@example.com today", expected: [["email", "jane.doe@example.com"]] },
+      { text: "cc: first+tag@sub.example.co.uk, thanks", expected: [["email", "first+tag@sub.example.co.uk"]] },
+      { text: "(contact: OPS_TEAM@Example.ORG)", expected: [["email", "OPS_TEAM@Example.ORG"]] },
+    ],
+    negative: ["the @handle is public", "see example.com for details", "user@localhost is not routable"],
+  },
+  phone: {
+    positive: [
+      { text: "call 212-555-1212 after noon", expected: [["phone", "212-555-1212"]] },
+      { text: "office: (212) 555-1212", expected: [["phone", "(212) 555-1212"]] },
+      { text: "mobile +1 212 555 1212.", expected: [["phone", "+1 212 555 1212"]] },
+      { text: "fax 212.555.1212", expected: [["phone", "212.555.1212"]] },
+      { text: "dial 2125551212 now", expected: [["phone", "2125551212"]] },
+      { text: "London office +44 20 7946 0958 ext. 4", expected: [["phone", "+44 20 7946 0958"]] },
+      { text: "Tel. +44 (0)20 7946 0958", expected: [["phone", "+44 (0)20 7946 0958"]] },
+      { text: "Paris: +33 1 42 68 53 00", expected: [["phone", "+33 1 42 68 53 00"]] },
+      { text: "Berlin +49 30 901820", expected: [["phone", "+49 30 901820"]] },
+    ],
+    negative: [
+      "order 212555121212345 shipped",
+      "the year 2024 had 365 days",
+      "version 1.2.3 released",
+      "invoice 12345678",
+      "Kyiv +380 44 123 45",
+      "code +33 12",
+    ],
+  },
+  ssn: {
+    positive: [
+      { text: "ssn 123-45-6789 on file", expected: [["ssn", "123-45-6789"]] },
+      {
+        text: "her social security number ends in 8234.",
+        expected: [["ssn", "8234"]],
+      },
+      { text: "SSN (last four): 0042", expected: [["ssn", "0042"]] },
+    ],
+    negative: [
+      "ssn on file since 1999",
+      "the ssn policy changed in 2024",
+      "part 123-456-789 is back-ordered",
+      "ticket 1234-56-789",
+    ],
+  },
+  card: {
+    positive: [
+      { text: "paid with 4111 1111 1111 1111 yesterday", expected: [["card", "4111 1111 1111 1111"]] },
+      { text: "mc 5500-0000-0000-0004", expected: [["card", "5500-0000-0000-0004"]] },
+      { text: "amex 378282246310005", expected: [["card", "378282246310005"]] },
+      // Not Luhn-valid, but explicitly labeled: the keyword fallback.
+      { text: "credit card number 4532 1234 5678 9012", expected: [["card", "4532 1234 5678 9012"]] },
+    ],
+    negative: ["tracking 1234 5678 9012 3456 in transit", "order 4111111111111112 confirmed", "see 12 34 56"],
+  },
+  bank: {
+    positive: [
+      { text: "iban GB82 WEST 1234 5698 7654 32", expected: [["bank", "GB82 WEST 1234 5698 7654 32"]] },
+      { text: "pay to DE89370400440532013000 by friday", expected: [["bank", "DE89370400440532013000"]] },
+      { text: "routing number: 021000021", expected: [["bank", "021000021"]] },
+      { text: "account no. 00123456789", expected: [["bank", "00123456789"]] },
+      { text: "sort code 20-00-00", expected: [["bank", "20-00-00"]] },
+      { text: "acct 2125551212 on file", expected: [["bank", "2125551212"]] },
+    ],
+    negative: [
+      "iban GB82 WEST 1234 5698 7654 33",
+      "the routing table has 9 entries",
+      "account balance is low",
+      "reference GB12 ABCD 1234",
+    ],
+  },
+  insurancePolicy: {
+    positive: [
+      { text: "policy INS-44556677 renews", expected: [["insurancePolicy", "INS-44556677"]] },
+      { text: "ins 12345678 on the claim", expected: [["insurancePolicy", "ins 12345678"]] },
+    ],
+    negative: ["INS-123 is too short", "instrument 12345678"],
+  },
+  employeeId: {
+    positive: [
+      { text: "badge EMP-2024-5567 issued", expected: [["employeeId", "EMP-2024-5567"]] },
+      { text: "emp 123 4567 transferred", expected: [["employeeId", "emp 123 4567"]] },
+    ],
+    negative: ["EMP-1 is invalid", "employee 2024-5567"],
+  },
+  medicalRecordNumber: {
+    positive: [
+      { text: "chart MRN- 998877 reviewed", expected: [["medicalRecordNumber", "MRN- 998877"]] },
+      { text: "mrn 1234567890", expected: [["medicalRecordNumber", "mrn 1234567890"]] },
+    ],
+    negative: ["MRN-12 incomplete", "the mrn field is empty"],
+  },
+  personName: {
+    positive: [
+      { text: "signed by Mr. Hugh Grantley", expected: [["personName", "Mr. Hugh Grantley"]] },
+      { text: "the patient, Sarah Johnson, arrived", expected: [["personName", "Sarah Johnson"]] },
+      { text: "approved by Dr Okafor", expected: [["personName", "Dr Okafor"]] },
+      { text: "Dear John Smith,", expected: [["personName", "John Smith"]] },
+    ],
+    negative: ["The Company agrees", "Best Regards", "see Section Four", "New York"],
+  },
+  address: {
+    positive: [
+      {
+        text: "ship to 1600 Pennsylvania Avenue NW, Washington, DC 20500",
+        expected: [
+          ["address", "1600 Pennsylvania Avenue NW, Washington, DC 20500"],
+          ["postalCode", "20500"],
+        ],
+      },
+      {
+        text: "lives at 221B Baker Street, London NW1 6XE",
+        expected: [
+          ["address", "221B Baker Street, London NW1 6XE"],
+          ["postalCode", "NW1 6XE"],
+        ],
+      },
+      { text: "office: Hauptstraße 12, 10115 Berlin", expected: [["address", "Hauptstraße 12, 10115 Berlin"]] },
+      { text: "siège: 12 rue de la Paix", expected: [["address", "12 rue de la Paix"]] },
+    ],
+    negative: ["we walked 3 miles", "chapter 12 covers the street", "12 apples"],
+  },
+  postalCode: {
+    positive: [
+      { text: "zip code 90210", expected: [["postalCode", "90210"]] },
+      { text: "postcode: SW1A 1AA", expected: [["postalCode", "SW1A 1AA"]] },
+      { text: "Springfield, IL 62704", expected: [["postalCode", "62704"]] },
+    ],
+    negative: ["there were 90210 visitors", "order 12345 shipped"],
+  },
+  dateOfBirth: {
+    positive: [
+      { text: "DOB: 04/12/1985", expected: [["dateOfBirth", "04/12/1985"]] },
+      { text: "she was born on March 3, 1990", expected: [["dateOfBirth", "March 3, 1990"]] },
+      { text: "date of birth is 1975-11-30", expected: [["dateOfBirth", "1975-11-30"]] },
+    ],
+    negative: ["signed on 04/12/1985", "the meeting is on March 3, 1990", "born in the 1980s"],
+  },
+  ukNino: {
+    positive: [
+      { text: "NI number: AB 12 34 56 C", expected: [["ukNino", "AB 12 34 56 C"]] },
+      { text: "national insurance JK123456D on file", expected: [["ukNino", "JK123456D"]] },
+    ],
+    negative: ["specimen QQ 12 34 56 C", "reserved GB 12 34 56 A", "code AB 12 34 56 E", "ref BO123456A"],
+  },
+  caSin: {
+    positive: [
+      { text: "SIN: 130 692 544", expected: [["caSin", "130 692 544"]] },
+      { text: "numéro d'assurance sociale 193-456-787", expected: [["caSin", "193-456-787"]] },
+    ],
+    negative: ["SIN: 130 692 545", "SIN 830 692 544", "SIN 130 692 54"],
+  },
+  inAadhaar: {
+    positive: [
+      { text: "Aadhaar: 2341 2341 2346", expected: [["inAadhaar", "2341 2341 2346"]] },
+      { text: "UID 4991 8563 7226 verified", expected: [["inAadhaar", "4991 8563 7226"]] },
+    ],
+    negative: ["Aadhaar: 2341 2341 2345", "Aadhaar 1341 2341 2346"],
+  },
+  inPan: {
+    positive: [
+      { text: "PAN: ABCPE1234F", expected: [["inPan", "ABCPE1234F"]] },
+      { text: "income tax id AAACB2894G for the company", expected: [["inPan", "AAACB2894G"]] },
+    ],
+    negative: ["PAN: ABCXE1234F", "PAN abcpe1234f", "model ABCPE12345"],
+  },
+  euNationalId: {
+    positive: [
+      { text: "DNI 12345678Z", expected: [["euNationalId", "12345678Z"]] },
+      { text: "NIE: X1234567L", expected: [["euNationalId", "X1234567L"]] },
+      { text: "codice fiscale RSSMRA85T10A562S", expected: [["euNationalId", "RSSMRA85T10A562S"]] },
+      { text: "n° sécu 1 85 05 78 006 084 91", expected: [["euNationalId", "1 85 05 78 006 084 91"]] },
+      { text: "rijksregisternummer 85.07.30-033.28", expected: [["euNationalId", "85.07.30-033.28"]] },
+      { text: "BSN: 111222333", expected: [["euNationalId", "111222333"]] },
+      { text: "PESEL 44051401359", expected: [["euNationalId", "44051401359"]] },
+    ],
+    negative: [
+      "DNI 12345678A",
+      "codice fiscale RSSMRA85T10A562T",
+      "n° sécu 1 85 05 78 006 084 92",
+      "85.07.30-033.29",
+      "BSN: 111222334",
+      "order 111222333",
+      "PESEL 44051401358",
+    ],
+  },
+  passport: {
+    positive: [
+      { text: "Passport No. 123456789, issued 2019", expected: [["passport", "123456789"]] },
+      { text: "passport number: GB1234567", expected: [["passport", "GB1234567"]] },
+      { text: "Reisepass Nr. C01X00T47", expected: [["passport", "C01X00T47"]] },
+    ],
+    negative: ["passport photos required", "passport office 12", "renew the passport before travel"],
+  },
+  vatId: {
+    positive: [
+      { text: "VAT reg. GB 980 7806 84", expected: [["vatId", "GB 980 7806 84"]] },
+      { text: "USt-IdNr. DE136695976", expected: [["vatId", "DE136695976"]] },
+      { text: "supplier GB980780684 invoiced", expected: [["vatId", "GB980780684"]] },
+      { text: "BTW-nummer NL123456789B01", expected: [["vatId", "NL123456789B01"]] },
+    ],
+    negative: ["see GB 123", "DE FACTO AGREEMENT", "route AT 12 closed", "BE 2024 review"],
+  },
+};
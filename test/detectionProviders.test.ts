@@ -0,0 +1,127 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterEach, describe, expect, it } from "vitest";
+import { createProviderServer, MOCK_PROVIDER_TYPES, type ProviderServerOptions } from "../src/cli/providerServer";
+import { CHUNK_SIZE } from "../src/office/detectionChunks";
+import {
+  detectWithProviders,
+  mergeMatches,
+  parseProviders,
+  type DetectionProvider,
+} from "../src/office/detectionProviders";
+import { BUILT_IN_PROFILES } from "../src/office/policyProfiles";
+import { runRedactionWorkflow } from "../src/office/runRedactionWorkflow";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+const internal = { ...BUILT_IN_PROFILES.find((p) => p.id === "internal")!, sensitivityLabels: false, header: null };
+const quiet = () => {};
+let server: Server | null = null;
+
+async function startProvider(options: ProviderServerOptions = {}, timeoutMs = 2000): Promise<DetectionProvider> {
+  server = createProviderServer(options);
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { id: "dlp", name: "Mock DLP", url: `http://127.0.0.1:${port}/detect`, timeoutMs, types: MOCK_PROVIDER_TYPES };
+}
+
+afterEach(async () => {
+  uninstallFakeOffice();
+  server?.closeAllConnections();
+  await new Promise((resolve) => (server ? server.close(resolve) : resolve(null)));
+  server = null;
+});
+
+describe("detection providers", () => {
+  it("maps provider spans to matches with offsets into the whole text", async () => {
+    const provider = await startProvider();
+    const text = `${"x ".repeat(CHUNK_SIZE / 2)}Met Sarah Grantley today.`;
+
+    const [outcome] = await detectWithProviders([provider], [{ id: "body", text }], ["personName"]);
+
+    expect(outcome.status).toBe("ok");
+    expect(outcome.matches).toEqual([
+      {
+        type: "personName",
+        value: "Sarah Grantley",
+        start: CHUNK_SIZE + 4,
+        end: CHUNK_SIZE + 18,
+        confidence: 0.9,
+        rule: "provider:dlp",
+        storyId: "body",
+      },
+    ]);
+  });
+
+  it("ignores types the profile doesn't run", async () => {
+    const provider = await startProvider();
+
+    const [outcome] = await detectWithProviders([provider], [{ id: "body", text: "Mail a@example.com" }], ["personName"]);
+
+    expect(outcome.matches).toEqual([]);
+  });
+
+  it("reports a provider that times out or fails", async () => {
+    const slow = await startProvider({ delayMs: 500 }, 50);
+    const [timedOut] = await detectWithProviders([slow], [{ id: "body", text: "Met Sarah Grantley" }], ["personName"]);
+    expect(timedOut.status).toBe("timeout");
+
+    const broken = { ...slow, timeoutMs: 2000, url: slow.url.replace("/detect", "/missing") };
+    const [failed] = await detectWithProviders([broken], [{ id: "body", text: "Met Sarah Grantley" }], ["personName"]);
+    expect(failed).toMatchObject({ status: "failed", detail: "HTTP 404" });
+  });
+
+  it("merges duplicates, keeping the most confident", () => {
+    const m = (type: string, start: number, confidence: number, rule: string) => ({
+      type,
+      value: "v",
+      start,
+      end: start + 5,
+      confidence,
+      rule,
+      storyId: "body",
+    });
+    const merged = mergeMatches(
+      [m("email", 10, 0.95, "email"), m("personName", 0, 0.5, "name")],
+      [m("email", 10, 0.9, "provider:dlp"), m("personName", 0, 0.9, "provider:dlp"), m("address", 20, 0.8, "provider:dlp")],
+    );
+    expect(merged.map((x) => [x.type, x.start, x.rule])).toEqual([
+      ["personName", 0, "provider:dlp"],
+      ["email", 10, "email"],
+      ["address", 20, "provider:dlp"],
+    ]);
+  });
+
+  it("validates the providers file", () => {
+    expect(parseProviders({ providers: [{ id: "dlp", url: "https://dlp.example/detect" }] })).toEqual([
+      { id: "dlp", name: "dlp", url: "https://dlp.example/detect" },
+    ]);
+    expect(() => parseProviders({ providers: [{ id: "dlp", url: "ftp://x" }] })).toThrow(/url/);
+    expect(() => parseProviders({ providers: [{ id: "dlp", url: "https://x", timeoutMs: -1 }] })).toThrow(/timeoutMs/);
+  });
+});
+
+describe("runRedactionWorkflow with providers", () => {
+  it("redacts what the provider finds alongside the local detectors", async () => {
+    const provider = await startProvider();
+    const doc = installFakeOffice({ body: ["Met Sarah Grantley, mail jane.doe@example.com."] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal, providers: [provider] });
+
+    // The local name heuristic alone holds this name for review; the provider is confident.
+    expect(doc.body.lines).toEqual(["Met [REDACTED NAME], mail [REDACTED EMAIL]."]);
+    expect(result.counts).toMatchObject({ personName: 1, email: 1 });
+    expect(result.heldForReview).toBe(0);
+  });
+
+  it("falls back to local detection when the provider times out", async () => {
+    const provider = await startProvider({ delayMs: 500 }, 50);
+    const doc = installFakeOffice({ body: ["Met Sarah Grantley, mail jane.doe@example.com."] });
+    const lines: string[] = [];
+
+    const result = await runRedactionWorkflow((line) => lines.push(line), { profile: internal, providers: [provider] });
+
+    expect(doc.body.lines).toEqual(["Met Sarah Grantley, mail [REDACTED EMAIL]."]);
+    expect(result.heldForReview).toBe(1);
+    expect(lines.some((l) => l.includes("Mock DLP: timed out"))).toBe(true);
+  });
+});
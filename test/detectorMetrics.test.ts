@@ -0,0 +1,67 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { getDetectors } from "../src/office/detectorRegistry";
+import { AUTO_REDACT_MIN_CONFIDENCE } from "../src/office/runRedactionWorkflow";
+import { findSensitiveMatches, type SensitiveType } from "../src/office/sensitivePatterns";
+import { CORPUS, type CorpusCase } from "./corpus";
+
+type Score = { tp: number; fp: number; fn: number };
+
+// Minimum precision and recall per detector on the corpus. Raise them as the detectors improve;
+// a drop below them is a regression. Bare digit identifiers no other detector claims with the same
+// span still read as phone numbers ("mrn 1234567890", "PESEL 44051401358"), hence its lower precision.
+const FLOORS: Record<string, { precision: number; recall: number }> = {
+  phone: { precision: 0.8, recall: 1 },
+};
+const DEFAULT_FLOOR = { precision: 1, recall: 1 };
+
+// Every corpus text, positives with their labels and negatives with none.
+const cases: CorpusCase[] = Object.values(CORPUS).flatMap(({ positive, negative }) => [
+  ...positive,
+  ...negative.map((text) => ({ text, expected: [] })),
+]);
+
+// A hit counts when it would be auto-redacted; lower-confidence hits go to review instead.
+function score(): Map<SensitiveType, Score> {
+  const scores = new Map<SensitiveType, Score>();
+  const get = (type: SensitiveType) => scores.get(type) ?? scores.set(type, { tp: 0, fp: 0, fn: 0 }).get(type)!;
+  for (const id of Object.keys(CORPUS)) get(id);
+
+  for (const { text, expected } of cases) {
+    const found = findSensitiveMatches(text, getDetectors()).filter((m) => m.confidence >= AUTO_REDACT_MIN_CONFIDENCE);
+    const unmatched = [...expected];
+    for (const m of found) {
+      const i = unmatched.findIndex(([type, value]) => type === m.type && value === m.value);
+      if (i >= 0) {
+        get(m.type).tp += 1;
+        unmatched.splice(i, 1);
+      } else {
+        get(m.type).fp += 1;
+      }
+    }
+    for (const [type] of unmatched) get(type).fn += 1;
+  }
+  return scores;
+}
+
+const ratio = (n: number, d: number) => (d === 0 ? 1 : n / d);
+const scores = score();
+
+describe("per-detector precision and recall", () => {
+  afterAll(() => {
+    console.table(
+      Object.fromEntries(
+        [...scores].map(([type, s]) => [
+          type,
+          { ...s, precision: ratio(s.tp, s.tp + s.fp).toFixed(2), recall: ratio(s.tp, s.tp + s.fn).toFixed(2) },
+        ]),
+      ),
+    );
+  });
+
+  it.each([...scores.keys()])("%s stays above its floor", (type) => {
+    const s = scores.get(type)!;
+    const floor = FLOORS[type] ?? DEFAULT_FLOOR;
+    expect(ratio(s.tp, s.tp + s.fp)).toBeGreaterThanOrEqual(floor.precision);
+    expect(ratio(s.tp, s.tp + s.fn)).toBeGreaterThanOrEqual(floor.recall);
+  });
+});
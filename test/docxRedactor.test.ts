@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { redactDocx, redactPartXml } from "../src/cli/docxRedactor";
+import { readZip, writeZip } from "../src/cli/zip";
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const HYPERLINK = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink";
+
+function docx(body: string, rels: string): Buffer {
+  const entry = (name: string, xml: string) => ({ name, data: Buffer.from(xml, "utf8"), time: 0, date: 0 });
+  return writeZip([
+    entry("word/document.xml", `<w:document ${W}><w:body>${body}</w:body></w:document>`),
+    entry("word/_rels/document.xml.rels", `<Relationships>${rels}</Relationships>`),
+  ]);
+}
+
+function part(output: Buffer, name: string): string {
+  return readZip(output).find((e) => e.name === name)!.data.toString("utf8");
+}
+
+describe("redactDocx", () => {
+  it("accepts tracked changes so deleted text does not survive", () => {
+    const input = docx(
+      "<w:p><w:r><w:t xml:space=\"preserve\">SSN </w:t></w:r>" +
+        '<w:del w:id="1" w:author="A"><w:r><w:delText>123-45-6789</w:delText></w:r></w:del>' +
+        '<w:ins w:id="2" w:author="A"><w:r><w:t>on file</w:t></w:r></w:ins></w:p>',
+      "",
+    );
+
+    const { output, report } = redactDocx(input);
+    const xml = part(output!, "word/document.xml");
+
+    expect(xml).not.toContain("123-45-6789");
+    expect(xml).not.toMatch(/<w:(?:del|ins)\b/);
+    expect(xml).toContain("<w:t>on file</w:t>");
+    expect(report.revisionsAccepted).toBe(2);
+  });
+
+  it("redacts hyperlink field codes and targets", () => {
+    const input = docx(
+      '<w:p><w:r><w:instrText xml:space="preserve"> HYPERLINK "mailto:jane.doe@example.com" </w:instrText></w:r>' +
+        '<w:hyperlink r:id="rId5"><w:r><w:t>jane.doe@example.com</w:t></w:r></w:hyperlink></w:p>',
+      `<Relationship Id="rId5" Type="${HYPERLINK}" Target="mailto:jane.doe%40example.com" TargetMode="External"/>` +
+        `<Relationship Id="rId6" Type="${HYPERLINK}" Target="https://example.com/" TargetMode="External"/>`,
+    );
+
+    const { output, report } = redactDocx(input);
+    const xml = part(output!, "word/document.xml");
+    const rels = part(output!, "word/_rels/document.xml.rels");
+
+    expect(xml).toContain('HYPERLINK "mailto:[REDACTED EMAIL]"');
+    expect(xml).toContain("<w:t xml:space=\"preserve\">[REDACTED EMAIL]</w:t>");
+    expect(rels).toContain('Target="mailto:%5BREDACTED%20EMAIL%5D"');
+    expect(rels).toContain('Target="https://example.com/"');
+    expect(report.counts).toEqual({ email: 3 });
+  });
+
+  it("rejects packages without a document part", () => {
+    expect(() => redactDocx(writeZip([]))).toThrow(/Not a Word document/);
+  });
+});
+
+describe("redactPartXml", () => {
+  it("replaces a value split across runs in the first run", () => {
+    const { xml, part } = redactPartXml(
+      `<w:document ${W}><w:body><w:p><w:r><w:t>Call 212-555-</w:t></w:r><w:r><w:t>1212 today</w:t></w:r></w:p></w:body></w:document>`,
+    );
+
+    expect(xml).toContain('<w:t xml:space="preserve">Call [REDACTED PHONE]</w:t>');
+    expect(xml).toContain('<w:t xml:space="preserve"> today</w:t>');
+    expect(part.redacted).toBe(1);
+  });
+});
@@ -0,0 +1,481 @@
+// In-memory stand-in for the parts of the Word and Office JavaScript APIs the add-in uses, so the
+// workflow can run in Node. Edits apply immediately rather than at sync, which is equivalent for
+// code that (like ours) never reads a value it has not loaded and synced. Errors injected with
+// `failSearch` surface at the next sync, as real Office.js errors do.
+
+export type FakeDocumentInit = {
+  body: string[];
+  // Header/footer paragraphs by "<section>.<type>", e.g. "1.primary".
+  headers?: Record<string, string[]>;
+  footers?: Record<string, string[]>;
+  sections?: number;
+  comments?: string[];
+  footnotes?: string[][];
+  // Supported requirement sets, e.g. ["WordApi 1.5"]. A set also satisfies lower versions.
+  sets?: string[];
+  // Inline pictures in the body, as the base64 data Word returns for them.
+  pictures?: string[];
+  // Section.getHeader throws, as on hosts that reject header access (GeneralException).
+  headerAccessThrows?: boolean;
+  url?: string;
+};
+
+export class FakePicture {
+  width = 200;
+  height = 100;
+  altTextTitle = "";
+  altTextDescription = "";
+
+  constructor(
+    private owner: FakeBody,
+    public data: string,
+  ) {}
+
+  getBase64ImageSrc() {
+    return { value: this.data };
+  }
+
+  insertInlinePictureFromBase64(data: string, location: string): FakePicture {
+    if (location !== "Replace") throw new Error(`FakePicture.insertInlinePictureFromBase64: unsupported location ${location}`);
+    const picture = new FakePicture(this.owner, data);
+    const items = this.owner.inlinePictures.items;
+    items[items.indexOf(this)] = picture;
+    return picture;
+  }
+
+  delete() {
+    this.owner.inlinePictures.items = this.owner.inlinePictures.items.filter((p) => p !== this);
+  }
+}
+
+class FakeCollection<T> {
+  constructor(public items: T[]) {}
+  load() {
+    return this;
+  }
+}
+
+// A search hit or replaced span inside one paragraph. Positions follow later edits in the
+// paragraph, like Word's live ranges.
+class FakeRange {
+  font: Record<string, unknown> = {};
+  constructor(
+    private paragraph: FakeParagraph,
+    public start: number,
+    public end: number,
+  ) {
+    paragraph.ranges.push(this);
+  }
+
+  get text(): string {
+    return this.paragraph.text.slice(this.start, this.end);
+  }
+
+  load() {
+    return this;
+  }
+
+  insertText(text: string, location: string): FakeRange {
+    if (location !== "Replace") throw new Error(`FakeRange.insertText: unsupported location ${location}`);
+    this.paragraph.splice(this.start, this.end, text);
+    this.end = this.start + text.length;
+    return this;
+  }
+
+  expandTo(other: FakeRange): FakeRange {
+    if (other.paragraph !== this.paragraph) throw new Error("FakeRange.expandTo: ranges in different paragraphs are not modelled");
+    return new FakeRange(this.paragraph, Math.min(this.start, other.start), Math.max(this.end, other.end));
+  }
+
+  delete() {
+    this.insertText("", "Replace");
+  }
+}
+
+// A content control wrapping a whole paragraph, which is how the sensitivity label uses them.
+export class FakeContentControl {
+  font: Record<string, unknown> = {};
+  tag = "";
+  title = "";
+  // Last OOXML inserted with insertOoxml; the paragraph text is left as it was.
+  ooxml: string | null = null;
+
+  constructor(public paragraph: FakeParagraph) {}
+
+  get text(): string {
+    return this.paragraph.text;
+  }
+
+  insertText(text: string, location: string): FakeContentControl {
+    if (location !== "Replace") throw new Error(`FakeContentControl.insertText: unsupported location ${location}`);
+    this.paragraph.splice(0, this.paragraph.text.length, text);
+    return this;
+  }
+
+  insertOoxml(ooxml: string, location: string): FakeContentControl {
+    if (location !== "Replace") throw new Error(`FakeContentControl.insertOoxml: unsupported location ${location}`);
+    this.ooxml = ooxml;
+    return this;
+  }
+}
+
+export class FakeParagraph {
+  font: Record<string, unknown> = {};
+  alignment: string | undefined;
+  ranges: FakeRange[] = [];
+  contentControl: FakeContentControl | null = null;
+  // Text removed while Track Changes was on and where: pending deletions, kept in the OOXML as
+  // <w:delText> until accepted. Positions are not moved by later edits.
+  deleted: Array<{ at: number; text: string }> = [];
+
+  constructor(
+    private owner: FakeBody,
+    public text: string,
+  ) {}
+
+  load() {
+    return this;
+  }
+
+  // Like Word: at most 255 characters, and "^" starts a special character ("^^" is a literal one).
+  // Either problem surfaces at the next sync.
+  search(text: string, options: { matchCase?: boolean }) {
+    this.owner.doc.onSearch(text);
+    if (text.length > 255) this.owner.doc.failNextSync(new Error("InvalidArgument: search text longer than 255"));
+    if (text.replace(/\^\^/g, "").includes("^")) this.owner.doc.failNextSync(new Error(`InvalidArgument: special character in ${text}`));
+    const value = text.replace(/\^\^/g, "^");
+    const haystack = options.matchCase ? this.text : this.text.toLowerCase();
+    const needle = options.matchCase ? value : value.toLowerCase();
+    const hits: FakeRange[] = [];
+    for (let at = haystack.indexOf(needle); at >= 0 && needle; at = haystack.indexOf(needle, at + needle.length)) {
+      hits.push(new FakeRange(this, at, at + value.length));
+    }
+    return new FakeCollection(hits);
+  }
+
+  insertContentControl(): FakeContentControl {
+    this.contentControl = new FakeContentControl(this);
+    return this.contentControl;
+  }
+
+  splice(start: number, end: number, text: string) {
+    if (end > start && this.owner.doc.changeTrackingMode !== "Off") this.deleted.push({ at: start, text: this.text.slice(start, end) });
+    const delta = text.length - (end - start);
+    this.text = this.text.slice(0, start) + text + this.text.slice(end);
+    for (const r of this.ranges) {
+      if (r.start >= end) {
+        r.start += delta;
+        r.end += delta;
+      }
+    }
+  }
+}
+
+// The whole content of a body, as returned by Body.getRange(): supports inserting paragraphs at
+// the start, which is what the header step does.
+class FakeBodyRange {
+  font: Record<string, unknown> = {};
+  paragraphFormat: Record<string, unknown> = {};
+  constructor(private body: FakeBody) {}
+
+  get text(): string {
+    return this.body.text;
+  }
+
+  load() {
+    return this;
+  }
+
+  insertText(text: string, location: string): FakeBodyRange {
+    if (location !== "Start") throw new Error(`FakeBodyRange.insertText: unsupported location ${location}`);
+    const lines = text.split("\r");
+    const first = this.body.paragraphs.items[0];
+    const added = lines.slice(0, -1).map((line) => new FakeParagraph(this.body, line));
+    if (first) first.splice(0, 0, lines[lines.length - 1]);
+    else added.push(new FakeParagraph(this.body, lines[lines.length - 1]));
+    this.body.paragraphs.items.unshift(...added);
+    this.body.inserted.push(this);
+    return this;
+  }
+}
+
+export class FakeBody {
+  paragraphs: FakeCollection<FakeParagraph>;
+  inlinePictures = new FakeCollection<FakePicture>([]);
+  // Ranges returned by insertText, to check the formatting applied to them.
+  inserted: FakeBodyRange[] = [];
+
+  constructor(
+    public doc: FakeDocument,
+    lines: string[],
+  ) {
+    this.paragraphs = new FakeCollection(lines.map((line) => new FakeParagraph(this, line)));
+  }
+
+  get text(): string {
+    return this.paragraphs.items.map((p) => p.text).join("\n");
+  }
+
+  get lines(): string[] {
+    return this.paragraphs.items.map((p) => p.text);
+  }
+
+  get contentControls() {
+    const controls = this.paragraphs.items.flatMap((p) => (p.contentControl ? [p.contentControl] : []));
+    return Object.assign(new FakeCollection(controls), {
+      getByTag: (tag: string) => new FakeCollection(controls.filter((c) => c.tag === tag)),
+    });
+  }
+
+  load() {
+    return this;
+  }
+
+  getRange() {
+    return new FakeBodyRange(this);
+  }
+
+  // Runs of paragraph text with the pending deletions between them.
+  getOoxml() {
+    const run = (text: string) => (text ? `<w:r><w:t>${escapeXml(text)}</w:t></w:r>` : "");
+    const xml = this.paragraphs.items.map((p) => {
+      let at = 0;
+      let runs = "";
+      for (const d of [...p.deleted].sort((a, b) => a.at - b.at)) {
+        runs += run(p.text.slice(at, d.at)) + `<w:del><w:r><w:delText>${escapeXml(d.text)}</w:delText></w:r></w:del>`;
+        at = Math.max(at, d.at);
+      }
+      return `<w:p>${runs}${run(p.text.slice(at))}</w:p>`;
+    });
+    return { value: `<w:document><w:body>${xml.join("")}</w:body></w:document>` };
+  }
+
+  getTrackedChanges() {
+    const paragraphs = this.paragraphs.items;
+    return Object.assign(new FakeCollection(paragraphs.flatMap((p) => p.deleted.map((d) => ({ type: "Deleted", text: d.text })))), {
+      acceptAll: () => paragraphs.forEach((p) => (p.deleted = [])),
+    });
+  }
+
+  insertParagraph(text: string, location: string): FakeParagraph {
+    const p = new FakeParagraph(this, text);
+    if (location === "Start") this.paragraphs.items.unshift(p);
+    else if (location === "End") this.paragraphs.items.push(p);
+    else throw new Error(`FakeBody.insertParagraph: unsupported location ${location}`);
+    return p;
+  }
+}
+
+class FakeSection {
+  constructor(
+    private doc: FakeDocument,
+    private index: number,
+  ) {}
+
+  getHeader(type: string): FakeBody {
+    if (this.doc.init.headerAccessThrows) throw new Error("GeneralException");
+    return this.doc.storyBody("header", `${this.index}.${lowerFirst(type)}`);
+  }
+
+  getFooter(type: string): FakeBody {
+    return this.doc.storyBody("footer", `${this.index}.${lowerFirst(type)}`);
+  }
+}
+
+class FakeCustomXmlPart {
+  constructor(
+    private doc: FakeDocument,
+    public xml: string,
+  ) {}
+  get namespaceUri() {
+    return /xmlns="([^"]*)"/.exec(this.xml)?.[1] ?? "";
+  }
+  getXml() {
+    return { value: this.xml };
+  }
+  setXml(xml: string) {
+    this.xml = xml;
+  }
+  delete() {
+    this.doc.customXml = this.doc.customXml.filter((p) => p !== this);
+  }
+}
+
+class FakeCustomProperties {
+  values = new Map<string, unknown>();
+  get items() {
+    return [...this.values].map(([key, value]) => ({ key, value, type: typeof value === "number" ? "Number" : "String" }));
+  }
+  load() {
+    return this;
+  }
+  add(key: string, value: unknown) {
+    this.values.set(key, value);
+  }
+  getItemOrNullObject(key: string) {
+    const value = this.values.get(key);
+    return { isNullObject: value === undefined, value, load() {} };
+  }
+}
+
+class FakeSettings {
+  values = new Map<string, unknown>();
+  get(key: string) {
+    return this.values.get(key) ?? null;
+  }
+  set(key: string, value: unknown) {
+    this.values.set(key, value);
+  }
+  remove(key: string) {
+    this.values.delete(key);
+  }
+  saveAsync(callback: (result: { status: string }) => void) {
+    callback({ status: "succeeded" });
+  }
+}
+
+export class FakeDocument {
+  changeTrackingMode = "Off";
+  body: FakeBody;
+  sections: FakeCollection<FakeSection>;
+  comments: Array<{ content: string; load: () => void }>;
+  footnotes: FakeCollection<{ body: FakeBody }>;
+  customXml: FakeCustomXmlPart[] = [];
+  customProperties = new FakeCustomProperties();
+  settings = new FakeSettings();
+  roamingSettings = new FakeSettings();
+  syncs = 0;
+
+  private stories = new Map<string, FakeBody>();
+  private failing: Array<(value: string) => boolean> = [];
+  private pendingError: Error | null = null;
+
+  constructor(public init: FakeDocumentInit) {
+    this.body = new FakeBody(this, init.body);
+    this.body.inlinePictures.items = (init.pictures ?? []).map((data) => new FakePicture(this.body, data));
+    const count = init.sections ?? 1;
+    this.sections = new FakeCollection(Array.from({ length: count }, (_, i) => new FakeSection(this, i + 1)));
+    for (const [key, lines] of Object.entries(init.headers ?? {})) this.stories.set(`header.${key}`, new FakeBody(this, lines));
+    for (const [key, lines] of Object.entries(init.footers ?? {})) this.stories.set(`footer.${key}`, new FakeBody(this, lines));
+    this.comments = (init.comments ?? []).map((content) => ({ content, load() {} }));
+    this.footnotes = new FakeCollection((init.footnotes ?? []).map((lines) => ({ body: new FakeBody(this, lines) })));
+  }
+
+  /** Header or footer body, e.g. storyBody("header", "1.primary"); created empty on first use. */
+  storyBody(kind: "header" | "footer", key: string): FakeBody {
+    const id = `${kind}.${key}`;
+    if (!this.stories.has(id)) this.stories.set(id, new FakeBody(this, []));
+    return this.stories.get(id)!;
+  }
+
+  /** Make the next sync after a search matching `predicate` fail, like a rejected batch. */
+  failSearch(predicate: (value: string) => boolean) {
+    this.failing.push(predicate);
+  }
+
+  onSearch(value: string) {
+    if (this.failing.some((f) => f(value))) this.pendingError = new Error(`Search rejected: ${value}`);
+  }
+
+  failNextSync(error: Error) {
+    if (!this.pendingError) this.pendingError = error;
+  }
+
+  async sync() {
+    this.syncs += 1;
+    const error = this.pendingError;
+    this.pendingError = null;
+    if (error) throw error;
+  }
+
+  // The shape context.document exposes.
+  api() {
+    const doc = this;
+    const body = Object.assign(this.body, {
+      getComments: () => new FakeCollection(doc.comments),
+      footnotes: doc.footnotes,
+      endnotes: new FakeCollection([]),
+    });
+    return {
+      get changeTrackingMode() {
+        return doc.changeTrackingMode;
+      },
+      set changeTrackingMode(mode: string) {
+        doc.changeTrackingMode = mode;
+      },
+      body,
+      sections: this.sections,
+      properties: { customProperties: this.customProperties },
+      customXmlParts: {
+        get items() {
+          return doc.customXml;
+        },
+        load() {
+          return this;
+        },
+        add: (xml: string) => {
+          const part = new FakeCustomXmlPart(doc, xml);
+          doc.customXml.push(part);
+          return part;
+        },
+        getByNamespace: (ns: string) => new FakeCollection(doc.customXml.filter((p) => p.xml.includes(`xmlns="${ns}"`))),
+      },
+      getSelection: () => {
+        throw new Error("FakeDocument: selections are not modelled");
+      },
+    };
+  }
+}
+
+/**
+ * Install fake `Word` and `Office` globals backed by a new document and return it. Call
+ * `uninstallFakeOffice` (e.g. in afterEach) to remove them.
+ */
+export function installFakeOffice(init: FakeDocumentInit): FakeDocument {
+  const doc = new FakeDocument(init);
+  const sets = init.sets ?? ["WordApi 1.5"];
+  const g = globalThis as any;
+
+  g.Word = {
+    run: async <T>(callback: (context: any) => Promise<T>) => {
+      const context = { document: doc.api(), sync: () => doc.sync() };
+      return await callback(context);
+    },
+    ChangeTrackingMode: { off: "Off", trackAll: "TrackAll", trackMineOnly: "TrackMineOnly" },
+    HeaderFooterType: { primary: "Primary", firstPage: "FirstPage", evenPages: "EvenPages" },
+    InsertLocation: { replace: "Replace", start: "Start", end: "End", before: "Before", after: "After" },
+    Alignment: { centered: "Centered", left: "Left" },
+    SelectionMode: { select: "Select" },
+  };
+  g.Office = {
+    AsyncResultStatus: { Succeeded: "succeeded", Failed: "failed" },
+    HostType: { Word: "Word" },
+    context: {
+      host: "Word",
+      requirements: {
+        isSetSupported: (name: string, version: string) =>
+          sets.some((s) => {
+            const [n, v] = s.split(" ");
+            return n === name && Number(v) >= Number(version);
+          }),
+      },
+      document: { settings: doc.settings, url: init.url ?? "https://example.invalid/docs/Contract.docx" },
+      roamingSettings: doc.roamingSettings,
+    },
+  };
+  return doc;
+}
+
+export function uninstallFakeOffice() {
+  const g = globalThis as any;
+  delete g.Word;
+  delete g.Office;
+}
+
+function lowerFirst(s: string): string {
+  return s.charAt(0).toLowerCase() + s.slice(1);
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
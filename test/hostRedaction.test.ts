@@ -0,0 +1,346 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { writeZip } from "../src/cli/zip";
+import { cellAddress, excelHost, safeSheetName } from "../src/office/excelHost";
+import { applyEdits, checkHost, runHostRedaction, type HostAdapter, type HostSegment } from "../src/office/hostRedaction";
+import { hostKind } from "../src/office/hosts";
+import { htmlBody } from "../src/office/outlookHost";
+import { checkMessageOnSend } from "../src/office/outlookOnSend";
+import { BUILT_IN_PROFILES } from "../src/office/policyProfiles";
+import { powerPointHost } from "../src/office/powerPointHost";
+import { notesFromPackage } from "../src/office/pptxNotes";
+import { AUTO_REDACT_MIN_CONFIDENCE } from "../src/office/runRedactionWorkflow";
+
+const internal = BUILT_IN_PROFILES.find((p) => p.id === "internal")!;
+const quiet = () => {};
+const g = globalThis as any;
+
+afterEach(() => {
+  delete g.Excel;
+  delete g.PowerPoint;
+  delete g.Office;
+});
+
+// Office globals for a host whose requirement sets are `sets` ("PowerPointApi 1.8").
+function installHost(name: "Excel" | "PowerPoint", context: unknown, sets: string[]) {
+  g[name] = { run: (task: (context: unknown) => Promise<unknown>) => task(context) };
+  g.Office = {
+    context: {
+      requirements: {
+        isSetSupported: (set: string, version: string) =>
+          sets.some((s) => s.split(" ")[0] === set && Number(s.split(" ")[1]) >= Number(version)),
+      },
+    },
+  };
+}
+
+const loadable = <T extends object>(o: T) => Object.assign(o, { load: () => o });
+
+// An in-memory host: each text is a writable segment unless listed as read-only.
+function memoryHost(texts: Record<string, string>, readOnly: string[] = []) {
+  const banners: string[] = [];
+  const adapter: HostAdapter = {
+    kind: "excel",
+    name: "Memory",
+    banner: "a test banner",
+    available: () => true,
+    run: (task) => task({}),
+    loadSegments: async () =>
+      Object.entries(texts).map(
+        ([id, text]): HostSegment =>
+          readOnly.includes(id)
+            ? { id, label: id, text, readOnly: "test" }
+            : { id, label: id, text, replace: (edits) => void (texts[id] = applyEdits(texts[id], edits)) },
+      ),
+    commit: async () => {},
+    addBanner: async (_context, header) => {
+      if (banners.includes(header.text)) return false;
+      banners.push(header.text);
+      return true;
+    },
+  };
+  return { adapter, texts, banners };
+}
+
+describe("runHostRedaction", () => {
+  it("replaces confident hits, leaves weak ones and adds the banner once", async () => {
+    const host = memoryHost({ A1: "jane.doe@example.com", B1: "SSN 123-45-6789, card 4111 1111 1111 1111", C1: "Met Sarah Grantley" });
+
+    const result = await runHostRedaction(host.adapter, quiet, { profile: internal }, AUTO_REDACT_MIN_CONFIDENCE);
+    const again = await runHostRedaction(host.adapter, quiet, { profile: internal }, AUTO_REDACT_MIN_CONFIDENCE);
+
+    expect(host.texts).toEqual({
+      A1: "[REDACTED EMAIL]",
+      B1: "SSN [REDACTED SSN], card [REDACTED CARD]",
+      C1: "Met Sarah Grantley",
+    });
+    expect(result).toMatchObject({ redactionsTotal: 3, heldForReview: 1, bannerAdded: true, flagged: [] });
+    expect(again).toMatchObject({ redactionsTotal: 0, bannerAdded: false });
+    expect(host.banners).toEqual(["CONFIDENTIAL DOCUMENT"]);
+  });
+
+  it("applies replacement styles and reports hits in read-only text", async () => {
+    const host = memoryHost({ A1: "Call 212-555-1212", notes1: "SSN 123-45-6789" }, ["notes1"]);
+
+    const result = await runHostRedaction(
+      host.adapter,
+      quiet,
+      { profile: { ...internal, header: null }, styles: { phone: { kind: "keepLast", count: 4 } } },
+      AUTO_REDACT_MIN_CONFIDENCE,
+    );
+
+    expect(host.texts.A1).toBe("Call •••-•••-1212");
+    expect(host.texts.notes1).toBe("SSN 123-45-6789");
+    expect(result.flagged).toEqual([{ type: "ssn", label: "notes1", reason: "test" }]);
+    expect(host.banners).toEqual([]);
+  });
+
+  it("checks without changing anything", async () => {
+    const host = memoryHost({ subject: "Payroll", body: "Her SSN is 123-45-6789." });
+
+    const { report, stampStatus } = await checkHost(host.adapter, quiet, { profile: internal }, AUTO_REDACT_MIN_CONFIDENCE);
+
+    expect(report.passed).toBe(false);
+    expect(report.findings.map((f) => [f.storyId, f.type])).toEqual([["body", "ssn"]]);
+    expect(host.texts.body).toBe("Her SSN is 123-45-6789.");
+    expect(stampStatus).toBe("none");
+  });
+});
+
+describe("host helpers", () => {
+  it("recognizes Office host types", () => {
+    expect(["Word", "Excel", "PowerPoint", "Outlook", "OneNote"].map(hostKind)).toEqual([
+      "word",
+      "excel",
+      "powerpoint",
+      "outlook",
+      null,
+    ]);
+  });
+
+  it("writes A1 addresses", () => {
+    expect([cellAddress(0, 0), cellAddress(9, 25), cellAddress(1, 26), cellAddress(0, 701)]).toEqual(["A1", "Z10", "AA2", "ZZ1"]);
+  });
+
+  it("keeps redacted sheet names valid and unique", () => {
+    const taken = new Set(["REDACTED NAME", "Summary"]);
+    expect(safeSheetName("[REDACTED NAME]", taken)).toBe("REDACTED NAME (2)");
+    expect(safeSheetName("[REDACTED EMAIL] of the customer account team", new Set())).toHaveLength(31);
+  });
+});
+
+describe("speaker notes", () => {
+  const part = (name: string, xml: string) => ({ name, data: Buffer.from(xml), time: 0, date: 0 });
+  const rels = (targets: Record<string, string>) =>
+    `<Relationships>${Object.entries(targets)
+      .map(([id, target]) => `<Relationship Id="${id}" Target="${target}"/>`)
+      .join("")}</Relationships>`;
+  const notes = (...paragraphs: string[]) =>
+    `<p:notes><p:cSld><p:spTree><p:sp><p:nvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr></p:sp>` +
+    `<p:sp><p:nvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:txBody>` +
+    paragraphs.map((p) => `<a:p><a:r><a:t>${p}</a:t></a:r></a:p>`).join("") +
+    `</p:txBody></p:sp></p:spTree></p:cSld></p:notes>`;
+
+  it("reads the notes body of each slide in presentation order", async () => {
+    const pptx = writeZip([
+      part("ppt/presentation.xml", `<p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst>`),
+      part("ppt/_rels/presentation.xml.rels", rels({ rId2: "slides/slide1.xml", rId3: "slides/slide2.xml" })),
+      part("ppt/slides/_rels/slide1.xml.rels", rels({ rId1: "../notesSlides/notesSlide1.xml" })),
+      part("ppt/slides/_rels/slide2.xml.rels", rels({ rId1: "../slideLayouts/slideLayout1.xml" })),
+      part("ppt/notesSlides/notesSlide1.xml", notes("Call Jane on 212-555-1212", "Tom &amp; Jerry")),
+    ]);
+
+    expect(await notesFromPackage(new Uint8Array(pptx))).toEqual([{ slide: 2, text: "Call Jane on 212-555-1212\nTom & Jerry" }]);
+  });
+});
+
+describe("excelHost", () => {
+  // One worksheet whose used range starts at A1; `text` is what Excel displays.
+  function workbook(values: unknown[][], text: string[][], formulas: unknown[][] = values) {
+    const written: Record<string, unknown> = {};
+    const range = loadable({
+      isNullObject: false,
+      values,
+      text,
+      formulas,
+      rowIndex: 0,
+      columnIndex: 0,
+      getCell: (r: number, c: number) => ({
+        set values(v: unknown[][]) {
+          written[cellAddress(r, c)] = v[0][0];
+        },
+      }),
+    });
+    const sheet = { name: "Staff", getUsedRangeOrNullObject: () => range };
+    const context = { workbook: { worksheets: loadable({ items: [sheet] }) }, sync: async () => {} };
+    return { context, written };
+  }
+
+  it("scans number cells as displayed and writes redacted ones back as text", async () => {
+    const { context, written } = workbook(
+      [["Name", "SSN", "Phone", "Amount"], ["Jane", 123456789, "212-555-1212", 1200]],
+      [["Name", "SSN", "Phone", "Amount"], ["Jane", "123-45-6789", "212-555-1212", "1,200"]],
+    );
+    installHost("Excel", context, ["ExcelApi 1.4"]);
+
+    const result = await runHostRedaction(excelHost, quiet, { profile: { ...internal, header: null } }, AUTO_REDACT_MIN_CONFIDENCE);
+
+    expect(written).toEqual({ B2: "[REDACTED SSN]", C2: "[REDACTED PHONE]" });
+    expect(result.counts).toEqual({ ssn: 1, phone: 1 });
+  });
+
+  it("reports formula results instead of changing them", async () => {
+    const { context, written } = workbook([["212-555-1212"]], [["212-555-1212"]], [['=CONCAT("212-555-", "1212")']]);
+    installHost("Excel", context, ["ExcelApi 1.4"]);
+
+    const result = await runHostRedaction(excelHost, quiet, { profile: { ...internal, header: null } }, AUTO_REDACT_MIN_CONFIDENCE);
+
+    expect(written).toEqual({});
+    expect(result.flagged).toEqual([{ type: "phone", label: "Staff!A1", reason: expect.stringContaining("formula") }]);
+  });
+});
+
+describe("powerPointHost", () => {
+  // A text shape whose text frame records span replacements like PowerPoint's.
+  function textShape(id: string, name: string, text: string) {
+    const range = loadable({
+      text,
+      getSubstring: (start: number, length: number) => ({
+        set text(value: string) {
+          range.text = range.text.slice(0, start) + value + range.text.slice(start + length);
+        },
+      }),
+    });
+    return { id, name, type: "TextBox", textFrame: { textRange: range } };
+  }
+
+  function table(id: string, cells: string[][]) {
+    const items = cells.map((row) => row.map((text) => loadable({ isNullObject: false, text })));
+    const shape = {
+      id,
+      name: "Table 1",
+      type: "Table",
+      getTable: () => loadable({ rowCount: cells.length, columnCount: cells[0].length, getCellOrNullObject: (r: number, c: number) => items[r][c] }),
+    };
+    return { shape, text: () => items.map((row) => row.map((cell) => cell.text)) };
+  }
+
+  function presentation(shapes: any[]) {
+    const slide = { shapes: loadable({ items: shapes }) };
+    return { presentation: { slides: loadable({ items: [slide] }) }, sync: async () => {} };
+  }
+
+  it("walks groups and table cells", async () => {
+    const grouped = textShape("3", "Caption", "Mail jane.doe@example.com");
+    const group = { id: "2", name: "Group 1", type: "Group", group: { shapes: loadable({ items: [grouped] }) } };
+    const cells = table("4", [["Name", "Phone"], ["Jane", "212-555-1212"]]);
+    const title = textShape("1", "Title", "SSN 123-45-6789");
+    installHost("PowerPoint", presentation([title, group, cells.shape]), ["PowerPointApi 1.8"]);
+
+    const result = await runHostRedaction(powerPointHost, quiet, { profile: { ...internal, header: null } }, AUTO_REDACT_MIN_CONFIDENCE);
+
+    expect(title.textFrame.textRange.text).toBe("SSN [REDACTED SSN]");
+    expect(grouped.textFrame.textRange.text).toBe("Mail [REDACTED EMAIL]");
+    expect(cells.text()).toEqual([["Name", "Phone"], ["Jane", "[REDACTED PHONE]"]]);
+    expect(result).toMatchObject({ redactionsTotal: 3, flagged: [] });
+  });
+
+  it("flags tables and groups it cannot read", async () => {
+    const group = { id: "2", name: "Group 1", type: "Group", group: { shapes: loadable({ items: [] }) } };
+    installHost("PowerPoint", presentation([group, table("4", [["212-555-1212"]]).shape]), ["PowerPointApi 1.4"]);
+
+    const result = await runHostRedaction(powerPointHost, quiet, { profile: { ...internal, header: null } }, AUTO_REDACT_MIN_CONFIDENCE);
+
+    expect(result.flagged).toEqual([
+      { type: null, label: "Slide 1, Group 1", reason: expect.stringContaining("PowerPointApi 1.8") },
+      { type: null, label: "Slide 1, Table 1", reason: expect.stringContaining("PowerPointApi 1.8") },
+    ]);
+  });
+});
+
+describe("htmlBody", () => {
+  it("reads text nodes and link targets, skipping markup without visible text", () => {
+    const body = htmlBody(
+      '<html><head><style>p { color: red }</style></head><body><!-- draft --><p>Tom &amp; Jerry</p>' +
+        '<a href="mailto:jane.doe@example.com">write to us</a></body></html>',
+    );
+
+    expect(body.text).toBe("Tom & Jerry\nmailto:jane.doe@example.com\nwrite to us");
+  });
+
+  it("runs inline elements together and breaks lines between blocks", () => {
+    const body = htmlBody("<div><b>John</b> Smith</div><div>SSN <span>123-45-</span>6789<br>Thanks</div><table><tr><td>A</td><td>B</td></tr></table>");
+
+    expect(body.text).toBe("John Smith\nSSN 123-45-6789\nThanks\nA\nB");
+  });
+
+  it("rewrites only the nodes an edit touches, including a split value and its link", () => {
+    const html = '<p class="x">Call <b>212-555-</b>1212 or <a href=\'mailto:jane.doe@example.com\'>jane.doe@example.com</a> &nbsp;</p>';
+    const body = htmlBody(html);
+    const edits = [...body.text.matchAll(/212-555-1212|jane\.doe@example\.com/g)]
+      .map((m) => ({ start: m.index!, end: m.index! + m[0].length, text: m[0].includes("@") ? "[E&M]" : "[PHONE]" }))
+      .reverse();
+
+    expect(body.apply(edits)).toBe(
+      '<p class="x">Call <b>[PHONE]</b> or <a href=\'mailto:[E&amp;M]\'>[E&amp;M]</a> &nbsp;</p>',
+    );
+  });
+});
+
+describe("checkMessageOnSend", () => {
+  // A compose item with an HTML body, answering getAsync the way Outlook does.
+  function installMessage(subject: string, html: string) {
+    const reply = (value: unknown) => (cb: (r: unknown) => void) => cb({ status: "succeeded", value });
+    g.Office = {
+      CoercionType: { Html: "html", Text: "text" },
+      context: {
+        mailbox: {
+          item: {
+            subject: { getAsync: reply(subject) },
+            body: { getTypeAsync: reply("html"), getAsync: (_type: string, cb: (r: unknown) => void) => reply(html)(cb) },
+          },
+        },
+      },
+    };
+  }
+
+  async function send() {
+    const calls: Array<{ allowEvent: boolean; errorMessage?: string }> = [];
+    await checkMessageOnSend({ completed: (options) => void calls.push(options) });
+    return calls;
+  }
+
+  it("blocks a message that still has values to redact", async () => {
+    installMessage("Payroll", "<p>Her SSN is 123-45-6789.</p>");
+
+    const calls = await send();
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].allowEvent).toBe(false);
+    expect(calls[0].errorMessage).toMatch(/1 .*SSN/i);
+  });
+
+  it("blocks a value split by formatting", async () => {
+    installMessage("Payroll", "<p>Her SSN is <span>123-45-</span>6789.</p>");
+
+    const [call] = await send();
+
+    expect(call.allowEvent).toBe(false);
+  });
+
+  it("lets a clean message go", async () => {
+    installMessage("Lunch", "<p>See you at noon.</p>");
+
+    expect(await send()).toEqual([{ allowEvent: true }]);
+  });
+
+  it("blocks when the message cannot be read", async () => {
+    installMessage("Lunch", "");
+    g.Office.context.mailbox.item.body.getTypeAsync = (cb: (r: unknown) => void) =>
+      cb({ status: "failed", error: { message: "Item is busy" } });
+
+    const [call] = await send();
+
+    expect(call.allowEvent).toBe(false);
+    expect(call.errorMessage).toContain("could not run");
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getDetectors } from "../src/office/detectorRegistry";
+import { boxesFor, layoutWords } from "../src/office/imageRedaction";
+import type { OcrWord } from "../src/office/ocrEngine";
+import { BUILT_IN_PROFILES } from "../src/office/policyProfiles";
+import { runRedactionWorkflow } from "../src/office/runRedactionWorkflow";
+import { findSensitiveMatches } from "../src/office/sensitivePatterns";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+// What the fake OCR "sees" in each picture, keyed by the picture's data. Tesseract and canvas
+// need a browser, so the engine is replaced; everything around it runs for real.
+const PICTURES: Record<string, string[]> = {
+  idCard: ["Met Sarah Grantley", "SSN 123-45-6789"],
+  contact: ["Mail jane.doe@example.com"],
+  holiday: ["Greetings from Lisbon"],
+};
+
+function ocrWords(lines: string[]): OcrWord[] {
+  return lines.flatMap((line, l) =>
+    line.split(" ").map((text, i) => ({
+      text,
+      confidence: 90,
+      line: l,
+      bbox: { x0: i * 100, y0: l * 30, x1: i * 100 + 90, y1: l * 30 + 20 },
+    })),
+  );
+}
+
+vi.mock("../src/office/ocrEngine", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/office/ocrEngine")>();
+  return {
+    ...actual,
+    decodeImage: async (data: string) => {
+      if (!(data in PICTURES)) throw new actual.UnsupportedImageError("Unsupported picture format (EMF).");
+      return { data };
+    },
+    recognizeWords: async (canvas: { data: string }) => ocrWords(PICTURES[canvas.data]),
+    maskImage: (canvas: { data: string }, boxes: unknown[]) => `masked:${canvas.data}:${boxes.length}`,
+  };
+});
+
+const internal = { ...BUILT_IN_PROFILES.find((p) => p.id === "internal")!, header: null };
+const quiet = () => {};
+
+afterEach(() => uninstallFakeOffice());
+
+describe("layoutWords and boxesFor", () => {
+  const layout = layoutWords(ocrWords(["Name Jane Doe", "SSN 123-45-6789"]));
+
+  it("lays words out as lines of text", () => {
+    expect(layout.text).toBe("Name Jane Doe\nSSN 123-45-6789");
+  });
+
+  it("covers the words a match overlaps, with padding", () => {
+    const [ssn] = findSensitiveMatches(layout.text, getDetectors()).filter((m) => m.type === "ssn");
+    expect(boxesFor(layout, [ssn])).toEqual([{ x0: 97, y0: 27, x1: 193, y1: 53 }]);
+  });
+
+  it("returns one box per line for a match across lines", () => {
+    const start = layout.text.indexOf("Doe");
+    const end = layout.text.indexOf("SSN") + 3;
+    expect(boxesFor(layout, [{ type: "x", rule: "x", value: "", start, end, confidence: 1 }])).toHaveLength(2);
+  });
+});
+
+describe("picture redaction", () => {
+  it("masks pictures with sensitive text and leaves the rest", async () => {
+    const doc = installFakeOffice({ body: ["See attached."], pictures: ["idCard", "holiday"] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal, images: "mask" });
+
+    expect(doc.body.inlinePictures.items.map((p) => p.data)).toEqual(["masked:idCard:1", "holiday"]);
+    expect(doc.body.inlinePictures.items[0]).toMatchObject({ width: 200, height: 100 });
+    expect(result.images.map((i) => [i.id, i.status])).toEqual([
+      ["body.picture1", "masked"],
+      ["body.picture2", "unchanged"],
+    ]);
+    expect(result.counts.ssn).toBe(1);
+    expect(result.redactionsTotal).toBe(1);
+    // The name is a low-confidence hit: held, as it would be in text.
+    expect(result.heldForReview).toBe(1);
+  });
+
+  it("removes pictures in remove mode and records them in the audit without values", async () => {
+    const doc = installFakeOffice({ body: ["Contact"], pictures: ["contact"] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal, images: "remove" });
+
+    expect(doc.body.inlinePictures.items).toHaveLength(0);
+    expect(result.audit?.entries).toEqual([
+      expect.objectContaining({ type: "email", storyId: "body.picture1", action: "redacted", replacement: "[picture removed]" }),
+    ]);
+    expect(result.audit?.images.map((i) => i.status)).toEqual(["removed"]);
+    expect(JSON.stringify(result.audit)).not.toContain("jane.doe");
+  });
+
+  it("flags pictures it can't read", async () => {
+    const doc = installFakeOffice({ body: ["Chart"], pictures: ["emf"] });
+    const lines: string[] = [];
+
+    const result = await runRedactionWorkflow((line) => lines.push(line), { profile: internal, images: "mask" });
+
+    expect(doc.body.inlinePictures.items[0].data).toBe("emf");
+    expect(result.images).toEqual([expect.objectContaining({ status: "failed", reason: "Unsupported picture format (EMF)." })]);
+    expect(lines.some((l) => l.includes("Picture 1 (Body) needs a manual check"))).toBe(true);
+  });
+
+  it("leaves pictures alone unless asked", async () => {
+    const doc = installFakeOffice({ body: ["Text"], pictures: ["idCard"] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal });
+
+    expect(doc.body.inlinePictures.items[0].data).toBe("idCard");
+    expect(result.images).toEqual([]);
+  });
+
+  it("skips pictures once the run is cancelled", async () => {
+    installFakeOffice({ body: ["Mail user@example.com"], pictures: ["idCard"] });
+    const controller = new AbortController();
+
+    const result = await runRedactionWorkflow(quiet, {
+      profile: internal,
+      images: "mask",
+      signal: controller.signal,
+      onProgress: (p) => p.label === "Redacting" && p.done > 0 && controller.abort(),
+    });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.images.map((i) => i.status)).toEqual(["skipped"]);
+  });
+});
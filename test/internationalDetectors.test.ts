@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { ALL_LOCALES, detectorsForLocales, getDetectors } from "../src/office/detectorRegistry";
+import { BUILT_IN_PROFILES, profileDetectors } from "../src/office/policyProfiles";
+import { AUTO_REDACT_MIN_CONFIDENCE } from "../src/office/runRedactionWorkflow";
+import { findSensitiveMatches, isValidE164 } from "../src/office/sensitivePatterns";
+
+function hits(text: string) {
+  return findSensitiveMatches(text, getDetectors()).map((m) => [m.type, m.value, m.confidence >= AUTO_REDACT_MIN_CONFIDENCE]);
+}
+
+describe("keyword-dependent confidence", () => {
+  it("holds a Luhn-valid SIN without its keyword for review", () => {
+    expect(hits("reference 130 692 544")).toEqual([["caSin", "130 692 544", false]]);
+    expect(hits("SIN 130 692 544")).toEqual([["caSin", "130 692 544", true]]);
+  });
+
+  it("auto-redacts a VAT ID with a keyword or a valid checksum, and holds a bare format match", () => {
+    expect(hits("VAT GB123456789")).toEqual([["vatId", "GB123456789", true]]);
+    expect(hits("ref GB980780684")).toEqual([["vatId", "GB980780684", true]]);
+    expect(hits("ref GB123456789")).toEqual([["vatId", "GB123456789", false]]);
+  });
+
+  it("trims words that run on after a VAT ID", () => {
+    expect(hits("VAT GB 980 7806 84 ON FILE")).toEqual([["vatId", "GB 980 7806 84", true]]);
+  });
+});
+
+describe("E.164 phone numbers", () => {
+  it.each(["+44 20 7946 0958", "+1 (212) 555-1212", "+353 1 234 5678", "+91 98765 43210"])("accepts %s", (value) => {
+    expect(isValidE164(value)).toBe(true);
+  });
+
+  it.each(["+44 20 7946", "+1 212 555 12123", "+999 1234 5678", "+44 (20 7946 0958", "2125551212"])("rejects %s", (value) => {
+    expect(isValidE164(value)).toBe(false);
+  });
+
+  it("reports one hit, not a second US-shaped one inside it", () => {
+    expect(hits("call +44 207 946 0958")).toEqual([["phone", "+44 207 946 0958", true]]);
+  });
+});
+
+describe("locales", () => {
+  const ids = (locales: typeof ALL_LOCALES) => detectorsForLocales(getDetectors(), locales).map((d) => d.id);
+
+  it("keeps region-neutral detectors and drops inactive regions", () => {
+    const uk = ids(["uk"]);
+    expect(uk).toEqual(expect.arrayContaining(["email", "phone", "passport", "ukNino", "vatId"]));
+    expect(uk).toContain("ssn");
+    expect(uk).not.toContain("inAadhaar");
+    expect(uk).not.toContain("euNationalId");
+  });
+
+  it("runs a detector while any of its regions is active", () => {
+    expect(ids(["eu"])).toContain("vatId");
+    expect(ids(["ca"])).not.toContain("vatId");
+  });
+
+  it("combines with the profile's detector list", () => {
+    const gdpr = BUILT_IN_PROFILES.find((p) => p.id === "gdpr")!;
+    expect(profileDetectors(gdpr, ["ca"]).map((d) => d.id)).not.toContain("ukNino");
+    expect(profileDetectors(gdpr, ["uk"]).map((d) => d.id)).toContain("ukNino");
+    expect(profileDetectors(gdpr).map((d) => d.id)).toContain("euNationalId");
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { auditToCsv } from "../src/office/auditRecord";
+import { getDetectors } from "../src/office/detectorRegistry";
+import { resolveOverlaps } from "../src/office/overlapResolution";
+import { BUILT_IN_PROFILES } from "../src/office/policyProfiles";
+import { runRedactionWorkflow } from "../src/office/runRedactionWorkflow";
+import { findSensitiveMatches, toMatch, type Detector } from "../src/office/sensitivePatterns";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+const internal = { ...BUILT_IN_PROFILES.find((p) => p.id === "internal")!, sensitivityLabels: false, header: null };
+const quiet = () => {};
+
+afterEach(() => uninstallFakeOffice());
+
+describe("resolveOverlaps", () => {
+  it("gives a labelled account number to the bank detector, not the phone one", () => {
+    const [match, ...rest] = findSensitiveMatches("Debit acct 2125551212 monthly.", getDetectors());
+
+    expect(rest).toEqual([]);
+    expect(match).toMatchObject({ type: "bank", rule: "account", value: "2125551212" });
+    expect(match.resolution).toEqual({
+      score: 1,
+      reason: 'bank 0.75, "acct" before; beats phone 0.70, checksum ok (0.85)',
+      rivals: [{ type: "phone", rule: "phone", score: 0.85 }],
+    });
+  });
+
+  it("lets a checksum and a keyword outweigh a more confident custom pattern", () => {
+    const ticket: Detector = { id: "ticket", label: "Ticket", replacement: "[TICKET]", pattern: /\d{3}-\d{3}-\d{4}/g };
+    const text = "tel 212-555-1212";
+    const span = { value: "212-555-1212", start: 4, end: 16 };
+
+    const [winner] = resolveOverlaps(
+      text,
+      [toMatch("ticket", "ticket", 0.8, span), toMatch("phone", "phone", 0.7, span)],
+      [ticket, ...getDetectors()],
+    );
+
+    expect(winner).toMatchObject({ type: "phone", resolution: { score: 1.1 } });
+    expect(winner.resolution?.reason).toMatch(/^phone 0\.70, checksum ok, "tel" before; beats ticket 0\.80/);
+  });
+
+  it("keeps hits nested inside another, leaving the choice to redaction", () => {
+    const matches = findSensitiveMatches("ship to 1600 Pennsylvania Avenue NW, Washington, DC 20500", getDetectors());
+
+    expect(matches.map((m) => m.type)).toEqual(expect.arrayContaining(["address", "postalCode"]));
+    expect(matches.every((m) => m.resolution === undefined)).toBe(true);
+  });
+
+  it("leaves hits that overlap nothing untouched", () => {
+    const matches = [toMatch("email", "email", 0.95, { value: "a@b.co", start: 0, end: 6 })];
+
+    expect(resolveOverlaps("a@b.co", matches, getDetectors())).toEqual(matches);
+  });
+});
+
+describe("runRedactionWorkflow with overlapping detectors", () => {
+  it("redacts the chosen type and records why in the audit", async () => {
+    const doc = installFakeOffice({ body: ["Debit acct 2125551212 monthly, call 212-555-1212."] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal });
+
+    expect(doc.body.lines).toEqual(["Debit acct [REDACTED BANK] monthly, call [REDACTED PHONE]."]);
+    expect(result.counts).toMatchObject({ bank: 1, phone: 1 });
+    const entry = result.audit?.entries.find((e) => e.type === "bank");
+    expect(entry?.resolution).toContain("beats phone");
+    expect(auditToCsv(result.audit!).split("\r\n")[0]).toMatch(/,resolution$/);
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { BUILT_IN_PROFILES, parseProfiles } from "../src/office/policyProfiles";
+import { styleReplacement, validateStyle, type RedactionStyle } from "../src/office/redactionStyles";
+import { runRedactionWorkflow } from "../src/office/runRedactionWorkflow";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+const render = (style: RedactionStyle, value: string) => styleReplacement(style, value, "[REDACTED]");
+
+afterEach(() => uninstallFakeOffice());
+
+describe("styleReplacement", () => {
+  it("writes the label, a same-length mask or a fixed bar", () => {
+    expect(render({ kind: "label" }, "123-45-6789")).toBe("[REDACTED]");
+    expect(render({ kind: "mask" }, "123-45-6789")).toBe("•••-••-••••");
+    expect(render({ kind: "blackBox" }, "1")).toBe(render({ kind: "blackBox" }, "4111 1111 1111 1111"));
+  });
+
+  it("keeps the last characters of long enough values", () => {
+    expect(render({ kind: "keepLast", count: 4 }, "4242 4242 4242 4242")).toBe("•••• •••• •••• 4242");
+    expect(render({ kind: "keepLast", count: 4 }, "12-345")).toBe("••-•••");
+  });
+
+  it("keeps an email's domain and masks anything else", () => {
+    expect(render({ kind: "keepDomain" }, "jane.doe@acme.com")).toBe("j***@acme.com");
+    expect(render({ kind: "keepDomain" }, "212-555-1212")).toBe("•••-•••-••••");
+  });
+});
+
+describe("styles in profiles", () => {
+  const profile = { id: "support", name: "Support", trackChanges: true };
+
+  it("validates styles of imported profiles", () => {
+    const [parsed] = parseProfiles(JSON.stringify({ ...profile, styles: { card: { kind: "keepLast", count: 4 } } }));
+    expect(parsed.styles).toEqual({ card: { kind: "keepLast", count: 4 } });
+    expect(() => parseProfiles(JSON.stringify({ ...profile, styles: { card: { kind: "stars" } } }))).toThrow(/card/);
+    expect(() => validateStyle({ kind: "keepLast", count: 0 }, "card")).toThrow(/count/);
+  });
+
+  it("applies the style, formats black bars and records the styles used", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@acme.com, SSN 123-45-6789."] });
+    const internal = BUILT_IN_PROFILES.find((p) => p.id === "internal")!;
+
+    const result = await runRedactionWorkflow(() => {}, {
+      profile: { ...internal, header: null, styles: { email: { kind: "keepDomain" } } },
+      styles: { ssn: { kind: "blackBox" } },
+    });
+
+    expect(doc.body.lines).toEqual(["Mail j***@acme.com, SSN ██████████."]);
+    const bar = doc.body.paragraphs.items[0].ranges.find((r) => r.text.startsWith("█"));
+    expect(bar?.font).toEqual({ highlightColor: "#000000" });
+    expect(result.styles).toEqual({ email: { kind: "keepDomain" }, ssn: { kind: "blackBox" } });
+    expect(result.audit?.detectors.find((d) => d.id === "ssn")?.style).toEqual({ kind: "blackBox" });
+  });
+});
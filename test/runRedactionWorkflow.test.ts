@@ -0,0 +1,470 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { setCustomPatterns } from "../src/office/detectorRegistry";
+import { BUILT_IN_PROFILES } from "../src/office/policyProfiles";
+import {
+  addConfidentialHeader,
+  applyApprovedRedactions,
+  runRedactionWorkflow,
+  scanForCandidates,
+} from "../src/office/runRedactionWorkflow";
+import { SANITIZE_LABELS, type SanitizeOptions } from "../src/office/sanitizeMetadata";
+import { setTermLists } from "../src/office/termLists";
+import { countBeforeRedaction, findResiduals, ResidualContentError } from "../src/office/verifyRedaction";
+import { CHUNK_MAX_PARAGRAPHS } from "../src/office/wordRanges";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+const profile = (id: string) => BUILT_IN_PROFILES.find((p) => p.id === id)!;
+const quiet = () => {};
+
+declare const Word: any;
+
+afterEach(() => {
+  setCustomPatterns([]);
+  setTermLists();
+  uninstallFakeOffice();
+});
+
+describe("runRedactionWorkflow", () => {
+  it("redacts every story, adds the label and enables tracking", async () => {
+    const doc = installFakeOffice({
+      body: ["Contact jane.doe@example.com or 212-555-1212.", "SSN 123-45-6789, card 4111 1111 1111 1111."],
+      footers: { "1.primary": ["Page 1 · call 212-555-9999"] },
+      comments: ["ask jane.doe@example.com"],
+      sets: ["WordApi 1.5"],
+    });
+
+    const result = await runRedactionWorkflow(quiet);
+
+    expect(doc.body.lines).toEqual([
+      "Contact [REDACTED EMAIL] or [REDACTED PHONE].",
+      "SSN [REDACTED SSN], card [REDACTED CARD].",
+    ]);
+    expect(doc.storyBody("footer", "1.primary").lines[0]).toBe("Page 1 · call [REDACTED PHONE]");
+    expect(doc.comments[0].content).toBe("ask [REDACTED EMAIL]");
+    expect(doc.storyBody("header", "1.primary").lines[0]).toBe("RESTRICTED");
+    expect(doc.changeTrackingMode).toBe("TrackAll");
+
+    expect(result.redactionsTotal).toBe(6);
+    expect(result.headerUpdated).toBe(true);
+    expect(result.sensitivity?.tier).toBe("Restricted");
+    expect(result.trackChangesEnabled).toBe(true);
+    expect(result.counts).toMatchObject({ email: 2, phone: 2, ssn: 1, card: 1 });
+    expect(result.stories.map((s) => [s.id, s.redacted])).toEqual([
+      ["body", 4],
+      ["s1.footer.primary", 1],
+      ["comment1", 1],
+    ]);
+  });
+
+  it("replaces only the detected occurrence of a repeated value", async () => {
+    const doc = installFakeOffice({ body: ["Order 2125551212 was paid by phone 2125551212 yesterday."] });
+
+    await runRedactionWorkflow(quiet, { profile: { ...profile("internal"), header: null } });
+
+    // Both are phone-shaped, so both go; the point is that offsets map to the right hits.
+    expect(doc.body.lines).toEqual(["Order [REDACTED PHONE] was paid by phone [REDACTED PHONE] yesterday."]);
+  });
+
+  it("holds low-confidence hits for review and records them in the audit", async () => {
+    const doc = installFakeOffice({ body: ["Met Sarah Grantley and jane.doe@example.com."] });
+
+    const result = await runRedactionWorkflow(quiet);
+
+    expect(doc.body.lines).toEqual(["Met Sarah Grantley and [REDACTED EMAIL]."]);
+    expect(result.heldForReview).toBe(1);
+    expect(result.audit?.entries.map((e) => [e.type, e.action])).toEqual(
+      expect.arrayContaining([
+        ["personName", "held"],
+        ["email", "redacted"],
+      ]),
+    );
+    expect(JSON.stringify(result.audit)).not.toContain("jane.doe");
+  });
+
+  it("names the audited document after a local path with a literal percent sign", async () => {
+    installFakeOffice({ body: ["Mail jane.doe@example.com"], url: "C:\\Docs\\100% final.docx" });
+
+    const result = await runRedactionWorkflow(quiet);
+
+    expect(result.audit?.documentName).toBe("100% final.docx");
+  });
+
+  it("follows the policy profile: detectors, replacements, header and tracking", async () => {
+    const doc = installFakeOffice({ body: ["Card 4111 1111 1111 1111, email jane.doe@example.com."] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: { ...profile("pci"), trackChanges: false } });
+
+    expect(doc.body.lines).toEqual(["Card [CARD NUMBER REMOVED], email jane.doe@example.com."]);
+    expect(doc.storyBody("header", "1.primary").lines[0]).toBe("PCI – CARDHOLDER DATA REMOVED");
+    expect(doc.changeTrackingMode).toBe("Off");
+    expect(result.trackChangesEnabled).toBe(false);
+  });
+
+  it("runs only the detectors of the document's regions", async () => {
+    const doc = installFakeOffice({ body: ["NI number AB 12 34 56 C, SIN 046 454 286, ssn 123-45-6789."] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: { ...profile("internal"), header: null }, locales: ["uk"] });
+
+    expect(doc.body.lines).toEqual(["NI number [REDACTED NINO], SIN 046 454 286, ssn [REDACTED SSN]."]);
+    expect(result.counts).not.toHaveProperty("caSin");
+    expect(result.audit?.detectors.map((d) => d.id)).not.toContain("caSin");
+    expect(result.audit?.locales).toEqual(["uk"]);
+  });
+
+  it("writes in bounded paragraph chunks", async () => {
+    const paragraphs = Array.from({ length: 100 }, (_, i) => `Row ${i}: user${i}@example.com`);
+    const doc = installFakeOffice({ body: paragraphs });
+
+    const progress: number[] = [];
+    const result = await runRedactionWorkflow(quiet, {
+      profile: { ...profile("internal"), header: null },
+      onProgress: (p) => p.label === "Redacting" && progress.push(p.done),
+    });
+
+    expect(result.redactionsTotal).toBe(100);
+    expect(doc.body.lines.every((line) => line.endsWith("[REDACTED EMAIL]"))).toBe(true);
+    expect(progress).toEqual([0, 40, 80, 100]);
+    // Two syncs per chunk, plus loading stories and the audit, instead of one per span.
+    const chunks = Math.ceil(100 / CHUNK_MAX_PARAGRAPHS);
+    expect(doc.syncs).toBeLessThan(2 * chunks + 20);
+  });
+
+  it("recovers from a chunk Word rejects and reports what failed", async () => {
+    const paragraphs = Array.from({ length: 60 }, (_, i) => `Row ${i}: user${i}@example.com`);
+    const doc = installFakeOffice({ body: paragraphs });
+    doc.failSearch((value) => value === "user7@example.com");
+    const lines: string[] = [];
+
+    const result = await runRedactionWorkflow((line) => lines.push(line), {
+      profile: { ...profile("internal"), header: null },
+    });
+
+    expect(result.failed).toBeGreaterThan(0);
+    expect(result.redactionsTotal + result.failed).toBe(60);
+    expect(doc.body.lines[59]).toBe("Row 59: [REDACTED EMAIL]");
+    expect(doc.body.lines[7]).toBe("Row 7: user7@example.com");
+    expect(result.audit?.entries.filter((e) => e.action === "failed")).toHaveLength(result.failed);
+    expect(lines.some((l) => l.includes("could not be redacted"))).toBe(true);
+  });
+
+  it("stops between chunks when cancelled", async () => {
+    const paragraphs = Array.from({ length: 100 }, (_, i) => `Row ${i}: user${i}@example.com`);
+    const doc = installFakeOffice({ body: paragraphs });
+    const controller = new AbortController();
+
+    const result = await runRedactionWorkflow(quiet, {
+      profile: { ...profile("internal"), header: null },
+      finalize: true,
+      signal: controller.signal,
+      onProgress: (p) => p.label === "Redacting" && p.done > 0 && controller.abort(),
+    });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.finalized).toBe(false);
+    expect(result.redactionsTotal).toBe(CHUNK_MAX_PARAGRAPHS);
+    expect(doc.body.lines[CHUNK_MAX_PARAGRAPHS]).toContain("@example.com");
+    expect(result.audit?.entries.filter((e) => e.action === "cancelled")).toHaveLength(100 - CHUNK_MAX_PARAGRAPHS);
+  });
+
+  it("stores an undo vault in the document when asked", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com"], sets: ["WordApi 1.5"] });
+
+    const result = await runRedactionWorkflow(quiet, { vaultPassphrase: "correct horse" });
+
+    expect(result.vault?.count).toBe(1);
+    expect(doc.customXml).toHaveLength(1);
+    expect(doc.customXml[0].xml).not.toContain("jane.doe");
+  });
+
+  it("scrubs custom XML parts with the profile's detectors, leaving undo vaults alone", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com"], sets: ["WordApi 1.5"] });
+    await runRedactionWorkflow(quiet, { vaultPassphrase: "correct horse" });
+    const vault = doc.customXml[0].xml;
+    await Word.run(async (context: any) =>
+      context.document.customXmlParts.add(
+        '<meta xmlns="urn:example:meta"><owner>jane.doe@example.com</owner><phone>212-555-1212</phone></meta>',
+      ),
+    );
+    const sanitize = { ...Object.fromEntries(Object.keys(SANITIZE_LABELS).map((k) => [k, false])), customXmlParts: true } as SanitizeOptions;
+
+    const result = await runRedactionWorkflow(quiet, {
+      profile: { ...profile("internal"), detectors: ["email"], replacements: { email: "<email & co>" } },
+      sanitize,
+    });
+
+    expect(doc.customXml[0].xml).toBe(vault);
+    expect(doc.customXml[1].xml).toBe(
+      '<meta xmlns="urn:example:meta"><owner>&lt;email &amp; co&gt;</owner><phone>212-555-1212</phone></meta>',
+    );
+    expect(result.sanitization).toEqual([
+      { category: "customXmlParts", item: "urn:example:meta", action: "scrubbed", detail: "1 match(es)" },
+    ]);
+  });
+});
+
+describe("locating spans in Word", () => {
+  const internal = { ...profile("internal"), header: null, sensitivityLabels: false };
+
+  it("redacts a span across paragraphs part by part", async () => {
+    setCustomPatterns([{ id: "matter", label: "Matter", pattern: "Matter\\s+No\\.\\s+\\d+", keywords: [], replacement: "" }]);
+    const doc = installFakeOffice({ body: ["Re: Matter", "No. 4471 is closed."] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal });
+
+    expect(doc.body.lines).toEqual(["Re: [REDACTED MATTER]", " is closed."]);
+    expect(result.redactionsTotal).toBe(1);
+  });
+
+  it("redacts an address block and a name broken over lines", async () => {
+    const doc = installFakeOffice({
+      body: ["Please ship to 221 Baker Street,", "London NW1 6XE", "Contact: Maria", "Garcia joined in May."],
+    });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal });
+
+    expect(doc.body.lines).toEqual([
+      "Please ship to [REDACTED ADDRESS],",
+      "London [REDACTED POSTCODE]",
+      "Contact: [REDACTED NAME]",
+      "[REDACTED NAME] joined in May.",
+    ]);
+    expect(result.redactionsTotal).toBe(4);
+  });
+
+  it("finds values longer than Word's search limit or containing its special character", async () => {
+    const long = `Clause ${"x".repeat(300)} end`;
+    setTermLists({ allow: [], deny: [long, "Q^3 plan"] });
+    const doc = installFakeOffice({ body: [`See ${long} here.`, "The Q^3 plan is late."] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal });
+
+    expect(doc.body.lines).toEqual(["See [REDACTED] here.", "The [REDACTED] is late."]);
+    expect(result.failed).toBe(0);
+  });
+
+  it("holds spans Word does not report for review", async () => {
+    const doc = installFakeOffice({ body: ["SSN 123-45-6789", "Mail jane.doe@example.com"] });
+    const lines: string[] = [];
+
+    const result = await runRedactionWorkflow((line) => lines.push(line), {
+      profile: internal,
+      // The paragraph changes between the scan and the write, so the scanned value is gone.
+      onProgress: (p) => {
+        if (p.label === "Redacting" && p.done === 0) doc.body.paragraphs.items[0].text = "SSN 123-45-6780";
+      },
+    });
+
+    expect(doc.body.lines[1]).toBe("Mail [REDACTED EMAIL]");
+    expect(result.redactionsTotal).toBe(1);
+    expect(result.heldForReview).toBe(1);
+    expect(result.audit?.entries.find((e) => e.type === "ssn")?.action).toBe("held");
+    expect(lines.some((l) => l.includes("held for review"))).toBe(true);
+  });
+});
+
+describe("finalize", () => {
+  const internal = { ...profile("internal"), header: null, sensitivityLabels: false };
+
+  it("accepts the tracked redactions and leaves other occurrences of a value alone", async () => {
+    const doc = installFakeOffice({ body: ["Her SSN ends in 8234.", "Invoice 8234 is due on Friday."], sets: ["WordApi 1.6"] });
+    const lines: string[] = [];
+
+    const result = await runRedactionWorkflow((line) => lines.push(line), { profile: internal, finalize: true });
+
+    expect(doc.body.lines).toEqual(["Her SSN ends in [REDACTED SSN].", "Invoice 8234 is due on Friday."]);
+    expect(result.finalized).toBe(true);
+    expect(doc.changeTrackingMode).toBe("Off");
+    expect(doc.body.getOoxml().value).not.toContain("w:delText");
+    expect(lines).toContain("Finalize: accepted 1 revision(s) and turned Track Changes off.");
+  });
+
+  it("accepts revisions when the user, not the policy, turned tracking on", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com"], sets: ["WordApi 1.6"] });
+    doc.changeTrackingMode = "TrackAll";
+
+    const result = await runRedactionWorkflow(quiet, { profile: { ...internal, trackChanges: false }, finalize: true });
+
+    expect(result.finalized).toBe(true);
+    expect(doc.changeTrackingMode).toBe("Off");
+    expect(doc.body.getOoxml().value).not.toContain("w:delText");
+  });
+
+  it("verifies a value redacted inside a longer token", async () => {
+    const doc = installFakeOffice({ body: ["Ref ID123-45-6789 on file"], sets: ["WordApi 1.6"] });
+    const planned = [{ type: "ssn" as const, value: "123-45-6789", storyId: "body", wholeWord: false }];
+
+    const residuals = await Word.run(async (context: any) => {
+      const baseline = await countBeforeRedaction(context, planned);
+      doc.changeTrackingMode = "TrackAll";
+      doc.body.paragraphs.items[0].splice(6, 17, "[REDACTED SSN]");
+      return await findResiduals(context, baseline);
+    });
+
+    expect(doc.body.lines).toEqual(["Ref ID[REDACTED SSN] on file"]);
+    expect(residuals).toEqual([{ type: "ssn", value: "123-45-6789", where: "Body (revision text)" }]);
+  });
+
+  it("does not count held occurrences as residuals", async () => {
+    const doc = installFakeOffice({ body: ["Call 212-555-1212.", "Ref 212-555-1212"], sets: ["WordApi 1.6"] });
+
+    const result = await applyApprovedRedactions(
+      (await scanForCandidates(quiet, { profile: internal })).map((c) => ({
+        ...c,
+        decision: "accepted" as const,
+        matches: c.matches.slice(0, 1),
+      })),
+      quiet,
+      { profile: internal, finalize: true },
+    );
+
+    expect(doc.body.lines).toEqual(["Call [REDACTED PHONE].", "Ref 212-555-1212"]);
+    expect(result.finalized).toBe(true);
+  });
+
+  it("fails when a span the run meant to redact is still there", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com", "Call 212-555-1212"], sets: ["WordApi 1.6"] });
+    doc.failSearch((value) => value.includes("jane.doe"));
+
+    const run = runRedactionWorkflow(quiet, { profile: internal, finalize: true });
+
+    await expect(run).rejects.toThrow(ResidualContentError);
+    await expect(run).rejects.toMatchObject({ residuals: [{ type: "email", where: "Body" }] });
+    expect(doc.body.lines[1]).toBe("Call [REDACTED PHONE]");
+  });
+
+  it("reports a value that only survives as a tracked deletion", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com"], sets: ["WordApi 1.6"] });
+    const planned = [{ type: "email" as const, value: "jane.doe@example.com", storyId: "body", wholeWord: true }];
+
+    const residuals = await Word.run(async (context: any) => {
+      const baseline = await countBeforeRedaction(context, planned);
+      doc.changeTrackingMode = "TrackAll";
+      doc.body.paragraphs.items[0].splice(5, 25, "[REDACTED EMAIL]");
+      return await findResiduals(context, baseline);
+    });
+
+    expect(doc.body.lines).toEqual(["Mail [REDACTED EMAIL]"]);
+    expect(residuals).toEqual([{ type: "email", value: "jane.doe@example.com", where: "Body (revision text)" }]);
+  });
+});
+
+describe("incremental", () => {
+  const incremental = { profile: { ...profile("internal"), header: null }, scope: "incremental" as const };
+
+  it("scans a paragraph with a held hit again on the next run", async () => {
+    const doc = installFakeOffice({ body: ["Met Sarah Grantley on Monday.", "Mail jane.doe@example.com"] });
+
+    const first = await runRedactionWorkflow(quiet, incremental);
+    const lines: string[] = [];
+    const second = await runRedactionWorkflow((line) => lines.push(line), incremental);
+
+    expect(first.heldForReview).toBe(1);
+    expect(second.heldForReview).toBe(1);
+    expect(second.audit?.entries.map((e) => [e.type, e.action])).toEqual([["personName", "held"]]);
+    expect(lines.some((l) => l.startsWith("Incremental: 1 new or changed paragraph(s) to scan"))).toBe(true);
+    expect(doc.body.lines).toEqual(["Met Sarah Grantley on Monday.", "Mail [REDACTED EMAIL]"]);
+  });
+
+  it("numbers pseudonyms after the tokens an earlier run left", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com, SSN 123-45-6789"] });
+    const pseudonymize = { ...incremental, mode: "pseudonymize" as const };
+
+    await runRedactionWorkflow(quiet, pseudonymize);
+    doc.body.insertParagraph("Cc john.roe@example.com, SSN 234-56-7890", "End");
+    const second = await runRedactionWorkflow(quiet, pseudonymize);
+
+    expect(doc.body.lines).toEqual(["Mail user1@example.invalid, SSN SSN_1", "Cc user2@example.invalid, SSN SSN_2"]);
+    expect(second.pseudonyms.map((p) => p.token)).toEqual(["user2@example.invalid", "SSN_2"]);
+  });
+
+  it("scans rejected candidates again on the next run", async () => {
+    installFakeOffice({ body: ["Call 212-555-1212.", "Mail jane.doe@example.com"] });
+
+    const candidates = await scanForCandidates(quiet, incremental);
+    for (const c of candidates) c.decision = c.type === "email" ? "accepted" : "rejected";
+    await applyApprovedRedactions(candidates, quiet, incremental);
+    const again = await scanForCandidates(quiet, incremental);
+
+    expect(again.map((c) => c.type)).toEqual(["phone"]);
+  });
+});
+
+describe("preview and approve", () => {
+  it("changes nothing while scanning and applies only accepted candidates", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com, call 212-555-1212."] });
+
+    const candidates = await scanForCandidates(quiet);
+    expect(doc.body.lines).toEqual(["Mail jane.doe@example.com, call 212-555-1212."]);
+
+    for (const c of candidates) c.decision = c.type === "email" ? "accepted" : "rejected";
+    const result = await applyApprovedRedactions(candidates, quiet);
+
+    expect(doc.body.lines.at(-1)).toBe("Mail [REDACTED EMAIL], call 212-555-1212.");
+    expect(result.audit?.entries.map((e) => e.action).sort()).toEqual(["notApproved", "redacted"]);
+  });
+});
+
+describe("addConfidentialHeader", () => {
+  const header = { text: "CONFIDENTIAL DOCUMENT", color: "#B00020" };
+
+  it("formats the inserted header line", async () => {
+    const doc = installFakeOffice({ body: ["Text"] });
+
+    const changed = await (globalThis as any).Word.run((context: any) => addConfidentialHeader(context, header));
+
+    expect(changed).toBe(true);
+    const primary = doc.storyBody("header", "1.primary");
+    expect(primary.lines[0]).toBe("CONFIDENTIAL DOCUMENT");
+    expect(primary.inserted[0].font).toMatchObject({ bold: true, color: "#B00020" });
+    expect(primary.inserted[0].paragraphFormat).toMatchObject({ alignment: "Centered" });
+  });
+
+  it("leaves an existing header alone", async () => {
+    const doc = installFakeOffice({ body: ["Text"], headers: { "1.primary": ["Confidential Document"] } });
+
+    const changed = await (globalThis as any).Word.run((context: any) => addConfidentialHeader(context, header));
+
+    expect(changed).toBe(false);
+    expect(doc.storyBody("header", "1.primary").lines).toEqual(["Confidential Document"]);
+    expect(doc.body.lines).toEqual(["Text"]);
+  });
+
+  it("updates every section", async () => {
+    const doc = installFakeOffice({ body: ["Text"], sections: 2 });
+
+    await (globalThis as any).Word.run((context: any) => addConfidentialHeader(context, header));
+
+    expect(doc.storyBody("header", "1.primary").lines[0]).toBe("CONFIDENTIAL DOCUMENT");
+    expect(doc.storyBody("header", "2.primary").lines[0]).toBe("CONFIDENTIAL DOCUMENT");
+  });
+
+  it("falls back to a body banner when headers can't be reached", async () => {
+    const doc = installFakeOffice({ body: ["First paragraph"], headerAccessThrows: true });
+
+    const changed = await (globalThis as any).Word.run((context: any) => addConfidentialHeader(context, header));
+
+    expect(changed).toBe(true);
+    expect(doc.body.lines).toEqual(["CONFIDENTIAL DOCUMENT", "First paragraph"]);
+    const banner = doc.body.paragraphs.items[0];
+    expect(banner.font).toMatchObject({ bold: true, color: "#B00020" });
+    expect(banner.alignment).toBe("Centered");
+  });
+
+  it("does not add a second banner", async () => {
+    const doc = installFakeOffice({ body: ["CONFIDENTIAL DOCUMENT", "Text"], headerAccessThrows: true });
+
+    const changed = await (globalThis as any).Word.run((context: any) => addConfidentialHeader(context, header));
+
+    expect(changed).toBe(false);
+    expect(doc.body.lines).toEqual(["CONFIDENTIAL DOCUMENT", "Text"]);
+  });
+
+  it("keeps redacting when the header fallback is used", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com"], headerAccessThrows: true });
+
+    const result = await runRedactionWorkflow(quiet);
+
+    expect(doc.body.lines).toEqual(["INTERNAL", "Mail [REDACTED EMAIL]"]);
+    expect(result.headerUpdated).toBe(true);
+  });
+});
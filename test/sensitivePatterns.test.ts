@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { getDetectors } from "../src/office/detectorRegistry";
+import { findSensitiveMatches, runDetector, type SensitiveType } from "../src/office/sensitivePatterns";
+import { CORPUS } from "./corpus";
+
+function valuesOf(text: string, type: SensitiveType): string[] {
+  return findSensitiveMatches(text, getDetectors())
+    .filter((m) => m.type === type)
+    .map((m) => m.value);
+}
+
+function detector(id: SensitiveType) {
+  const d = getDetectors().find((x) => x.id === id);
+  if (!d) throw new Error(`No detector ${id}`);
+  return d;
+}
+
+describe.each(Object.entries(CORPUS))("%s corpus", (type, { positive, negative }) => {
+  it.each(positive.map((c) => [c.text, c] as const))("finds the labeled values in %j", (_, c) => {
+    for (const [expectedType, value] of c.expected) {
+      expect(valuesOf(c.text, expectedType)).toContain(value);
+    }
+  });
+
+  it.each(negative)(`finds no ${type} in %j`, (text) => {
+    expect(valuesOf(text, type)).toEqual([]);
+  });
+});
+
+describe("offsets", () => {
+  it("point at the value itself", () => {
+    const text = "Contact: jane.doe@example.com or 212-555-1212.";
+    for (const m of findSensitiveMatches(text, getDetectors())) {
+      expect(text.slice(m.start, m.end)).toBe(m.value);
+    }
+  });
+
+  it("are sorted by start", () => {
+    const starts = findSensitiveMatches("ssn 123-45-6789, email a@b.co, card 4111 1111 1111 1111", getDetectors()).map(
+      (m) => m.start,
+    );
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+  });
+});
+
+describe("entity spans", () => {
+  it("stay within one paragraph, a name broken over two lines giving one span per line", () => {
+    const text = "Please ship to 221 Baker Street,\nLondon NW1 6XE\nContact: Maria\nGarcia joined in May.";
+    const found = findSensitiveMatches(text, getDetectors()).map((m) => [m.type, m.value]);
+
+    expect(found).toEqual([
+      ["address", "221 Baker Street"],
+      ["postalCode", "NW1 6XE"],
+      ["personName", "Maria"],
+      ["personName", "Garcia"],
+    ]);
+  });
+});
+
+describe("PHONE_RE lookarounds", () => {
+  it("includes a leading parenthesis", () => {
+    expect(valuesOf("call (212) 555-1212", "phone")).toEqual(["(212) 555-1212"]);
+  });
+
+  it("does not match inside a longer digit run", () => {
+    // Up to three leading digits are a country code; more than that is some other number.
+    expect(valuesOf("ref 92125551212", "phone")).toEqual(["92125551212"]);
+    expect(valuesOf("ref 12342125551212", "phone")).toEqual([]);
+    expect(valuesOf("ref 212555121", "phone")).toEqual([]);
+  });
+
+  it("matches when directly followed by punctuation", () => {
+    expect(valuesOf("call 212-555-1212.", "phone")).toEqual(["212-555-1212"]);
+  });
+});
+
+describe("CARD_CANDIDATE_RE keyword fallback", () => {
+  it("accepts a Luhn-valid number without a keyword", () => {
+    const [m] = runDetector("paid 4111 1111 1111 1111", detector("card"));
+    expect(m.rule).toBe("card-luhn");
+  });
+
+  it("accepts a non-Luhn number only near a card keyword, with lower confidence", () => {
+    const [m] = runDetector("Visa 4532 1234 5678 9012", detector("card"));
+    expect(m.rule).toBe("card-keyword");
+    expect(m.confidence).toBeLessThan(0.9);
+    expect(runDetector("ref 4532 1234 5678 9012", detector("card"))).toEqual([]);
+  });
+
+  it("accepts every card keyword, with or without its spaces", () => {
+    for (const keyword of ["Credit Card", "debitcard", "card  number", "MasterCard", "amex", "American Express"]) {
+      const [m] = runDetector(`${keyword}: 4532 1234 5678 9012`, detector("card"));
+      expect(m?.rule, keyword).toBe("card-keyword");
+    }
+    expect(runDetector("cards 4532 1234 5678 9012", detector("card"))).toEqual([]);
+  });
+
+  it("ignores keywords more than 50 characters away", () => {
+    const text = `credit card ${"x".repeat(60)} 4532 1234 5678 9012`;
+    expect(runDetector(text, detector("card"))).toEqual([]);
+  });
+
+  it("rejects digit runs outside 13–19 digits", () => {
+    expect(runDetector("credit card 4532 1234 5678", detector("card"))).toEqual([]);
+  });
+});
+
+describe("findSsnLast4 year exclusion", () => {
+  it.each(["1900", "1999", "2024", "2099"])("skips the year %s", (year) => {
+    expect(valuesOf(`ssn noted in ${year}`, "ssn")).toEqual([]);
+  });
+
+  it.each(["0001", "1899", "2100", "8234"])("keeps %s", (last4) => {
+    expect(valuesOf(`ssn ends ${last4}`, "ssn")).toEqual([last4]);
+  });
+
+  it("needs the SSN context", () => {
+    expect(valuesOf("pin 8234", "ssn")).toEqual([]);
+  });
+});
+
+describe("IBAN mod-97", () => {
+  it("accepts valid IBANs with and without spaces", () => {
+    expect(valuesOf("GB82 WEST 1234 5698 7654 32", "bank")).toEqual(["GB82 WEST 1234 5698 7654 32"]);
+    expect(valuesOf("FR1420041010050500013M02606", "bank")).toEqual(["FR1420041010050500013M02606"]);
+  });
+
+  it("rejects a wrong check digit", () => {
+    expect(valuesOf("GB83 WEST 1234 5698 7654 32", "bank")).toEqual([]);
+  });
+
+  it("stops at the end of the IBAN when words follow", () => {
+    expect(valuesOf("DE89 3704 0044 0532 0130 00 is the account", "bank")).toEqual(["DE89 3704 0044 0532 0130 00"]);
+  });
+});
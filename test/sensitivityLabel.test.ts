@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { BUILT_IN_PROFILES } from "../src/office/policyProfiles";
+import { runRedactionWorkflow } from "../src/office/runRedactionWorkflow";
+import { LABEL_PROPERTY, scoreSensitivity } from "../src/office/sensitivityLabel";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+const quiet = () => {};
+const internal = BUILT_IN_PROFILES.find((p) => p.id === "internal")!;
+
+afterEach(() => uninstallFakeOffice());
+
+describe("scoreSensitivity", () => {
+  it("maps severity and volume to a tier", () => {
+    expect(scoreSensitivity({}).tier).toBe("Internal");
+    expect(scoreSensitivity({ email: 1 }).tier).toBe("Internal");
+    expect(scoreSensitivity({ email: 4, phone: 2 }).tier).toBe("Confidential");
+    expect(scoreSensitivity({ ssn: 1 }).tier).toBe("Restricted");
+    expect(scoreSensitivity({ ssn: 50, card: 12 }).tier).toBe("Highly Restricted");
+  });
+
+  it("gives repeats diminishing returns", () => {
+    const one = scoreSensitivity({ ssn: 1 }).score;
+    const many = scoreSensitivity({ ssn: 64 }).score;
+    expect(many).toBeGreaterThan(one);
+    expect(many).toBeLessThan(64 * one);
+  });
+
+  it("weighs custom detectors by a default severity and lists the heaviest first", () => {
+    const score = scoreSensitivity({ email: 2, projectCode: 1, card: 1 });
+    expect(score.contributions.map((c) => c.type)).toEqual(["card", "projectCode", "email"]);
+    expect(score.contributions.find((c) => c.type === "projectCode")?.points).toBeGreaterThan(0);
+  });
+});
+
+describe("sensitivity label", () => {
+  it("writes header, footer, watermark and custom properties", async () => {
+    const doc = installFakeOffice({ body: ["SSN 123-45-6789"], sets: ["WordApi 1.5"] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: internal });
+
+    const header = doc.storyBody("header", "1.primary");
+    expect(header.lines[0]).toBe("RESTRICTED");
+    expect(header.contentControls.items[0].font).toMatchObject({ bold: true, color: "#B00020" });
+    expect(header.paragraphs.items.at(-1)?.contentControl?.ooxml).toContain('string="RESTRICTED"');
+    expect(doc.storyBody("footer", "1.primary").lines).toEqual(["Classification: Restricted – named recipients only"]);
+    expect(doc.customProperties.values.get(LABEL_PROPERTY)).toBe("Restricted");
+    expect(result.sensitivity).toMatchObject({ tier: "Restricted", applied: "Restricted", previous: null, action: "applied" });
+  });
+
+  it("upgrades the existing label instead of stacking a second one", async () => {
+    const doc = installFakeOffice({ body: ["Mail jane.doe@example.com"], sets: ["WordApi 1.5"] });
+    await runRedactionWorkflow(quiet, { profile: internal });
+    expect(doc.storyBody("header", "1.primary").lines[0]).toBe("INTERNAL");
+
+    doc.body.paragraphs.items[0].text = "SSN 123-45-6789, card 4111 1111 1111 1111";
+    const result = await runRedactionWorkflow(quiet, { profile: internal });
+
+    const header = doc.storyBody("header", "1.primary");
+    expect(header.lines.filter((line) => line.includes("RESTRICTED"))).toEqual(["RESTRICTED"]);
+    expect(header.contentControls.items).toHaveLength(2);
+    expect(doc.storyBody("footer", "1.primary").lines).toHaveLength(1);
+    expect(result.sensitivity).toMatchObject({ previous: "Internal", applied: "Restricted", action: "upgraded" });
+    expect(result.headerUpdated).toBe(true);
+  });
+
+  it("downgrades on a whole-document run but never lowers it on a partial one", async () => {
+    const doc = installFakeOffice({ body: ["SSN 123-45-6789"], sets: ["WordApi 1.5"] });
+    await runRedactionWorkflow(quiet, { profile: internal });
+
+    doc.body.paragraphs.items[0].text = "Mail jane.doe@example.com";
+    const partial = await runRedactionWorkflow(quiet, { profile: internal, scope: "incremental" });
+    expect(partial.sensitivity).toMatchObject({ tier: "Internal", applied: "Restricted", action: "kept" });
+    expect(doc.storyBody("header", "1.primary").lines[0]).toBe("RESTRICTED");
+
+    doc.body.paragraphs.items[0].text = "Mail john.doe@example.com";
+    const whole = await runRedactionWorkflow(quiet, { profile: internal });
+    expect(whole.sensitivity).toMatchObject({ previous: "Restricted", applied: "Internal", action: "downgraded" });
+    expect(doc.storyBody("header", "1.primary").lines[0]).toBe("INTERNAL");
+    expect(doc.customProperties.values.get(LABEL_PROPERTY)).toBe("Internal");
+  });
+
+  it("keeps the tier when the same document is run again", async () => {
+    const doc = installFakeOffice({ body: ["SSN 123-45-6789, mail jane.doe@example.com"], sets: ["WordApi 1.5"] });
+
+    const first = await runRedactionWorkflow(quiet, { profile: internal });
+    const second = await runRedactionWorkflow(quiet, { profile: internal });
+
+    expect(first.sensitivity).toMatchObject({ tier: "Restricted", action: "applied" });
+    expect(second.sensitivity).toMatchObject({ tier: "Restricted", previous: "Restricted", action: "unchanged" });
+    expect(second.sensitivity?.contributions.map((c) => [c.type, c.count])).toEqual([
+      ["ssn", 1],
+      ["email", 1],
+    ]);
+    expect(doc.storyBody("header", "1.primary").lines[0]).toBe("RESTRICTED");
+  });
+
+  it("does not lower the tier when a run finds nothing it can count", async () => {
+    installFakeOffice({ body: ["SSN 123-45-6789"], sets: ["WordApi 1.5"] });
+    const styles = { ssn: { kind: "mask" as const } };
+
+    await runRedactionWorkflow(quiet, { profile: internal, styles });
+    const again = await runRedactionWorkflow(quiet, { profile: internal, styles });
+
+    expect(again.sensitivity).toMatchObject({ tier: "Internal", applied: "Restricted", action: "kept" });
+  });
+
+  it("keeps the fixed header for profiles without labels", async () => {
+    const doc = installFakeOffice({ body: ["SSN 123-45-6789"] });
+
+    const result = await runRedactionWorkflow(quiet, { profile: { ...internal, sensitivityLabels: false } });
+
+    expect(doc.storyBody("header", "1.primary").lines[0]).toBe("CONFIDENTIAL DOCUMENT");
+    expect(doc.storyBody("footer", "1.primary").lines).toEqual([]);
+    expect(result.sensitivity).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { getDetectors } from "../src/office/detectorRegistry";
+import { BUILT_IN_PROFILES, profileDetectors } from "../src/office/policyProfiles";
+import { runRedactionWorkflow } from "../src/office/runRedactionWorkflow";
+import { findSensitiveMatches } from "../src/office/sensitivePatterns";
+import {
+  exportTermLists,
+  loadTermLists,
+  parseAllowRule,
+  parseTermLists,
+  saveTermLists,
+  setTermLists,
+  type TermLists,
+} from "../src/office/termLists";
+import { installFakeOffice, uninstallFakeOffice } from "./fakeOffice";
+
+const lists = (allow: string[], deny: string[] = []): TermLists => ({ allow: allow.map(parseAllowRule), deny });
+const values = (text: string) => findSensitiveMatches(text, getDetectors()).map((m) => m.value);
+
+afterEach(() => {
+  setTermLists();
+  uninstallFakeOffice();
+});
+
+describe("allowlist", () => {
+  it("reads rules as exact values, wildcards or /regexes/", () => {
+    expect(parseAllowRule(" help@acme.com ")).toEqual({ kind: "exact", value: "help@acme.com" });
+    expect(parseAllowRule("*@ourcompany.com")).toEqual({ kind: "wildcard", value: "*@ourcompany.com" });
+    expect(parseAllowRule("/555-01\\d\\d/")).toEqual({ kind: "regex", value: "555-01\\d\\d" });
+  });
+
+  it("drops matching values and keeps the rest", () => {
+    setTermLists(lists(["*@ourcompany.com", "GB82 WEST 1234 5698 7654 32", "/212-555-01\\d\\d/"]));
+
+    const found = values(
+      "Mail jane@ourcompany.com or jane@partner.com; IBAN GB82WEST12345698765432; call 212-555-0123 or 212-555-1212.",
+    );
+
+    expect(found).toEqual(["jane@partner.com", "212-555-1212"]);
+  });
+
+  it("matches wildcards against the whole value", () => {
+    setTermLists(lists(["*@ourcompany.com"]));
+    expect(values("jane@ourcompany.com.evil.io")).toEqual(["jane@ourcompany.com.evil.io"]);
+  });
+});
+
+describe("always-redact terms", () => {
+  it("finds terms as whole words, case-insensitively, longest first", () => {
+    setTermLists(lists([], ["Project Falcon", "project falcon two"]));
+
+    const found = findSensitiveMatches("PROJECT FALCON TWO replaces Project Falcon, not Project Falconry.", getDetectors());
+
+    expect(found.filter((m) => m.type === "denyList").map((m) => m.value)).toEqual(["PROJECT FALCON TWO", "Project Falcon"]);
+  });
+
+  it("runs under profiles that list their detectors and ignores the allowlist", () => {
+    setTermLists(lists(["Falcon"]), lists([], ["Falcon"]));
+    const pci = BUILT_IN_PROFILES.find((p) => p.id === "pci")!;
+
+    expect(findSensitiveMatches("Falcon", profileDetectors(pci)).map((m) => m.type)).toEqual(["denyList"]);
+  });
+
+  it("redacts terms in a run and records them in the audit", async () => {
+    const doc = installFakeOffice({ body: ["Kick-off for Project Falcon on Monday."] });
+    setTermLists(lists([], ["Project Falcon"]));
+    const internal = { ...BUILT_IN_PROFILES.find((p) => p.id === "internal")!, header: null };
+
+    const result = await runRedactionWorkflow(() => {}, { profile: internal });
+
+    expect(doc.body.lines).toEqual(["Kick-off for [REDACTED] on Monday."]);
+    expect(result.counts.denyList).toBe(1);
+  });
+});
+
+describe("term list files and settings", () => {
+  it("round-trips through an exported file", () => {
+    const original = lists(["*@ourcompany.com", "/\\d{3}/"], ["Falcon"]);
+    expect(parseTermLists(exportTermLists(original))).toEqual(original);
+  });
+
+  it("rejects malformed files with the offending entry", () => {
+    expect(() => parseTermLists("{")).toThrow("Not a JSON file.");
+    expect(() => parseTermLists(JSON.stringify({ format: "redaction-profiles" }))).toThrow(/term lists/);
+    expect(() => parseTermLists(JSON.stringify({ allow: [{ kind: "regex", value: "(" }] }))).toThrow(/entry 1/);
+    expect(() => parseTermLists(JSON.stringify({ deny: [42] }))).toThrow(/deny/);
+  });
+
+  it("stores lists per document", async () => {
+    installFakeOffice({ body: [] });
+    await saveTermLists(lists([], ["Falcon"]), "document");
+
+    expect(loadTermLists("document").deny).toEqual(["Falcon"]);
+    expect(loadTermLists("user").deny).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { getDetectors } from "../src/office/detectorRegistry";
+import { verhoeffCheck } from "../src/office/internationalDetectors";
+import { findSensitiveMatches, isValidAbaRouting, isValidIban, luhnCheck } from "../src/office/sensitivePatterns";
+
+const digits = (min: number, max: number) =>
+  fc.array(fc.integer({ min: 0, max: 9 }), { minLength: min, maxLength: max }).map((d) => d.join(""));
+
+// The digit that makes `payload` + digit pass Luhn.
+function luhnCheckDigit(payload: string): string {
+  for (let d = 0; d <= 9; d++) if (luhnCheck(payload + d)) return String(d);
+  throw new Error("unreachable");
+}
+
+function verhoeffCheckDigit(payload: string): string {
+  for (let d = 0; d <= 9; d++) if (verhoeffCheck(payload + d)) return String(d);
+  throw new Error("unreachable");
+}
+
+// ISO 13616 check digits for a country code and BBAN.
+function ibanOf(country: string, bban: string): string {
+  const numeric = (bban + country + "00").replace(/[A-Z]/g, (c) => String(c.charCodeAt(0) - 55));
+  let mod = 0;
+  for (const ch of numeric) mod = (mod * 10 + Number(ch)) % 97;
+  return `${country}${String(98 - mod).padStart(2, "0")}${bban}`;
+}
+
+// The ninth digit that completes an ABA routing number.
+function abaCheckDigit(payload: string): string {
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7];
+  const sum = [...payload].reduce((n, d, i) => n + Number(d) * weights[i], 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+const country = fc.constantFrom("GB", "DE", "FR", "NL", "ES", "IT", "BE", "CH");
+const bban = fc
+  .array(fc.constantFrom(..."0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ"), { minLength: 11, maxLength: 30 })
+  .map((c) => c.join(""));
+
+describe("luhnCheck", () => {
+  it("accepts any payload completed with its check digit", () => {
+    fc.assert(fc.property(digits(1, 18), (payload) => luhnCheck(payload + luhnCheckDigit(payload))));
+  });
+
+  it("detects every single-digit substitution", () => {
+    fc.assert(
+      fc.property(digits(12, 18), fc.nat(), fc.integer({ min: 1, max: 9 }), (payload, pos, delta) => {
+        const valid = payload + luhnCheckDigit(payload);
+        const i = pos % valid.length;
+        const changed = valid.slice(0, i) + ((Number(valid[i]) + delta) % 10) + valid.slice(i + 1);
+        return !luhnCheck(changed);
+      }),
+    );
+  });
+
+  it("is unaffected by leading zeros", () => {
+    fc.assert(fc.property(digits(1, 18), fc.integer({ min: 1, max: 4 }), (n, zeros) => {
+      return luhnCheck("0".repeat(zeros) + n) === luhnCheck(n);
+    }));
+  });
+
+  it("rejects non-digits", () => {
+    expect(luhnCheck("4111-1111-1111-1111")).toBe(false);
+  });
+});
+
+describe("verhoeffCheck", () => {
+  it("has exactly one check digit for any payload", () => {
+    fc.assert(
+      fc.property(digits(1, 15), (payload) => {
+        const valid = [..."0123456789"].filter((d) => verhoeffCheck(payload + d));
+        return valid.length === 1;
+      }),
+    );
+  });
+
+  it("detects every single-digit substitution and adjacent transposition", () => {
+    fc.assert(
+      fc.property(digits(11, 11), fc.nat(), fc.integer({ min: 1, max: 9 }), (payload, pos, delta) => {
+        const valid = payload + verhoeffCheckDigit(payload);
+        const i = pos % valid.length;
+        const changed = valid.slice(0, i) + ((Number(valid[i]) + delta) % 10) + valid.slice(i + 1);
+        const j = pos % (valid.length - 1);
+        const swapped = valid.slice(0, j) + valid[j + 1] + valid[j] + valid.slice(j + 2);
+        return !verhoeffCheck(changed) && (swapped === valid || !verhoeffCheck(swapped));
+      }),
+    );
+  });
+});
+
+describe("isValidIban", () => {
+  it("accepts generated IBANs", () => {
+    fc.assert(fc.property(country, bban, (c, b) => isValidIban(ibanOf(c, b))));
+  });
+
+  it("detects every single-character substitution in the BBAN", () => {
+    fc.assert(
+      fc.property(country, bban, fc.nat(), fc.integer({ min: 1, max: 9 }), (c, b, pos, delta) => {
+        const i = pos % b.length;
+        if (!/\d/.test(b[i])) return true;
+        const changed = b.slice(0, i) + ((Number(b[i]) + delta) % 10) + b.slice(i + 1);
+        return !isValidIban(ibanOf(c, b).slice(0, 4) + changed);
+      }),
+    );
+  });
+
+  it("rejects lower case and bad shapes", () => {
+    expect(isValidIban("gb82west12345698765432")).toBe(false);
+    expect(isValidIban("GB82WEST")).toBe(false);
+    expect(isValidIban("1282WEST12345698765432")).toBe(false);
+  });
+});
+
+describe("isValidAbaRouting", () => {
+  it("accepts generated routing numbers and the published example", () => {
+    fc.assert(fc.property(digits(8, 8), (payload) => isValidAbaRouting(payload + abaCheckDigit(payload))));
+    expect(isValidAbaRouting("021000021")).toBe(true);
+  });
+
+  it("detects every single-digit substitution", () => {
+    fc.assert(
+      fc.property(digits(8, 8), fc.nat(), fc.integer({ min: 1, max: 9 }), (payload, pos, delta) => {
+        const valid = payload + abaCheckDigit(payload);
+        const i = pos % valid.length;
+        return !isValidAbaRouting(valid.slice(0, i) + ((Number(valid[i]) + delta) % 10) + valid.slice(i + 1));
+      }),
+    );
+  });
+
+  it("rejects other lengths", () => {
+    expect(isValidAbaRouting("02100002")).toBe(false);
+    expect(isValidAbaRouting("0210000210")).toBe(false);
+  });
+});
+
+describe("detectors on generated values", () => {
+  it("find a Luhn-valid 16-digit card number in running text", () => {
+    fc.assert(
+      fc.property(digits(15, 15), (payload) => {
+        const card = `4${payload.slice(1)}`;
+        const number = card + luhnCheckDigit(card);
+        const grouped = number.replace(/(\d{4})(?=\d)/g, "$1 ");
+        const found = findSensitiveMatches(`paid with ${grouped} today`, getDetectors());
+        return found.some((m) => m.type === "card" && m.value === grouped);
+      }),
+    );
+  });
+
+  it("find a generated Aadhaar number next to its keyword", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 9 }), digits(10, 10), (first, rest) => {
+        const payload = `${first}${rest}`;
+        const number = (payload + verhoeffCheckDigit(payload)).replace(/(\d{4})(?=\d)/g, "$1 ");
+        const found = findSensitiveMatches(`Aadhaar no. ${number} on file`, getDetectors());
+        return found.some((m) => m.type === "inAadhaar" && m.value === number && m.confidence > 0.9);
+      }),
+    );
+  });
+
+  it("find a generated IBAN in running text", () => {
+    fc.assert(
+      fc.property(country, bban, (c, b) => {
+        const iban = ibanOf(c, b);
+        const found = findSensitiveMatches(`transfer to ${iban} please`, getDetectors());
+        return found.some((m) => m.type === "bank" && m.value === iban);
+      }),
+    );
+  });
+});
@@ -0,0 +1,22 @@
+import { defineConfig } from "vite";
+
+// Bundles the headless CLI (src/cli/redact.ts) and the mock detection provider
+// (src/cli/mockProvider.ts) for Node. The detectors are shared with the add-in.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: "dist/cli",
+    emptyOutDir: true,
+    target: "node20",
+    rollupOptions: {
+      input: {
+        redact: "src/cli/redact.ts",
+        "mock-provider": "src/cli/mockProvider.ts",
+      },
+      output: {
+        entryFileNames: "[name].mjs",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});
@@ -1,6 +1,46 @@
-import { defineConfig } from "vite";
+/// <reference types="node" />
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { defineConfig, type Plugin } from "vite";
 import { getHttpsServerOptions } from "office-addin-dev-certs";
 
+const require = createRequire(import.meta.url);
+
+// Files Tesseract loads at runtime (see src/office/ocrEngine.ts), served under /ocr/ so OCR never
+// reaches a CDN. The worker picks one of the LSTM cores depending on the browser's SIMD support.
+function ocrAssetFiles(): Record<string, string> {
+  const tesseract = dirname(require.resolve("tesseract.js/package.json"));
+  const core = dirname(require.resolve("tesseract.js-core/package.json", { paths: [tesseract] }));
+  const eng = dirname(require.resolve("@tesseract.js-data/eng/package.json"));
+  const cores = ["tesseract-core-lstm", "tesseract-core-simd-lstm", "tesseract-core-relaxedsimd-lstm"];
+  return {
+    "worker.min.js": join(tesseract, "dist/worker.min.js"),
+    ...Object.fromEntries(cores.map((name) => [`${name}.wasm.js`, join(core, `${name}.wasm.js`)])),
+    "eng.traineddata.gz": join(eng, "4.0.0_best_int/eng.traineddata.gz"),
+  };
+}
+
+function ocrAssets(): Plugin {
+  const files = ocrAssetFiles();
+  return {
+    name: "ocr-assets",
+    configureServer(server) {
+      server.middlewares.use("/ocr", (req, res, next) => {
+        const file = files[(req.url ?? "").replace(/^\//, "").split("?")[0]];
+        if (!file) return next();
+        res.setHeader("Content-Type", file.endsWith(".js") ? "text/javascript" : "application/octet-stream");
+        res.end(readFileSync(file));
+      });
+    },
+    generateBundle() {
+      for (const [name, file] of Object.entries(files)) {
+        this.emitFile({ type: "asset", fileName: `ocr/${name}`, source: readFileSync(file) });
+      }
+    },
+  };
+}
+
 export default defineConfig(async () => {
   let https: boolean | Record<string, unknown> = true;
   try {
@@ -11,6 +51,13 @@ export default defineConfig(async () => {
   }
 
   return {
+    plugins: [ocrAssets()],
+    build: {
+      rollupOptions: {
+        // The taskpane, and the UI-less page Outlook loads to check a message on send.
+        input: { main: "index.html", launchevent: "launchevent.html" },
+      },
+    },
     server: {
       port: 3000,
       strictPort: true,
@@ -24,5 +71,3 @@ export default defineConfig(async () => {
     },
   };
 });
-
-
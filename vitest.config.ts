@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests run in Node against a fake Word/Office object model (test/fakeOffice.ts), so they
+// don't need the dev server's HTTPS setup from vite.config.ts.
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    environment: "node",
+  },
+});